@@ -1,8 +1,20 @@
 import { EventBridgeEvent, Context } from 'aws-lambda';
-import { DomainEvent, ExtractEvent } from '../models/types';
+import { ExtractEvent } from '../models/types';
+import { formatMoney } from '../models/money';
+import { eventSchema } from '../models/schemas';
+import {
+  EnvelopeParseResult,
+  EventEnvelope,
+  createEnvelope,
+  isCloudEvent,
+  parseCloudEvent,
+} from '../models/event-envelope';
 import { EventHandler, EventHandlerRegistry } from '../services/event-publisher';
 import { NotificationService } from '../services/messaging-service';
+import { QueuePoisonEventSink } from '../services/poison-event-sink';
 import { createLogger, getEnvVar } from '../utils/helpers';
+import { setInvocationDeadline } from '../utils/retry-policy';
+import { runWithCorrelation } from '../utils/correlation-context';
 
 /**
  * Order created event handler
@@ -11,7 +23,7 @@ class OrderCreatedHandler implements EventHandler<ExtractEvent<'ORDER_CREATED'>>
   private readonly logger = createLogger('OrderCreatedHandler');
   private readonly notificationService = new NotificationService();
 
-  async handle(event: ExtractEvent<'ORDER_CREATED'>): Promise<void> {
+  async handle(event: EventEnvelope<ExtractEvent<'ORDER_CREATED'>>): Promise<void> {
     this.logger.info('Handling ORDER_CREATED event', { orderId: event.payload.orderId });
 
     try {
@@ -25,7 +37,7 @@ class OrderCreatedHandler implements EventHandler<ExtractEvent<'ORDER_CREATED'>>
             type: 'ORDER_CREATED',
             orderId: event.payload.orderId,
             customerId: event.payload.customerId,
-            totalAmount: event.payload.totalAmount,
+            totalAmount: formatMoney(event.payload.totalAmount),
             itemCount: event.payload.items.length,
           },
           'New Order Created'
@@ -46,7 +58,7 @@ class OrderCreatedHandler implements EventHandler<ExtractEvent<'ORDER_CREATED'>>
 class OrderUpdatedHandler implements EventHandler<ExtractEvent<'ORDER_UPDATED'>> {
   private readonly logger = createLogger('OrderUpdatedHandler');
 
-  handle(event: ExtractEvent<'ORDER_UPDATED'>): Promise<void> {
+  handle(event: EventEnvelope<ExtractEvent<'ORDER_UPDATED'>>): Promise<void> {
     this.logger.info('Handling ORDER_UPDATED event', { orderId: event.payload.orderId });
 
     try {
@@ -66,7 +78,7 @@ class OrderUpdatedHandler implements EventHandler<ExtractEvent<'ORDER_UPDATED'>>
 class OrderDeletedHandler implements EventHandler<ExtractEvent<'ORDER_DELETED'>> {
   private readonly logger = createLogger('OrderDeletedHandler');
 
-  handle(event: ExtractEvent<'ORDER_DELETED'>): Promise<void> {
+  handle(event: EventEnvelope<ExtractEvent<'ORDER_DELETED'>>): Promise<void> {
     this.logger.info('Handling ORDER_DELETED event', { orderId: event.payload.orderId });
 
     try {
@@ -80,6 +92,46 @@ class OrderDeletedHandler implements EventHandler<ExtractEvent<'ORDER_DELETED'>>
   }
 }
 
+/**
+ * Order status changed event handler
+ */
+class OrderStatusChangedHandler implements EventHandler<ExtractEvent<'ORDER_STATUS_CHANGED'>> {
+  private readonly logger = createLogger('OrderStatusChangedHandler');
+  private readonly notificationService = new NotificationService();
+
+  async handle(event: EventEnvelope<ExtractEvent<'ORDER_STATUS_CHANGED'>>): Promise<void> {
+    this.logger.info('Handling ORDER_STATUS_CHANGED event', {
+      orderId: event.payload.orderId,
+      fromStatus: event.payload.fromStatus,
+      toStatus: event.payload.toStatus,
+    });
+
+    try {
+      // Notify the customer about the new status
+      const topicArn = getEnvVar('NOTIFICATIONS_TOPIC_ARN', '');
+
+      if (topicArn) {
+        await this.notificationService.publishStructured(
+          topicArn,
+          {
+            type: 'ORDER_STATUS_CHANGED',
+            orderId: event.payload.orderId,
+            customerId: event.payload.customerId,
+            fromStatus: event.payload.fromStatus,
+            toStatus: event.payload.toStatus,
+          },
+          'Order Status Update'
+        );
+      }
+
+      this.logger.info('ORDER_STATUS_CHANGED event handled successfully');
+    } catch (error) {
+      this.logger.error('Error handling ORDER_STATUS_CHANGED event', error);
+      throw error;
+    }
+  }
+}
+
 /**
  * Payment processed event handler
  */
@@ -87,7 +139,7 @@ class PaymentProcessedHandler implements EventHandler<ExtractEvent<'PAYMENT_PROC
   private readonly logger = createLogger('PaymentProcessedHandler');
   private readonly notificationService = new NotificationService();
 
-  async handle(event: ExtractEvent<'PAYMENT_PROCESSED'>): Promise<void> {
+  async handle(event: EventEnvelope<ExtractEvent<'PAYMENT_PROCESSED'>>): Promise<void> {
     this.logger.info('Handling PAYMENT_PROCESSED event', {
       orderId: event.payload.orderId,
       status: event.payload.status,
@@ -105,7 +157,7 @@ class PaymentProcessedHandler implements EventHandler<ExtractEvent<'PAYMENT_PROC
             orderId: event.payload.orderId,
             paymentId: event.payload.paymentId,
             status: event.payload.status,
-            amount: event.payload.amount,
+            amount: formatMoney(event.payload.amount),
           },
           'Payment Status Update'
         );
@@ -120,12 +172,20 @@ class PaymentProcessedHandler implements EventHandler<ExtractEvent<'PAYMENT_PROC
 }
 
 // Initialize event handler registry
-const registry = new EventHandlerRegistry();
+const registry = new EventHandlerRegistry({
+  mode: getEnvVar('EVENT_DISPATCH_MODE', 'sequential') === 'parallel' ? 'parallel' : 'sequential',
+});
 registry.register('ORDER_CREATED', new OrderCreatedHandler());
 registry.register('ORDER_UPDATED', new OrderUpdatedHandler());
 registry.register('ORDER_DELETED', new OrderDeletedHandler());
+// Notifications are worth a retry before the whole event is redelivered
+registry.register('ORDER_STATUS_CHANGED', new OrderStatusChangedHandler(), {
+  retry: { maxRetries: 2 },
+});
 registry.register('PAYMENT_PROCESSED', new PaymentProcessedHandler());
 
+const poisonEventSink = new QueuePoisonEventSink();
+
 /**
  * EventBridge event handler
  */
@@ -133,6 +193,7 @@ export const eventBridgeHandler = async (
   event: EventBridgeEvent<string, unknown>,
   context: Context
 ): Promise<void> => {
+  setInvocationDeadline(context);
   const logger = createLogger('EventBridgeHandler', { requestId: context.awsRequestId });
 
   logger.info('Processing EventBridge event', {
@@ -141,20 +202,67 @@ export const eventBridgeHandler = async (
   });
 
   try {
-    // Map EventBridge event to domain event
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const domainEvent: any = {
-      type: event['detail-type'] as DomainEvent['type'],
-      payload: event.detail as DomainEvent['payload'],
-    };
-
-    // Dispatch to appropriate handler
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-    await registry.dispatch(domainEvent);
-
-    logger.info('Event processed successfully');
+    const result = unwrapEnvelope(event);
+
+    // Invalid events can never succeed, so they are parked instead of retried
+    if (!result.success) {
+      await poisonEventSink.send({
+        reason: 'Event failed schema validation',
+        issues: result.issues,
+        receivedAt: new Date().toISOString(),
+        event,
+      });
+      logger.warn('Invalid event routed to poison sink', { issueCount: result.issues.length });
+      return;
+    }
+
+    const envelope = result.envelope;
+
+    // Handlers run in the producer's correlation context, so their logs and messages carry it
+    await runWithCorrelation(envelope.correlationId, async () => {
+      logger.info('Unwrapped event envelope', {
+        eventId: envelope.id,
+        dataSchemaVersion: envelope.dataSchemaVersion,
+      });
+
+      // Dispatch to every handler for the event type
+      const dispatchResult = await registry.dispatch(envelope);
+
+      // EventBridge redelivers the whole event, so handlers that already succeeded see it again
+      if (dispatchResult.failed.length > 0) {
+        throw new Error(
+          `Event handlers failed: ${dispatchResult.failed.map((failure) => failure.handler).join(', ')}`
+        );
+      }
+
+      logger.info('Event processed successfully');
+    });
   } catch (error) {
     logger.error('Error processing EventBridge event', error);
     throw error;
   }
 };
+
+/**
+ * Unwrap and validate CloudEvents JSON from the event detail; producers that still send
+ * a bare payload get an envelope built from the EventBridge metadata
+ */
+function unwrapEnvelope(event: EventBridgeEvent<string, unknown>): EnvelopeParseResult {
+  if (isCloudEvent(event.detail)) {
+    return parseCloudEvent(event.detail);
+  }
+
+  const domainEvent = eventSchema.safeParse({
+    type: event['detail-type'],
+    payload: event.detail,
+  });
+
+  if (!domainEvent.success) {
+    return { success: false, issues: domainEvent.error.issues };
+  }
+
+  return {
+    success: true,
+    envelope: createEnvelope(domainEvent.data, event.source, { id: event.id, time: event.time }),
+  };
+}
@@ -1,7 +1,17 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { OrderService } from '../services/order-service';
-import { createOrderSchema } from '../models/schemas';
-import { OrderId, CustomerId } from '../models/types';
+import { OrderPatch, OrderService } from '../services/order-service';
+import {
+  CreateOrderRequest,
+  OrderItemQuantityRequest,
+  OrderItemRequest,
+  createOrderSchema,
+  jsonPatchSchema,
+  orderItemQuantitySchema,
+  orderItemRequestSchema,
+  queryOrdersSchema,
+  updateOrderSchema,
+} from '../models/schemas';
+import { OrderId } from '../models/types';
 import {
   withMiddleware,
   errorHandlerMiddleware,
@@ -9,12 +19,47 @@ import {
   corsMiddleware,
   validationMiddleware,
   createResponse,
+  getHeader,
+  resolveIfMatch,
+  parseJsonBody,
+  versionETag,
 } from '../middleware/lambda-middleware';
-import { createLogger, errorResponse } from '../utils/helpers';
-import { ErrorCode } from '../models/types';
+import { idempotencyMiddleware } from '../middleware/idempotency-middleware';
+import { rateLimitMiddleware } from '../middleware/rate-limit-middleware';
+import {
+  ADMIN_ROLE,
+  FULFILMENT_ROLE,
+  assertCustomerAccess,
+  authMiddleware,
+  getPrincipal,
+  isStaff,
+  requireAnyRole,
+  requireRole,
+} from '../middleware/auth-middleware';
+import { createLogger } from '../utils/helpers';
+import { JSON_PATCH_MEDIA_TYPE, MERGE_PATCH_MEDIA_TYPE } from '../utils/json-patch';
+import { NotFoundError, UnsupportedMediaTypeError, ValidationError } from '../models/errors';
+import { Order, OrderStatus, PriceBreakdown } from '../models/entities';
+import { Money, formatMoney } from '../models/money';
 
 const orderService = new OrderService();
 
+const METADATA_PARAM_PREFIX = 'metadata.';
+
+// Moving an order through its lifecycle is staff work; customers edit items and address only
+const requireStatusChangeRole = requireAnyRole(ADMIN_ROLE, FULFILMENT_ROLE);
+
+// Token bucket limits per client tier: burst capacity, then a steady refill rate
+const CREATE_ORDER_LIMITS = {
+  default: { capacity: 10, refillPerSecond: 1 / 6 },
+  premium: { capacity: 50, refillPerSecond: 1 },
+};
+
+const LIST_ORDERS_LIMITS = {
+  default: { capacity: 30, refillPerSecond: 1 },
+  premium: { capacity: 100, refillPerSecond: 5 },
+};
+
 /**
  * Create order handler with validation middleware
  */
@@ -28,14 +73,16 @@ export const createOrderHandler = withMiddleware(
     });
 
     try {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      const validatedData = event.validatedBody ?? JSON.parse(event.body ?? '{}');
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+      const validatedData = (event.validatedBody ??
+        JSON.parse(event.body ?? '{}')) as CreateOrderRequest;
+
+      assertCustomerAccess(getPrincipal(event), validatedData.customerId);
+
       const order = await orderService.createOrder(validatedData);
 
       logger.info('Order created successfully', { orderId: order.orderId });
 
-      return createResponse(201, order, context.awsRequestId);
+      return createResponse(201, presentOrder(order), context.awsRequestId);
     } catch (error) {
       logger.error('Error creating order', error);
       throw error;
@@ -44,6 +91,9 @@ export const createOrderHandler = withMiddleware(
   errorHandlerMiddleware,
   loggingMiddleware,
   corsMiddleware,
+  authMiddleware(),
+  rateLimitMiddleware({ route: 'POST /orders', limits: CREATE_ORDER_LIMITS }),
+  idempotencyMiddleware(),
   validationMiddleware(createOrderSchema)
 );
 
@@ -58,26 +108,16 @@ export const getOrderHandler = withMiddleware(
       const orderId = event.pathParameters?.orderId;
 
       if (orderId === null || orderId === undefined || orderId === '') {
-        return {
-          statusCode: 400,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(errorResponse('Order ID is required', ErrorCode.VALIDATION_ERROR)),
-        };
+        throw new ValidationError('Order ID is required');
       }
 
-      const order = await orderService.getOrder(orderId as OrderId);
-
-      if (order === null || order === undefined) {
-        return {
-          statusCode: 404,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(errorResponse('Order not found', ErrorCode.NOT_FOUND)),
-        };
-      }
+      const order = await loadOwnedOrder(event, orderId as OrderId);
 
       logger.info('Order retrieved successfully', { orderId });
 
-      return createResponse(200, order, context.awsRequestId);
+      return createResponse(200, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
     } catch (error) {
       logger.error('Error getting order', error);
       throw error;
@@ -85,7 +125,8 @@ export const getOrderHandler = withMiddleware(
   },
   errorHandlerMiddleware,
   loggingMiddleware,
-  corsMiddleware
+  corsMiddleware,
+  authMiddleware()
 );
 
 /**
@@ -98,17 +139,26 @@ export const listOrdersHandler = withMiddleware(
     });
 
     try {
-      const customerId = event.queryStringParameters?.customerId as CustomerId | undefined;
-      const limitParam = event.queryStringParameters?.limit ?? null;
-      const limit = limitParam !== null ? parseInt(limitParam, 10) : 20;
+      const principal = getPrincipal(event);
+      const query = queryOrdersSchema.parse(toOrderQuery(event.queryStringParameters ?? {}));
 
-      const nextToken = event.queryStringParameters?.nextToken;
+      if (query.customerId !== undefined) {
+        assertCustomerAccess(principal, query.customerId);
+      }
 
-      const result = await orderService.listOrders(customerId, limit, nextToken);
+      // Customers are always scoped to their own orders
+      const result = await orderService.listOrders({
+        ...query,
+        customerId: isStaff(principal) ? query.customerId : principal.customerId,
+      });
 
       logger.info('Orders retrieved successfully', { count: result.orders.length });
 
-      return createResponse(200, result, context.awsRequestId);
+      return createResponse(
+        200,
+        { ...result, orders: result.orders.map(presentOrder) },
+        context.awsRequestId
+      );
     } catch (error) {
       logger.error('Error listing orders', error);
       throw error;
@@ -116,7 +166,9 @@ export const listOrdersHandler = withMiddleware(
   },
   errorHandlerMiddleware,
   loggingMiddleware,
-  corsMiddleware
+  corsMiddleware,
+  authMiddleware(),
+  rateLimitMiddleware({ route: 'GET /orders', limits: LIST_ORDERS_LIMITS })
 );
 
 /**
@@ -132,23 +184,32 @@ export const updateOrderHandler = withMiddleware(
       const orderId = event.pathParameters?.orderId ?? null;
 
       if (orderId === null) {
-        return {
-          statusCode: 400,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(errorResponse('Order ID is required', ErrorCode.VALIDATION_ERROR)),
-        };
+        throw new ValidationError('Order ID is required');
       }
 
-      const body = JSON.parse(event.body ?? '{}') as Record<string, unknown>;
+      const existingOrder = await loadOwnedOrder(event, orderId as OrderId);
+      const expectedVersion = await resolveIfMatch(event, orderId, () =>
+        Promise.resolve(existingOrder.version)
+      );
 
-      const order = await orderService.updateOrder({
-        orderId: orderId as OrderId,
-        ...body,
+      const request = updateOrderSchema.parse({
+        ...(parseJsonBody(event) as Record<string, unknown>),
+        orderId,
       });
 
+      const status = request.status as OrderStatus | undefined;
+
+      if (status !== undefined && status !== existingOrder.status) {
+        requireStatusChangeRole(getPrincipal(event), event);
+      }
+
+      const order = await orderService.updateOrder(request, expectedVersion);
+
       logger.info('Order updated successfully', { orderId });
 
-      return createResponse(200, order, context.awsRequestId);
+      return createResponse(200, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
     } catch (error) {
       logger.error('Error updating order', error);
       throw error;
@@ -156,7 +217,153 @@ export const updateOrderHandler = withMiddleware(
   },
   errorHandlerMiddleware,
   loggingMiddleware,
-  corsMiddleware
+  corsMiddleware,
+  authMiddleware()
+);
+
+/**
+ * Patch order handler, accepting JSON Merge Patch and JSON Patch documents
+ */
+export const patchOrderHandler = withMiddleware(
+  async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('PatchOrderHandler', {
+      requestId: context.awsRequestId,
+    });
+
+    try {
+      const orderId = event.pathParameters?.orderId ?? null;
+
+      if (orderId === null) {
+        throw new ValidationError('Order ID is required');
+      }
+
+      const existingOrder = await loadOwnedOrder(event, orderId as OrderId);
+      const expectedVersion = await resolveIfMatch(event, orderId, () =>
+        Promise.resolve(existingOrder.version)
+      );
+      const patch = parseOrderPatch(event);
+
+      if (patchChangesStatus(patch, existingOrder)) {
+        requireStatusChangeRole(getPrincipal(event), event);
+      }
+
+      const order = await orderService.patchOrder(orderId as OrderId, patch, expectedVersion);
+
+      logger.info('Order patched successfully', { orderId });
+
+      return createResponse(200, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
+    } catch (error) {
+      logger.error('Error patching order', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware()
+);
+
+/**
+ * Add order item handler
+ */
+export const addOrderItemHandler = withMiddleware(
+  async (
+    event: APIGatewayProxyEvent & { validatedBody?: unknown },
+    context: Context
+  ): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('AddOrderItemHandler', { requestId: context.awsRequestId });
+
+    try {
+      const { orderId, expectedVersion } = await loadOrderForWrite(event);
+      const item = event.validatedBody as OrderItemRequest;
+
+      const order = await orderService.addItem(orderId, item, expectedVersion);
+
+      logger.info('Order item added successfully', { orderId, productId: item.productId });
+
+      return createResponse(201, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
+    } catch (error) {
+      logger.error('Error adding order item', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware(),
+  validationMiddleware(orderItemRequestSchema)
+);
+
+/**
+ * Change order item quantity handler
+ */
+export const updateOrderItemHandler = withMiddleware(
+  async (
+    event: APIGatewayProxyEvent & { validatedBody?: unknown },
+    context: Context
+  ): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('UpdateOrderItemHandler', { requestId: context.awsRequestId });
+
+    try {
+      const { orderId, expectedVersion } = await loadOrderForWrite(event);
+      const productId = requireProductId(event);
+      const { quantity } = event.validatedBody as OrderItemQuantityRequest;
+
+      const order = await orderService.changeItemQuantity(
+        orderId,
+        productId,
+        quantity,
+        expectedVersion
+      );
+
+      logger.info('Order item updated successfully', { orderId, productId });
+
+      return createResponse(200, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
+    } catch (error) {
+      logger.error('Error updating order item', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware(),
+  validationMiddleware(orderItemQuantitySchema)
+);
+
+/**
+ * Remove order item handler
+ */
+export const removeOrderItemHandler = withMiddleware(
+  async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('RemoveOrderItemHandler', { requestId: context.awsRequestId });
+
+    try {
+      const { orderId, expectedVersion } = await loadOrderForWrite(event);
+      const productId = requireProductId(event);
+
+      const order = await orderService.removeItem(orderId, productId, expectedVersion);
+
+      logger.info('Order item removed successfully', { orderId, productId });
+
+      return createResponse(200, presentOrder(order), context.awsRequestId, {
+        ETag: versionETag(order.version),
+      });
+    } catch (error) {
+      logger.error('Error removing order item', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware()
 );
 
 /**
@@ -172,19 +379,18 @@ export const deleteOrderHandler = withMiddleware(
       const orderId = event.pathParameters?.orderId ?? null;
 
       if (orderId === null) {
-        return {
-          statusCode: 400,
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(errorResponse('Order ID is required', ErrorCode.VALIDATION_ERROR)),
-        };
+        throw new ValidationError('Order ID is required');
       }
 
-      const body =
-        event.body !== null && event.body !== undefined
-          ? (JSON.parse(event.body) as { reason?: string })
-          : {};
+      const expectedVersion = await resolveIfMatch(
+        event,
+        orderId,
+        async () => (await orderService.getOrder(orderId as OrderId))?.version
+      );
 
-      await orderService.deleteOrder(orderId as OrderId, body.reason);
+      const body = parseJsonBody(event) as { reason?: string };
+
+      await orderService.deleteOrder(orderId as OrderId, body.reason, expectedVersion);
 
       logger.info('Order deleted successfully', { orderId });
 
@@ -196,5 +402,148 @@ export const deleteOrderHandler = withMiddleware(
   },
   errorHandlerMiddleware,
   loggingMiddleware,
-  corsMiddleware
+  corsMiddleware,
+  authMiddleware({ rules: [requireRole(ADMIN_ROLE)] })
 );
+
+/**
+ * Response view of an order: every amount also carries its display string, e.g. "$19.99"
+ */
+function presentOrder(order: Order): Record<string, unknown> {
+  return {
+    ...order,
+    items: order.items.map((item) => ({ ...item, price: presentMoney(item.price) })),
+    totalAmount: presentMoney(order.totalAmount),
+    ...(order.pricing && { pricing: presentPricing(order.pricing) }),
+  };
+}
+
+function presentPricing(pricing: PriceBreakdown): Record<string, unknown> {
+  return {
+    ...pricing,
+    lines: pricing.lines.map((line) => ({
+      ...line,
+      unitPrice: presentMoney(line.unitPrice),
+      discount: presentMoney(line.discount),
+      total: presentMoney(line.total),
+    })),
+    subtotal: presentMoney(pricing.subtotal),
+    lineDiscounts: presentMoney(pricing.lineDiscounts),
+    ...(pricing.coupon && {
+      coupon: { ...pricing.coupon, discount: presentMoney(pricing.coupon.discount) },
+    }),
+    shipping: presentMoney(pricing.shipping),
+    tax: presentMoney(pricing.tax),
+    total: presentMoney(pricing.total),
+  };
+}
+
+function presentMoney(value: Money): Money & { formatted: string } {
+  return { ...value, formatted: formatMoney(value) };
+}
+
+/**
+ * Load an order the caller is allowed to access
+ */
+async function loadOwnedOrder(event: APIGatewayProxyEvent, orderId: OrderId): Promise<Order> {
+  const order = await orderService.getOrder(orderId);
+
+  if (!order) {
+    throw new NotFoundError('Order', orderId);
+  }
+
+  assertCustomerAccess(getPrincipal(event), order.customerId);
+  return order;
+}
+
+/**
+ * Resolve the order a write targets and the version If-Match requires, checking the caller
+ * may access it
+ */
+async function loadOrderForWrite(
+  event: APIGatewayProxyEvent
+): Promise<{ orderId: OrderId; expectedVersion?: number }> {
+  const orderId = event.pathParameters?.orderId;
+
+  if (orderId === undefined || orderId === '') {
+    throw new ValidationError('Order ID is required');
+  }
+
+  const order = await loadOwnedOrder(event, orderId as OrderId);
+  const expectedVersion = await resolveIfMatch(event, orderId, () =>
+    Promise.resolve(order.version)
+  );
+
+  return { orderId: orderId as OrderId, expectedVersion };
+}
+
+function requireProductId(event: APIGatewayProxyEvent): string {
+  const productId = event.pathParameters?.productId;
+
+  if (productId === undefined || productId === '') {
+    throw new ValidationError('Product ID is required');
+  }
+
+  return productId;
+}
+
+const PATCH_MEDIA_TYPES = [MERGE_PATCH_MEDIA_TYPE, JSON_PATCH_MEDIA_TYPE];
+
+/**
+ * Read the patch document in the format its Content-Type names
+ */
+function parseOrderPatch(event: APIGatewayProxyEvent): OrderPatch {
+  const mediaType = getHeader(event, 'Content-Type')?.split(';')[0]?.trim().toLowerCase();
+
+  switch (mediaType) {
+    case MERGE_PATCH_MEDIA_TYPE:
+      return { type: 'merge', document: parseJsonBody(event) };
+    case JSON_PATCH_MEDIA_TYPE:
+      return { type: 'json-patch', operations: jsonPatchSchema.parse(parseJsonBody(event)) };
+    default:
+      throw new UnsupportedMediaTypeError(mediaType, PATCH_MEDIA_TYPES, {
+        'Accept-Patch': PATCH_MEDIA_TYPES.join(', '),
+      });
+  }
+}
+
+/**
+ * Whether a patch may move the order's status: a merge patch naming another status, or a
+ * JSON Patch operation that writes to /status or replaces the whole document
+ */
+function patchChangesStatus(patch: OrderPatch, order: Order): boolean {
+  if (patch.type === 'merge') {
+    const { document } = patch;
+
+    return typeof document === 'object' && document !== null && !Array.isArray(document)
+      ? 'status' in document && (document as { status?: unknown }).status !== order.status
+      : true;
+  }
+
+  const touchesStatus = (path: string): boolean =>
+    path === '' || path === '/status' || path.startsWith('/status/');
+
+  return patch.operations.some(
+    (operation) =>
+      operation.op !== 'test' &&
+      (touchesStatus(operation.path) || (operation.op === 'move' && touchesStatus(operation.from)))
+  );
+}
+
+/**
+ * Gather `metadata.<key>` query parameters into a metadata object for queryOrdersSchema
+ */
+function toOrderQuery(params: Record<string, string | undefined>): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  const metadata: Record<string, string | undefined> = {};
+
+  for (const [key, value] of Object.entries(params)) {
+    if (key.startsWith(METADATA_PARAM_PREFIX)) {
+      metadata[key.slice(METADATA_PARAM_PREFIX.length)] = value;
+    } else {
+      query[key] = value;
+    }
+  }
+
+  return Object.keys(metadata).length > 0 ? { ...query, metadata } : query;
+}
@@ -0,0 +1,80 @@
+import { DynamoDBBatchResponse, DynamoDBStreamEvent, Context, ScheduledEvent } from 'aws-lambda';
+import { AttributeValue } from '@aws-sdk/client-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { EventPublisher } from '../services/event-publisher';
+import { OutboxEntry, OutboxRelay, OutboxSweepResult } from '../services/outbox';
+import { DynamoDBRepository } from '../utils/dynamodb-repository';
+import { loadPaginationTokenCodec } from '../utils/pagination-token';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { setInvocationDeadline } from '../utils/retry-policy';
+import { runWithCorrelation } from '../utils/correlation-context';
+
+// Entries younger than this are left to the stream relay, which may still be retrying them
+const SWEEP_GRACE_PERIOD_MS = 5 * 60 * 1000;
+
+const relay = new OutboxRelay(
+  new DynamoDBRepository<OutboxEntry, string>(
+    getEnvVar('OUTBOX_TABLE_NAME', 'Outbox'),
+    'outboxId',
+    undefined,
+    loadPaginationTokenCodec()
+  ),
+  new EventPublisher()
+);
+
+/**
+ * Outbox relay driven by the outbox table stream
+ */
+export const outboxRelayHandler = async (
+  event: DynamoDBStreamEvent,
+  context: Context
+): Promise<DynamoDBBatchResponse> => {
+  setInvocationDeadline(context);
+  const logger = createLogger('OutboxRelayHandler', { requestId: context.awsRequestId });
+
+  logger.info('Processing outbox stream records', { recordCount: event.Records.length });
+
+  for (const record of event.Records) {
+    const newImage = record.dynamodb?.NewImage;
+
+    if (record.eventName !== 'INSERT' || newImage === undefined) {
+      continue;
+    }
+
+    try {
+      const entry = unmarshall(newImage as Record<string, AttributeValue>) as OutboxEntry;
+      await runWithCorrelation(entry.event.correlationId, () => relay.relay(entry));
+    } catch (error) {
+      // Stream records are ordered: checkpoint at the first failure so it and everything after retry
+      logger.error('Error relaying outbox entry', error, {
+        sequenceNumber: record.dynamodb?.SequenceNumber,
+      });
+      return { batchItemFailures: [{ itemIdentifier: record.dynamodb?.SequenceNumber ?? '' }] };
+    }
+  }
+
+  logger.info('Outbox stream records processed successfully');
+  return { batchItemFailures: [] };
+};
+
+/**
+ * Scheduled sweep re-sending entries the stream relay did not deliver, e.g. once its retries
+ * for a record are exhausted; entries stay pending until sent, so none is lost
+ */
+export const outboxSweepHandler = async (
+  _event: ScheduledEvent,
+  context: Context
+): Promise<OutboxSweepResult> => {
+  setInvocationDeadline(context);
+  const logger = createLogger('OutboxSweepHandler', { requestId: context.awsRequestId });
+
+  const result = await relay.relayPending(
+    new Date(Date.now() - SWEEP_GRACE_PERIOD_MS).toISOString()
+  );
+
+  if (result.failed > 0) {
+    logger.warn('Some pending outbox entries could not be sent', { ...result });
+  }
+
+  return result;
+};
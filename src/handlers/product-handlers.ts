@@ -0,0 +1,171 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { ProductCatalogService } from '../services/product-catalog';
+import {
+  CreateProductRequest,
+  UpdateProductRequest,
+  createProductSchema,
+  queryProductsSchema,
+  updateProductSchema,
+} from '../models/schemas';
+import {
+  withMiddleware,
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  validationMiddleware,
+  createResponse,
+  resolveIfMatch,
+  versionETag,
+} from '../middleware/lambda-middleware';
+import { ADMIN_ROLE, authMiddleware, requireRole } from '../middleware/auth-middleware';
+import { createLogger } from '../utils/helpers';
+import { NotFoundError, ValidationError } from '../models/errors';
+import { Product } from '../models/entities';
+import { formatMoney } from '../models/money';
+
+const productCatalog = new ProductCatalogService();
+
+/**
+ * Create product handler, admins only
+ */
+export const createProductHandler = withMiddleware(
+  async (
+    event: APIGatewayProxyEvent & { validatedBody?: unknown },
+    context: Context
+  ): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('CreateProductHandler', { requestId: context.awsRequestId });
+
+    try {
+      const product = await productCatalog.createProduct(
+        event.validatedBody as CreateProductRequest
+      );
+
+      logger.info('Product created successfully', { productId: product.productId });
+
+      return createResponse(201, presentProduct(product), context.awsRequestId, {
+        ETag: versionETag(product.version),
+      });
+    } catch (error) {
+      logger.error('Error creating product', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware({ rules: [requireRole(ADMIN_ROLE)] }),
+  validationMiddleware(createProductSchema)
+);
+
+/**
+ * Get product by ID handler
+ */
+export const getProductHandler = withMiddleware(
+  async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('GetProductHandler', { requestId: context.awsRequestId });
+
+    try {
+      const productId = requireProductId(event);
+      const product = await productCatalog.getProduct(productId);
+
+      if (!product) {
+        throw new NotFoundError('Product', productId);
+      }
+
+      return createResponse(200, presentProduct(product), context.awsRequestId, {
+        ETag: versionETag(product.version),
+      });
+    } catch (error) {
+      logger.error('Error getting product', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware()
+);
+
+/**
+ * List products handler
+ */
+export const listProductsHandler = withMiddleware(
+  async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('ListProductsHandler', { requestId: context.awsRequestId });
+
+    try {
+      const query = queryProductsSchema.parse(event.queryStringParameters ?? {});
+      const result = await productCatalog.listProducts(query);
+
+      logger.info('Products retrieved successfully', { count: result.products.length });
+
+      return createResponse(
+        200,
+        { ...result, products: result.products.map(presentProduct) },
+        context.awsRequestId
+      );
+    } catch (error) {
+      logger.error('Error listing products', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware()
+);
+
+/**
+ * Update product handler, admins only; discontinue a product by setting its status
+ */
+export const updateProductHandler = withMiddleware(
+  async (
+    event: APIGatewayProxyEvent & { validatedBody?: unknown },
+    context: Context
+  ): Promise<APIGatewayProxyResult> => {
+    const logger = createLogger('UpdateProductHandler', { requestId: context.awsRequestId });
+
+    try {
+      const productId = requireProductId(event);
+      const expectedVersion = await resolveIfMatch(
+        event,
+        productId,
+        async () => (await productCatalog.getProduct(productId))?.version
+      );
+
+      const product = await productCatalog.updateProduct(
+        productId,
+        event.validatedBody as UpdateProductRequest,
+        expectedVersion
+      );
+
+      logger.info('Product updated successfully', { productId });
+
+      return createResponse(200, presentProduct(product), context.awsRequestId, {
+        ETag: versionETag(product.version),
+      });
+    } catch (error) {
+      logger.error('Error updating product', error);
+      throw error;
+    }
+  },
+  errorHandlerMiddleware,
+  loggingMiddleware,
+  corsMiddleware,
+  authMiddleware({ rules: [requireRole(ADMIN_ROLE)] }),
+  validationMiddleware(updateProductSchema)
+);
+
+function presentProduct(product: Product): Record<string, unknown> {
+  return { ...product, price: { ...product.price, formatted: formatMoney(product.price) } };
+}
+
+function requireProductId(event: APIGatewayProxyEvent): string {
+  const productId = event.pathParameters?.productId;
+
+  if (productId === undefined || productId === '') {
+    throw new ValidationError('Product ID is required');
+  }
+
+  return productId;
+}
@@ -1,63 +1,92 @@
-import { SQSEvent, SQSHandler, Context } from 'aws-lambda';
-import { createLogger } from '../utils/helpers';
+import { SQSEvent, SQSBatchResponse, SQSRecord, Context } from 'aws-lambda';
+import { QueueMessageData } from '../models/schemas';
+import { MessageHandler, MessageRouter } from '../services/message-router';
+import { QueueService } from '../services/messaging-service';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { setInvocationDeadline } from '../utils/retry-policy';
+import { CORRELATION_ID_ATTRIBUTE, runWithCorrelation } from '../utils/correlation-context';
+import { parseBatchProcessingMode, processSqsBatch } from '../utils/sqs-batch-processor';
 
 const logger = createLogger('SQSHandler');
 
+const processingMode = parseBatchProcessingMode(getEnvVar('SQS_PROCESSING_MODE', 'parallel'));
+
+/**
+ * Process order message handler
+ */
+class ProcessOrderMessageHandler implements MessageHandler<'PROCESS_ORDER'> {
+  private readonly logger = createLogger('ProcessOrderMessageHandler');
+
+  handle(data: QueueMessageData<'PROCESS_ORDER'>): Promise<void> {
+    // Example order processing logic
+    this.logger.info('Processing order', { orderId: data.orderId });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Send email message handler
+ */
+class SendEmailMessageHandler implements MessageHandler<'SEND_EMAIL'> {
+  private readonly logger = createLogger('SendEmailMessageHandler');
+
+  handle(data: QueueMessageData<'SEND_EMAIL'>): Promise<void> {
+    // Example email sending logic
+    this.logger.info('Sending email', { to: data.to, subject: data.subject });
+    return Promise.resolve();
+  }
+}
+
+// Initialize message router
+const router = new MessageRouter();
+router.register('PROCESS_ORDER', new ProcessOrderMessageHandler());
+router.register('SEND_EMAIL', new SendEmailMessageHandler());
+
+const queueService = new QueueService();
+
 /**
- * SQS message handler with batch processing
+ * SQS message handler with partial batch failure reporting
  */
-export const sqsHandler: SQSHandler = async (event: SQSEvent, context: Context): Promise<void> => {
+export const sqsHandler = async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
+  setInvocationDeadline(context);
   logger.info('Processing SQS messages', {
     requestId: context.awsRequestId,
     messageCount: event.Records.length,
+    processingMode,
   });
 
-  const failedMessages: string[] = [];
-
-  // Process messages in parallel
-  await Promise.allSettled(
-    event.Records.map((record) => {
-      try {
-        logger.info('Processing message', { messageId: record.messageId });
-
-        const body = JSON.parse(record.body) as { type?: string; data?: unknown };
-
-        // Example: Process different message types
-        switch (body.type) {
-          case 'PROCESS_ORDER':
-            processOrder(body.data);
-            break;
-          case 'SEND_EMAIL':
-            sendEmail(body.data);
-            break;
-          default:
-            logger.warn('Unknown message type', { type: body.type ?? 'undefined' });
-        }
-
-        logger.info('Message processed successfully', { messageId: record.messageId });
-        return Promise.resolve();
-      } catch (error) {
-        logger.error('Error processing message', error, { messageId: record.messageId });
-        failedMessages.push(record.messageId);
-        return Promise.reject(error);
-      }
-    })
-  );
+  const response = await processSqsBatch(event.Records, processMessage, {
+    mode: processingMode,
+    logger,
+  });
 
-  if (failedMessages.length > 0) {
-    logger.error('Some messages failed to process', undefined, { failedMessages });
-    throw new Error(`Failed to process ${failedMessages.length} messages`);
+  if (response.batchItemFailures.length > 0) {
+    logger.warn('Some messages failed to process', {
+      failedMessages: response.batchItemFailures.map((failure) => failure.itemIdentifier),
+    });
+  } else {
+    logger.info('All messages processed successfully');
   }
 
-  logger.info('All messages processed successfully');
+  return response;
 };
 
-function processOrder(data: unknown): void {
-  // Example order processing logic
-  logger.info('Processing order', { data });
+// Each record continues the flow that sent it, so records in one batch keep separate contexts
+function processMessage(record: SQSRecord): Promise<void> {
+  return runWithCorrelation(record.messageAttributes[CORRELATION_ID_ATTRIBUTE]?.stringValue, () =>
+    routeMessage(record)
+  );
 }
 
-function sendEmail(data: unknown): void {
-  // Example email sending logic
-  logger.info('Sending email', { data });
+async function routeMessage(record: SQSRecord): Promise<void> {
+  const result = await router.route(record);
+
+  // Unknown or invalid messages skip the retry cycle and go straight to the DLQ
+  if (result.status === 'REJECTED') {
+    await queueService.sendRawMessage(getEnvVar('PROCESSING_DLQ_URL'), record.body, {
+      reason: result.reason,
+      sourceMessageId: record.messageId,
+      ...(result.issues && { validationIssues: JSON.stringify(result.issues) }),
+    });
+  }
 }
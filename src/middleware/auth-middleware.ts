@@ -0,0 +1,187 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { CustomerId } from '../models/types';
+import { ForbiddenError, UnauthorizedError } from '../models/errors';
+import {
+  JwksKeyResolver,
+  JwtClaims,
+  JwtVerifier,
+  KeyResolver,
+  StaticKeyResolver,
+} from '../utils/jwt-verifier';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { Middleware, getHeader } from './lambda-middleware';
+
+export const ADMIN_ROLE = 'admin';
+export const FULFILMENT_ROLE = 'fulfilment';
+
+/**
+ * Authenticated caller derived from a verified token
+ */
+export interface Principal {
+  subject: string;
+  customerId: CustomerId;
+  roles: string[];
+  claims: JwtClaims;
+}
+
+/**
+ * Authorization rule run against every authenticated request; throws to deny
+ */
+export type AuthRule = (principal: Principal, event: APIGatewayProxyEvent) => void;
+
+export interface AuthOptions {
+  verifier?: JwtVerifier;
+  rules?: AuthRule[];
+}
+
+// Shared across handlers in the same container so JWKS keys are fetched once
+let defaultVerifier: JwtVerifier | undefined;
+
+/**
+ * Auth middleware factory: verifies the bearer token, attaches the principal
+ * to the event and applies the route's authorization rules
+ */
+export function authMiddleware(options: AuthOptions = {}): Middleware {
+  const { rules = [] } = options;
+
+  return async (event, context, next) => {
+    const logger = createLogger('Auth', { requestId: context.awsRequestId });
+    const verifier = options.verifier ?? (defaultVerifier ??= createVerifierFromEnv());
+
+    const token = parseBearerToken(getHeader(event, 'Authorization'));
+    const principal = toPrincipal(await verifier.verify(token));
+
+    for (const rule of rules) {
+      rule(principal, event);
+    }
+
+    // Attach principal to event
+    (event as unknown as { principal: Principal }).principal = principal;
+
+    logger.debug('Request authenticated', { subject: principal.subject, roles: principal.roles });
+    return next();
+  };
+}
+
+/**
+ * Rule allowing only callers holding the given role
+ */
+export function requireRole(role: string): AuthRule {
+  return (principal) => {
+    if (!principal.roles.includes(role)) {
+      throw new ForbiddenError(`Role ${role} is required`, { requiredRole: role });
+    }
+  };
+}
+
+/**
+ * Rule allowing only callers holding at least one of the given roles
+ */
+export function requireAnyRole(...roles: string[]): AuthRule {
+  return (principal) => {
+    if (!roles.some((role) => principal.roles.includes(role))) {
+      throw new ForbiddenError(`One of the roles ${roles.join(', ')} is required`, {
+        requiredRoles: roles,
+      });
+    }
+  };
+}
+
+/**
+ * Principal attached by authMiddleware, if the request went through it
+ */
+export function findPrincipal(event: APIGatewayProxyEvent): Principal | undefined {
+  return (event as unknown as { principal?: Principal }).principal;
+}
+
+/**
+ * Principal attached by authMiddleware
+ */
+export function getPrincipal(event: APIGatewayProxyEvent): Principal {
+  const principal = findPrincipal(event);
+
+  if (!principal) {
+    throw new UnauthorizedError('Request is not authenticated');
+  }
+
+  return principal;
+}
+
+export function isAdmin(principal: Principal): boolean {
+  return principal.roles.includes(ADMIN_ROLE);
+}
+
+/**
+ * Admins and fulfilment staff work on every customer's orders
+ */
+export function isStaff(principal: Principal): boolean {
+  return isAdmin(principal) || principal.roles.includes(FULFILMENT_ROLE);
+}
+
+/**
+ * Customers may only act on their own data; staff may act on anyone's
+ */
+export function assertCustomerAccess(principal: Principal, customerId: CustomerId): void {
+  if (!isStaff(principal) && principal.customerId !== customerId) {
+    throw new ForbiddenError('Access to this customer is not allowed', { customerId });
+  }
+}
+
+function parseBearerToken(header: string | undefined): string {
+  const match = header !== undefined ? /^Bearer\s+(\S+)$/i.exec(header.trim()) : null;
+
+  const token = match?.[1];
+
+  if (token === undefined) {
+    throw new UnauthorizedError('Bearer token is required');
+  }
+
+  return token;
+}
+
+function toPrincipal(claims: JwtClaims): Principal {
+  if (typeof claims.sub !== 'string' || claims.sub === '') {
+    throw new UnauthorizedError('Token has no subject');
+  }
+
+  // Customer tokens carry a customerId claim; otherwise the subject identifies the customer
+  const customerId = typeof claims.customerId === 'string' ? claims.customerId : claims.sub;
+  const roles = Array.isArray(claims.roles)
+    ? claims.roles.filter((role): role is string => typeof role === 'string')
+    : typeof claims.role === 'string'
+      ? [claims.role]
+      : [];
+
+  return { subject: claims.sub, customerId: customerId as CustomerId, roles, claims };
+}
+
+function createVerifierFromEnv(): JwtVerifier {
+  const jwksUrl = optionalEnvVar('JWT_JWKS_URL');
+  const secret = optionalEnvVar('JWT_SECRET');
+  const publicKey = optionalEnvVar('JWT_PUBLIC_KEY');
+
+  if (jwksUrl === undefined && secret === undefined && publicKey === undefined) {
+    throw new Error('One of JWT_JWKS_URL, JWT_SECRET or JWT_PUBLIC_KEY must be set');
+  }
+
+  const keyResolver: KeyResolver =
+    jwksUrl !== undefined
+      ? new JwksKeyResolver(jwksUrl)
+      : new StaticKeyResolver({
+          secret,
+          publicKeys: publicKey !== undefined ? { default: publicKey } : undefined,
+        });
+
+  return new JwtVerifier(keyResolver, {
+    issuer: getEnvVar('JWT_ISSUER'),
+    audience: optionalEnvVar('JWT_AUDIENCE'),
+  });
+}
+
+/**
+ * Deployments pass unset parameters as empty strings
+ */
+function optionalEnvVar(key: string): string | undefined {
+  const value = process.env[key];
+  return value !== undefined && value !== '' ? value : undefined;
+}
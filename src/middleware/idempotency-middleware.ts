@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { z } from 'zod';
+import { ConflictError, IdempotencyKeyReuseError } from '../models/errors';
+import {
+  DynamoDBIdempotencyStore,
+  IdempotencyStore,
+  InMemoryIdempotencyStore,
+} from '../utils/idempotency-store';
+import { loadRepositoryBackend } from '../utils/repository-backend';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { Middleware, getHeader } from './lambda-middleware';
+import { findPrincipal } from './auth-middleware';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const idempotencyKeySchema = z.string().trim().min(1).max(255);
+
+export interface IdempotencyOptions {
+  store?: IdempotencyStore;
+  ttlSeconds?: number; // How long a completed response is replayed
+  lockTimeoutSeconds?: number; // How long an in-flight request holds the key
+}
+
+// Key owner for requests that did not go through authMiddleware
+const ANONYMOUS_CALLER = 'anonymous';
+
+/**
+ * Idempotency middleware factory: replays the stored response for a repeated
+ * Idempotency-Key and rejects reuse of a key with a different request; must run after
+ * authMiddleware so keys are scoped to the caller
+ */
+export function idempotencyMiddleware(options: IdempotencyOptions = {}): Middleware {
+  const { ttlSeconds = 24 * 60 * 60, lockTimeoutSeconds = 60 } = options;
+  let store = options.store;
+
+  return async (event, context, next) => {
+    const header = getHeader(event, IDEMPOTENCY_KEY_HEADER);
+
+    if (header === undefined) {
+      return next();
+    }
+
+    const logger = createLogger('Idempotency', { requestId: context.awsRequestId });
+    store ??=
+      loadRepositoryBackend() === 'dynamodb'
+        ? new DynamoDBIdempotencyStore(getEnvVar('IDEMPOTENCY_TABLE_NAME', 'Idempotency'))
+        : new InMemoryIdempotencyStore();
+
+    // Keys are scoped to the caller and route, so clients cannot collide with each other and
+    // the same key can be used on different endpoints
+    const caller = findPrincipal(event)?.subject ?? ANONYMOUS_CALLER;
+    const key = `${caller}#${event.httpMethod} ${event.resource}#${idempotencyKeySchema.parse(header)}`;
+    const fingerprint = fingerprintRequest(event);
+
+    const acquired = await store.acquire({
+      idempotencyKey: key,
+      fingerprint,
+      status: 'IN_PROGRESS',
+      expiresAt: nowInSeconds() + lockTimeoutSeconds,
+    });
+
+    if (!acquired) {
+      const existing = await store.get(key);
+
+      if (existing === null) {
+        throw new ConflictError('Request with this idempotency key is being retried, try again');
+      }
+      if (existing.fingerprint !== fingerprint) {
+        throw new IdempotencyKeyReuseError(header);
+      }
+      if (existing.status === 'IN_PROGRESS' || existing.response === undefined) {
+        throw new ConflictError('Request with this idempotency key is still in progress');
+      }
+
+      logger.info('Replaying stored response for idempotency key', { key });
+      return replay(existing.response);
+    }
+
+    let result: APIGatewayProxyResult;
+
+    try {
+      result = await next();
+    } catch (error) {
+      await store.release(key);
+      throw error;
+    }
+
+    // Server errors are not stored so the client can retry them
+    if (result.statusCode >= 500) {
+      await store.release(key);
+    } else {
+      await store.complete(key, result, nowInSeconds() + ttlSeconds);
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Hash of everything that makes two requests "the same request"
+ */
+function fingerprintRequest(event: APIGatewayProxyEvent): string {
+  return createHash('sha256')
+    .update(`${event.httpMethod}\n${event.path}\n${event.body ?? ''}`)
+    .digest('hex');
+}
+
+function replay(response: APIGatewayProxyResult): APIGatewayProxyResult {
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      [IDEMPOTENT_REPLAY_HEADER]: 'true',
+    },
+  };
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -1,7 +1,14 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { ZodSchema, ZodError } from 'zod';
-import { ErrorCode } from '../models/types';
-import { createLogger, errorResponse, successResponse } from '../utils/helpers';
+import { ErrorCode, ProblemDetails } from '../models/types';
+import { ConcurrentModificationError, DomainError, ValidationError } from '../models/errors';
+import { createLogger, getEnvVar, successResponse } from '../utils/helpers';
+import { setInvocationDeadline } from '../utils/retry-policy';
+import {
+  CORRELATION_ID_HEADER,
+  resolveCorrelationId,
+  runWithCorrelation,
+} from '../utils/correlation-context';
 
 /**
  * Lambda handler wrapper with middleware support
@@ -37,9 +44,9 @@ export function composeMiddleware(...middlewares: Middleware[]): Middleware {
 }
 
 /**
- * Error handling middleware
+ * Error handling middleware rendering every error as an RFC 7807 problem document
  */
-export const errorHandlerMiddleware: Middleware = async (_event, context, next) => {
+export const errorHandlerMiddleware: Middleware = async (event, context, next) => {
   const logger = createLogger('ErrorHandler', { requestId: context.awsRequestId });
 
   try {
@@ -47,52 +54,97 @@ export const errorHandlerMiddleware: Middleware = async (_event, context, next)
   } catch (error) {
     logger.error('Unhandled error in Lambda function', error);
 
-    if (error instanceof ZodError) {
-      return {
-        statusCode: 400,
-        headers: corsHeaders(),
-        body: JSON.stringify(
-          errorResponse(
-            {
-              message: 'Validation error',
-              details: error.errors,
-            },
-            ErrorCode.VALIDATION_ERROR
-          )
-        ),
-      };
-    }
-
-    if (error instanceof Error) {
-      return {
-        statusCode: 500,
-        headers: corsHeaders(),
-        body: JSON.stringify(
-          errorResponse(
-            {
-              message: error.message,
-            },
-            ErrorCode.INTERNAL_ERROR
-          )
-        ),
-      };
-    }
+    const problem = toProblemDetails(error, isProductionStage());
 
-    return {
-      statusCode: 500,
-      headers: corsHeaders(),
-      body: JSON.stringify(
-        errorResponse(
-          {
-            message: 'Internal server error',
-          },
-          ErrorCode.INTERNAL_ERROR
-        )
-      ),
-    };
+    return problemResponse(
+      {
+        ...problem,
+        instance: event.path,
+        requestId: context.awsRequestId,
+      },
+      error instanceof DomainError ? error.headers : undefined
+    );
   }
 };
 
+const PROBLEM_TITLES: Readonly<Record<ErrorCode, string>> = {
+  [ErrorCode.VALIDATION_ERROR]: 'Validation failed',
+  [ErrorCode.NOT_FOUND]: 'Resource not found',
+  [ErrorCode.UNAUTHORIZED]: 'Authentication required',
+  [ErrorCode.FORBIDDEN]: 'Access denied',
+  [ErrorCode.CONFLICT]: 'Conflict with current state',
+  [ErrorCode.PRECONDITION_FAILED]: 'Precondition failed',
+  [ErrorCode.IDEMPOTENCY_KEY_REUSED]: 'Idempotency key reused',
+  [ErrorCode.RATE_LIMITED]: 'Too many requests',
+  [ErrorCode.INTERNAL_ERROR]: 'Internal server error',
+  [ErrorCode.EXTERNAL_SERVICE_ERROR]: 'Upstream service failure',
+  [ErrorCode.SERVICE_UNAVAILABLE]: 'Service unavailable',
+  [ErrorCode.UNSUPPORTED_MEDIA_TYPE]: 'Unsupported media type',
+};
+
+const INTERNAL_ERROR_DETAIL = 'An unexpected error occurred';
+
+/**
+ * Map an error to a problem document; messages of server-side failures stay out of
+ * production responses
+ */
+export function toProblemDetails(error: unknown, hideInternalDetails: boolean): ProblemDetails {
+  if (error instanceof ZodError) {
+    return problem(400, ErrorCode.VALIDATION_ERROR, 'Request validation failed', {
+      errors: error.errors,
+    });
+  }
+
+  if (error instanceof DomainError) {
+    const internal = error.statusCode >= 500;
+
+    return problem(
+      error.statusCode,
+      error.code,
+      internal && hideInternalDetails ? PROBLEM_TITLES[error.code] : error.message,
+      internal && hideInternalDetails ? undefined : error.details && { details: error.details }
+    );
+  }
+
+  const detail =
+    !hideInternalDetails && error instanceof Error ? error.message : INTERNAL_ERROR_DETAIL;
+  return problem(500, ErrorCode.INTERNAL_ERROR, detail);
+}
+
+/**
+ * Build an API Gateway response carrying a problem document
+ */
+export function problemResponse(
+  problem: ProblemDetails,
+  headers?: Record<string, string>
+): APIGatewayProxyResult {
+  return {
+    statusCode: problem.status,
+    headers: { ...corsHeaders(), ...headers, 'Content-Type': 'application/problem+json' },
+    body: JSON.stringify(problem),
+  };
+}
+
+function problem(
+  status: number,
+  code: ErrorCode,
+  detail: string,
+  extensions?: Record<string, unknown>
+): ProblemDetails {
+  return {
+    type: `/problems/${code.toLowerCase().replace(/_/g, '-')}`,
+    title: PROBLEM_TITLES[code],
+    status,
+    detail,
+    code,
+    ...extensions,
+  };
+}
+
+function isProductionStage(): boolean {
+  return getEnvVar('STAGE', 'dev') === 'prod';
+}
+
 /**
  * Logging middleware
  */
@@ -144,9 +196,7 @@ export function validationMiddleware<T>(schema: ZodSchema<T>): Middleware {
     });
 
     try {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      const body = event.body !== null && event.body !== undefined ? JSON.parse(event.body) : {};
-      const validated = schema.parse(body);
+      const validated = schema.parse(parseJsonBody(event));
 
       // Attach validated data to event
       (event as unknown as { validatedBody: T }).validatedBody = validated;
@@ -167,14 +217,17 @@ function corsHeaders(): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Headers':
-      'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-    'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+      'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,If-Match,Idempotency-Key,X-Correlation-Id',
+    'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
+    'Access-Control-Expose-Headers':
+      'ETag,Idempotent-Replayed,Retry-After,X-RateLimit-Limit,X-RateLimit-Remaining,X-RateLimit-Reset,X-Correlation-Id',
     'Content-Type': 'application/json',
   };
 }
 
 /**
- * Create handler with middleware
+ * Create handler with middleware; the request runs in a correlation context taken from the
+ * X-Correlation-Id header, or a new one, which is echoed on every response
  */
 export function withMiddleware(
   handler: LambdaHandler,
@@ -183,7 +236,17 @@ export function withMiddleware(
   const composed = composeMiddleware(...middlewares);
 
   return async (event, context) => {
-    return composed(event, context, () => handler(event, context));
+    setInvocationDeadline(context);
+    const correlationId = resolveCorrelationId(getHeader(event, CORRELATION_ID_HEADER));
+
+    return runWithCorrelation(correlationId, async () => {
+      const result = await composed(event, context, () => handler(event, context));
+
+      return {
+        ...result,
+        headers: { ...result.headers, [CORRELATION_ID_HEADER]: correlationId },
+      };
+    });
   };
 }
 
@@ -193,11 +256,12 @@ export function withMiddleware(
 export function createResponse<T>(
   statusCode: number,
   data: T,
-  requestId?: string
+  requestId?: string,
+  headers?: Record<string, string>
 ): APIGatewayProxyResult {
   return {
     statusCode,
-    headers: corsHeaders(),
+    headers: { ...corsHeaders(), ...headers },
     body: JSON.stringify(
       successResponse(
         data,
@@ -206,3 +270,77 @@ export function createResponse<T>(
     ),
   };
 }
+
+/**
+ * Parse the request body as JSON, reporting malformed bodies as validation errors
+ */
+export function parseJsonBody(event: APIGatewayProxyEvent): unknown {
+  try {
+    return JSON.parse(event.body ?? '{}') as unknown;
+  } catch {
+    throw new ValidationError('Request body is not valid JSON');
+  }
+}
+
+/**
+ * Case-insensitive request header lookup
+ */
+export function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+  const target = name.toLowerCase();
+  const entry = Object.entries(event.headers ?? {}).find(([key]) => key.toLowerCase() === target);
+  return entry?.[1] ?? undefined;
+}
+
+/**
+ * Strong ETag for a versioned entity
+ */
+export function versionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Versions named by the strong tags of the If-Match header: undefined when absent or `*`.
+ * If-Match uses strong comparison (RFC 9110 section 13.1.1), so weak and malformed tags match
+ * nothing, and an empty list means no version can match
+ */
+export function parseIfMatch(event: APIGatewayProxyEvent): number[] | undefined {
+  const ifMatch = getHeader(event, 'If-Match')?.trim();
+
+  if (ifMatch === undefined || ifMatch === '' || ifMatch === '*') {
+    return undefined;
+  }
+
+  return ifMatch.split(',').flatMap((tag) => {
+    const match = /^"(\d+)"$/.exec(tag.trim());
+    return match?.[1] !== undefined ? [Number(match[1])] : [];
+  });
+}
+
+/**
+ * Version a conditional write on `entityId` must expect to honour If-Match: undefined when
+ * unconditional. A single tag is left to the write's own check; for a list the stored version
+ * is loaded and must be one of the tags. Throws ConcurrentModificationError (412) on no match
+ */
+export async function resolveIfMatch(
+  event: APIGatewayProxyEvent,
+  entityId: string,
+  loadVersion: () => Promise<number | undefined>
+): Promise<number | undefined> {
+  const versions = parseIfMatch(event);
+
+  if (versions === undefined) {
+    return undefined;
+  }
+
+  if (versions.length === 1) {
+    return versions[0];
+  }
+
+  const currentVersion = versions.length > 0 ? await loadVersion() : undefined;
+
+  if (currentVersion === undefined || !versions.includes(currentVersion)) {
+    throw new ConcurrentModificationError(entityId, undefined, currentVersion);
+  }
+
+  return currentVersion;
+}
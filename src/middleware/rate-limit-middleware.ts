@@ -0,0 +1,110 @@
+import { createHash } from 'crypto';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { RateLimitExceededError } from '../models/errors';
+import {
+  DynamoDBRateLimitStore,
+  InMemoryRateLimitStore,
+  RateLimit,
+  RateLimitDecision,
+  RateLimitStore,
+} from '../utils/rate-limit-store';
+import { loadRepositoryBackend } from '../utils/repository-backend';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { classifyError } from '../utils/retry-policy';
+import { findPrincipal } from './auth-middleware';
+import { Middleware } from './lambda-middleware';
+
+export const DEFAULT_CLIENT_TIER = 'default';
+
+export interface RateLimitOptions {
+  route: string; // Buckets are per route, so one busy endpoint does not starve another
+  limits: { [DEFAULT_CLIENT_TIER]: RateLimit } & Record<string, RateLimit>; // By client tier
+  store?: RateLimitStore;
+}
+
+/**
+ * Token bucket rate limit middleware factory, keyed by API key, principal or source IP;
+ * must run after authMiddleware to see the principal
+ */
+export function rateLimitMiddleware(options: RateLimitOptions): Middleware {
+  const { route, limits } = options;
+  let store = options.store;
+
+  return async (event, context, next) => {
+    const logger = createLogger('RateLimit', { requestId: context.awsRequestId, route });
+    store ??=
+      loadRepositoryBackend() === 'dynamodb'
+        ? new DynamoDBRateLimitStore(getEnvVar('RATE_LIMIT_TABLE_NAME', 'RateLimits'))
+        : new InMemoryRateLimitStore();
+
+    const tier = resolveClientTier(event);
+    const limit = limits[tier] ?? limits[DEFAULT_CLIENT_TIER];
+    const clientKey = resolveClientKey(event);
+
+    let decision: RateLimitDecision;
+
+    try {
+      decision = await store.consume(`${route}#${clientKey}`, limit);
+    } catch (error) {
+      // Losing the limiter to an outage must not take the API down with it; anything else,
+      // such as a misconfigured table, is a bug that must not silently disable limiting
+      if (classifyError(error) === 'fatal') {
+        throw error;
+      }
+
+      logger.error('Rate limit store unavailable, allowing request', error);
+      return next();
+    }
+
+    const headers = rateLimitHeaders(decision);
+
+    if (!decision.allowed) {
+      logger.warn('Rate limit exceeded', { clientKey, tier });
+      throw new RateLimitExceededError(decision.retryAfterSeconds, {
+        ...headers,
+        'Retry-After': String(decision.retryAfterSeconds),
+      });
+    }
+
+    const result = await next();
+
+    return {
+      ...result,
+      headers: {
+        ...result.headers,
+        ...headers,
+      },
+    };
+  };
+}
+
+function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(decision.resetSeconds),
+  };
+}
+
+function resolveClientTier(event: APIGatewayProxyEvent): string {
+  const tier = findPrincipal(event)?.claims.tier;
+  return typeof tier === 'string' ? tier : DEFAULT_CLIENT_TIER;
+}
+
+function resolveClientKey(event: APIGatewayProxyEvent): string {
+  // Only keys API Gateway has validated count; a raw header could be rotated to dodge limits
+  const apiKey = event.requestContext?.identity?.apiKey;
+
+  if (apiKey !== undefined && apiKey !== null && apiKey !== '') {
+    // Keys are hashed so raw API keys never land in the table
+    return `apikey:${createHash('sha256').update(apiKey).digest('hex')}`;
+  }
+
+  const principal = findPrincipal(event);
+
+  if (principal) {
+    return `principal:${principal.subject}`;
+  }
+
+  return `ip:${event.requestContext?.identity?.sourceIp ?? 'unknown'}`;
+}
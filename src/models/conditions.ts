@@ -0,0 +1,255 @@
+/**
+ * Storage-agnostic conditions over an entity's attributes, built with type-checked
+ * attribute paths and values
+ */
+
+// Declared keys of T, ignoring any index signature
+export type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+} &
+  string;
+
+// Attribute names of T, plus one level of dotted paths into object-valued attributes
+export type AttributePath<T> = {
+  [K in KnownKeys<T>]: NonNullable<T[K]> extends readonly unknown[]
+    ? K
+    : NonNullable<T[K]> extends object
+      ?
+          | K
+          | `${K}.${KnownKeys<NonNullable<T[K]>> | (string extends keyof NonNullable<T[K]> ? string : never)}`
+      : K;
+}[KnownKeys<T>];
+
+// Type of the value stored at a path
+export type PathValue<T, P extends string> = P extends keyof T
+  ? NonNullable<T[P]>
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? Rest extends keyof NonNullable<T[K]>
+        ? NonNullable<NonNullable<T[K]>[Rest]>
+        : never
+      : never
+    : never;
+
+export type ComparisonOperator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+export interface CompareCondition<T> {
+  kind: 'compare';
+  path: AttributePath<T>;
+  operator: ComparisonOperator;
+  value: unknown;
+}
+
+export interface BetweenCondition<T> {
+  kind: 'between';
+  path: AttributePath<T>;
+  from: unknown;
+  to: unknown;
+}
+
+export interface BeginsWithCondition<T> {
+  kind: 'beginsWith';
+  path: AttributePath<T>;
+  prefix: string;
+}
+
+export type Condition<T> =
+  | CompareCondition<T>
+  | BetweenCondition<T>
+  | BeginsWithCondition<T>
+  | { kind: 'contains'; path: AttributePath<T>; value: unknown }
+  | { kind: 'in'; path: AttributePath<T>; values: unknown[] }
+  | { kind: 'exists'; path: AttributePath<T>; exists: boolean }
+  | { kind: 'and' | 'or'; conditions: Condition<T>[] }
+  | { kind: 'not'; condition: Condition<T> };
+
+// Conditions DynamoDB accepts on a sort key (any comparison but <>)
+export type SortKeyCondition<T> =
+  | CompareCondition<T>
+  | BetweenCondition<T>
+  | BeginsWithCondition<T>;
+
+/**
+ * Key condition for an index query: equality on the partition key, optionally narrowed
+ * on the sort key
+ */
+export interface KeyCondition<T> {
+  partitionKey: AttributePath<T>;
+  value: unknown;
+  sortKey?: SortKeyCondition<T>;
+}
+
+// Element type for `contains` on list attributes, the value itself otherwise
+type ContainedValue<V> = V extends readonly (infer E)[] ? E : V extends string ? string : never;
+
+export interface ConditionBuilder<T> {
+  eq<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  ne<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  lt<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  lte<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  gt<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  gte<P extends AttributePath<T>>(path: P, value: PathValue<T, P>): CompareCondition<T>;
+  between<P extends AttributePath<T>>(
+    path: P,
+    from: PathValue<T, P>,
+    to: PathValue<T, P>
+  ): BetweenCondition<T>;
+  beginsWith(path: AttributePath<T>, prefix: string): BeginsWithCondition<T>;
+  contains<P extends AttributePath<T>>(
+    path: P,
+    value: ContainedValue<PathValue<T, P>>
+  ): Condition<T>;
+  in<P extends AttributePath<T>>(path: P, values: PathValue<T, P>[]): Condition<T>;
+  exists(path: AttributePath<T>): Condition<T>;
+  notExists(path: AttributePath<T>): Condition<T>;
+  and(...conditions: Condition<T>[]): Condition<T>;
+  or(...conditions: Condition<T>[]): Condition<T>;
+  not(condition: Condition<T>): Condition<T>;
+  key<P extends AttributePath<T>>(
+    partitionKey: P,
+    value: PathValue<T, P>,
+    sortKey?: SortKeyCondition<T>
+  ): KeyCondition<T>;
+}
+
+/**
+ * Condition builder for entity type T
+ */
+export function conditions<T>(): ConditionBuilder<T> {
+  const compare =
+    (operator: ComparisonOperator) =>
+    (path: AttributePath<T>, value: unknown): CompareCondition<T> => ({
+      kind: 'compare',
+      path,
+      operator,
+      value,
+    });
+
+  return {
+    eq: compare('='),
+    ne: compare('<>'),
+    lt: compare('<'),
+    lte: compare('<='),
+    gt: compare('>'),
+    gte: compare('>='),
+    between: (path, from, to) => ({ kind: 'between', path, from, to }),
+    beginsWith: (path, prefix) => ({ kind: 'beginsWith', path, prefix }),
+    contains: (path, value) => ({ kind: 'contains', path, value }),
+    in: (path, values) => ({ kind: 'in', path, values }),
+    exists: (path) => ({ kind: 'exists', path, exists: true }),
+    notExists: (path) => ({ kind: 'exists', path, exists: false }),
+    and: (...all) => ({ kind: 'and', conditions: all }),
+    or: (...all) => ({ kind: 'or', conditions: all }),
+    not: (condition) => ({ kind: 'not', condition }),
+    key: (partitionKey, value, sortKey) => ({ partitionKey, value, sortKey }),
+  };
+}
+
+/**
+ * AND together the conditions that are present
+ */
+export function allOf<T>(...all: Array<Condition<T> | undefined>): Condition<T> | undefined {
+  const present = all.filter((condition): condition is Condition<T> => condition !== undefined);
+
+  if (present.length <= 1) {
+    return present[0];
+  }
+
+  return { kind: 'and', conditions: present };
+}
+
+/**
+ * Value stored at a dotted attribute path, undefined when any segment is missing
+ */
+export function attributeValue(entity: object, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, segment) =>
+        typeof value === 'object' && value !== null
+          ? (value as Record<string, unknown>)[segment]
+          : undefined,
+      entity
+    );
+}
+
+/**
+ * Evaluate a condition against an entity the way DynamoDB does: comparisons against
+ * a missing attribute, or between values of different types, are false
+ */
+export function evaluateCondition<T>(condition: Condition<T>, entity: object): boolean {
+  switch (condition.kind) {
+    case 'compare': {
+      const order = compareValues(attributeValue(entity, condition.path), condition.value);
+      return order !== undefined && satisfies(condition.operator, order);
+    }
+    case 'between': {
+      const value = attributeValue(entity, condition.path);
+      const fromOrder = compareValues(value, condition.from);
+      const toOrder = compareValues(value, condition.to);
+      return fromOrder !== undefined && toOrder !== undefined && fromOrder >= 0 && toOrder <= 0;
+    }
+    case 'beginsWith': {
+      const value = attributeValue(entity, condition.path);
+      return typeof value === 'string' && value.startsWith(condition.prefix);
+    }
+    case 'contains': {
+      const value = attributeValue(entity, condition.path);
+
+      if (typeof value === 'string') {
+        return typeof condition.value === 'string' && value.includes(condition.value);
+      }
+
+      return (
+        (Array.isArray(value) || value instanceof Set) &&
+        [...value].some((element) => compareValues(element, condition.value) === 0)
+      );
+    }
+    case 'in': {
+      const value = attributeValue(entity, condition.path);
+      return condition.values.some((candidate) => compareValues(value, candidate) === 0);
+    }
+    case 'exists':
+      return (attributeValue(entity, condition.path) !== undefined) === condition.exists;
+    case 'and':
+      return condition.conditions.every((operand) => evaluateCondition(operand, entity));
+    case 'or':
+      return condition.conditions.some((operand) => evaluateCondition(operand, entity));
+    case 'not':
+      return !evaluateCondition(condition.condition, entity);
+  }
+}
+
+function satisfies(operator: ComparisonOperator, order: number): boolean {
+  switch (operator) {
+    case '=':
+      return order === 0;
+    case '<>':
+      return order !== 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+  }
+}
+
+/**
+ * Order of two attribute values: numbers numerically, strings by code unit. Other values
+ * only compare for equality, NaN when unequal so that only <> holds. Undefined when the
+ * values cannot be compared at all
+ */
+export function compareValues(left: unknown, right: unknown): number | undefined {
+  if (left === undefined || right === undefined || typeof left !== typeof right) {
+    return undefined;
+  }
+
+  if (typeof left === 'number' || typeof left === 'string') {
+    return left < (right as typeof left) ? -1 : left > (right as typeof left) ? 1 : 0;
+  }
+
+  return JSON.stringify(left) === JSON.stringify(right) ? 0 : NaN;
+}
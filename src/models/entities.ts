@@ -1,4 +1,7 @@
 import { OrderId, CustomerId } from './types';
+import { ValidationError } from './errors';
+import { CURRENCY_MINOR_UNITS, Money, money, multiplyMoney, sumMoney } from './money';
+import type { AttributePath, Condition, KeyCondition } from './conditions';
 
 /**
  * Domain entities with strong typing
@@ -12,6 +15,26 @@ export enum OrderStatus {
   CANCELLED = 'CANCELLED',
 }
 
+export enum ProductStatus {
+  ACTIVE = 'ACTIVE',
+  DISCONTINUED = 'DISCONTINUED', // Kept for existing orders, but can no longer be ordered
+}
+
+/**
+ * Catalog product; the authoritative name and price of everything that can be ordered
+ */
+export interface Product {
+  productId: string;
+  name: string;
+  price: Money; // Unit price
+  weight?: number; // Grams per unit
+  status: ProductStatus;
+  createdAt: string;
+  updatedAt: string;
+  version: number; // For optimistic locking, and recorded on the order items priced from it
+  [key: string]: unknown; // Index signature for DynamoDB compatibility
+}
+
 export interface Address {
   street: string;
   city: string;
@@ -20,6 +43,29 @@ export interface Address {
   country: string;
 }
 
+// Price of one line item after its line discount
+export interface PricedLine {
+  productId: string;
+  quantity: number;
+  unitPrice: Money;
+  discount: Money;
+  total: Money;
+}
+
+/**
+ * How an order's total was reached: subtotal less line discounts and coupon, plus shipping and tax
+ */
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  subtotal: Money; // List price of all lines, before discounts
+  lineDiscounts: Money;
+  coupon?: { code: string; discount: Money }; // Only when the coupon applied
+  shipping: Money;
+  taxRate: number; // Fraction, e.g. 0.0625 for 6.25%
+  tax: Money;
+  total: Money;
+}
+
 export interface Order {
   orderId: OrderId;
   customerId: CustomerId;
@@ -28,10 +74,14 @@ export interface Order {
     productId: string;
     name: string;
     quantity: number;
-    price: number;
+    price: Money; // Unit price
+    weight?: number; // Grams per unit
+    catalogVersion?: number; // Version of the catalog product the item was priced from
   }>;
   status: OrderStatus;
-  totalAmount: number;
+  totalAmount: Money; // Amount charged, the pricing total; always in the currency of the items
+  pricing?: PriceBreakdown; // Absent on orders created before pricing was introduced
+  couponCode?: string;
   shippingAddress: Address;
   metadata?: Record<string, string>;
   createdAt: string;
@@ -43,16 +93,47 @@ export interface Order {
 // Generic repository interface with advanced types
 export interface Repository<T, ID> {
   findById(id: ID): Promise<T | null>;
-  findAll(params?: QueryParams): Promise<PaginatedResult<T>>;
+  batchGet(ids: ID[]): Promise<T[]>; // In the order requested, once each; missing IDs are skipped
+  findAll(params?: QueryParams<T>): Promise<PaginatedResult<T>>;
   save(entity: T): Promise<T>;
-  update(id: ID, updates: Partial<T>): Promise<T>;
-  delete(id: ID): Promise<void>;
+  update(id: ID, updates: Partial<T>, options?: WriteOptions<T>): Promise<T>;
+  delete(id: ID, options?: WriteOptions<T>): Promise<void>;
+}
+
+// Repository that can also query secondary indexes
+export interface IndexedRepository<T, ID> extends Repository<T, ID> {
+  queryByIndex(
+    indexName: string,
+    keyCondition: KeyCondition<T>,
+    params?: QueryParams<T>
+  ): Promise<PaginatedResult<T>>;
+}
+
+// Key attributes of a secondary index; items missing the partition key are not indexed
+export interface IndexDefinition<T> {
+  partitionKey: AttributePath<T>;
+  sortKey?: AttributePath<T>;
 }
 
-export interface QueryParams {
+export interface WriteOptions<T = unknown> {
+  expectedVersion?: number; // Write only succeeds while the stored version still matches
+  condition?: Condition<T>; // Further condition the stored entity must meet
+}
+
+// Single-entity write, described as data so it can join a transaction
+export type WriteOperation<T, ID> =
+  | { type: 'put'; entity: T }
+  | { type: 'update'; id: ID; updates: Partial<T>; options?: WriteOptions<T> }
+  | { type: 'delete'; id: ID; options?: WriteOptions<T> }
+  | { type: 'check'; id: ID; options: WriteOptions<T> }; // Condition only, nothing is written
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface QueryParams<T = unknown> {
   limit?: number;
   nextToken?: string;
-  filters?: Record<string, unknown>;
+  filter?: Condition<T>; // Applied after the read, so a page may hold fewer than `limit` items
+  sortOrder?: SortOrder; // Sort key order, index queries only
 }
 
 export interface PaginatedResult<T> {
@@ -66,6 +147,55 @@ export interface Service<TInput, TOutput> {
   execute(input: TInput): Promise<TOutput>;
 }
 
+/**
+ * Sum of the line items; every item must be priced in the same currency
+ */
+export function calculateOrderTotal(items: Order['items']): Money {
+  const [first] = items;
+
+  if (!first) {
+    throw new ValidationError('Order must have at least one item');
+  }
+
+  return sumMoney(
+    items.map((item) => multiplyMoney(item.price, item.quantity)),
+    first.price.currency
+  );
+}
+
+// Orders stored before amounts carried a currency were all priced in US dollars
+const LEGACY_CURRENCY = 'USD';
+
+/**
+ * Read an order as stored; orders written before Money hold item prices and the total as plain
+ * numbers of dollars, which are converted to minor units
+ */
+export function fromStoredOrder(stored: Order): Order {
+  const legacy = stored as unknown as {
+    items: Array<{ price: Money | number }>;
+    totalAmount: Money | number;
+  };
+
+  if (
+    typeof legacy.totalAmount !== 'number' &&
+    legacy.items.every((item) => typeof item.price !== 'number')
+  ) {
+    return stored;
+  }
+
+  return {
+    ...stored,
+    items: stored.items.map((item) => ({ ...item, price: fromLegacyAmount(item.price) })),
+    totalAmount: fromLegacyAmount(stored.totalAmount),
+  };
+}
+
+function fromLegacyAmount(value: Money | number): Money {
+  return typeof value === 'number'
+    ? money(Math.round(value * 10 ** (CURRENCY_MINOR_UNITS[LEGACY_CURRENCY] ?? 2)), LEGACY_CURRENCY)
+    : value;
+}
+
 // Builder pattern for Order
 export class OrderBuilder {
   private order: Partial<Order> = {
@@ -89,7 +219,19 @@ export class OrderBuilder {
 
   withItems(items: Order['items']): this {
     this.order.items = items;
-    this.order.totalAmount = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    return this;
+  }
+
+  // Without a breakdown the total is the plain sum of the line items
+  withPricing(pricing: PriceBreakdown): this {
+    this.order.pricing = pricing;
+    return this;
+  }
+
+  withCouponCode(couponCode?: string): this {
+    if (couponCode !== undefined) {
+      this.order.couponCode = couponCode;
+    }
     return this;
   }
 
@@ -118,26 +260,27 @@ export class OrderBuilder {
       this.order.orderId === undefined ||
       this.order.orderId === ''
     )
-      throw new Error('Order ID is required');
+      throw new ValidationError('Order ID is required');
     if (
       this.order.customerId === null ||
       this.order.customerId === undefined ||
       this.order.customerId === ''
     )
-      throw new Error('Customer ID is required');
+      throw new ValidationError('Customer ID is required');
     if (
       this.order.customerEmail === null ||
       this.order.customerEmail === undefined ||
       this.order.customerEmail === ''
     )
-      throw new Error('Customer email is required');
+      throw new ValidationError('Customer email is required');
     if (!this.order.items || this.order.items.length === 0) {
-      throw new Error('Order must have at least one item');
+      throw new ValidationError('Order must have at least one item');
     }
-    if (!this.order.shippingAddress) throw new Error('Shipping address is required');
+    if (!this.order.shippingAddress) throw new ValidationError('Shipping address is required');
 
     return {
       ...this.order,
+      totalAmount: this.order.pricing?.total ?? calculateOrderTotal(this.order.items),
       status: this.order.status ?? OrderStatus.PENDING,
       createdAt: now,
       updatedAt: now,
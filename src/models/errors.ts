@@ -0,0 +1,182 @@
+import { ErrorCode } from './types';
+import type { OrderStatus } from './entities';
+
+/**
+ * Domain errors carrying the HTTP status and API error code they map to
+ */
+export abstract class DomainError extends Error {
+  abstract readonly statusCode: number;
+  abstract readonly code: ErrorCode;
+  readonly headers?: Record<string, string>; // Response headers the error requires
+
+  constructor(
+    message: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when a request is well-formed but its content is not acceptable
+ */
+export class ValidationError extends DomainError {
+  readonly statusCode = 400;
+  readonly code = ErrorCode.VALIDATION_ERROR;
+}
+
+/**
+ * Raised when the caller could not be authenticated
+ */
+export class UnauthorizedError extends DomainError {
+  readonly statusCode = 401;
+  readonly code = ErrorCode.UNAUTHORIZED;
+}
+
+/**
+ * Raised when an authenticated caller is not allowed to perform an action
+ */
+export class ForbiddenError extends DomainError {
+  readonly statusCode = 403;
+  readonly code = ErrorCode.FORBIDDEN;
+}
+
+/**
+ * Raised when a requested resource does not exist
+ */
+export class NotFoundError extends DomainError {
+  readonly statusCode = 404;
+  readonly code = ErrorCode.NOT_FOUND;
+
+  constructor(
+    readonly resource: string,
+    readonly resourceId: string
+  ) {
+    super(`${resource} not found: ${resourceId}`, { resource, resourceId });
+  }
+}
+
+/**
+ * Raised when a request conflicts with the current state of a resource
+ */
+export class ConflictError extends DomainError {
+  readonly statusCode = 409;
+  readonly code = ErrorCode.CONFLICT;
+}
+
+/**
+ * Raised when an order is asked to move to a status its lifecycle does not allow
+ */
+export class InvalidStatusTransitionError extends DomainError {
+  readonly statusCode = 409;
+  readonly code = ErrorCode.CONFLICT;
+
+  constructor(
+    readonly fromStatus: OrderStatus,
+    readonly toStatus: OrderStatus,
+    reason?: string
+  ) {
+    super(reason ?? `Order cannot move from ${fromStatus} to ${toStatus}`, {
+      fromStatus,
+      toStatus,
+    });
+  }
+}
+
+/**
+ * Raised when a write targets a version of an entity that is no longer current
+ */
+export class ConcurrentModificationError extends DomainError {
+  readonly statusCode = 412;
+  readonly code = ErrorCode.PRECONDITION_FAILED;
+
+  constructor(
+    readonly entityId: string,
+    readonly expectedVersion?: number,
+    readonly currentVersion?: number
+  ) {
+    super(`Entity ${entityId} was modified concurrently`, {
+      entityId,
+      expectedVersion,
+      currentVersion,
+    });
+  }
+}
+
+/**
+ * Raised when a request body comes in a media type the endpoint does not accept
+ */
+export class UnsupportedMediaTypeError extends DomainError {
+  readonly statusCode = 415;
+  readonly code = ErrorCode.UNSUPPORTED_MEDIA_TYPE;
+
+  constructor(
+    readonly mediaType: string | undefined,
+    readonly supported: string[],
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(`Unsupported media type: ${mediaType ?? 'none'}`, { mediaType, supported });
+  }
+}
+
+/**
+ * Raised when an idempotency key is replayed with a different request
+ */
+export class IdempotencyKeyReuseError extends DomainError {
+  readonly statusCode = 422;
+  readonly code = ErrorCode.IDEMPOTENCY_KEY_REUSED;
+
+  constructor(readonly idempotencyKey: string) {
+    super('Idempotency key was already used with a different request', { idempotencyKey });
+  }
+}
+
+/**
+ * Raised when a client has used up its request allowance
+ */
+export class RateLimitExceededError extends DomainError {
+  readonly statusCode = 429;
+  readonly code = ErrorCode.RATE_LIMITED;
+
+  constructor(
+    readonly retryAfterSeconds: number,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(`Rate limit exceeded, retry after ${retryAfterSeconds} seconds`, {
+      retryAfterSeconds,
+    });
+  }
+}
+
+/**
+ * Raised when a downstream dependency fails; the cause is logged, never returned to clients
+ */
+export class ExternalServiceFailureError extends DomainError {
+  readonly statusCode = 502;
+  readonly code = ErrorCode.EXTERNAL_SERVICE_ERROR;
+
+  constructor(
+    readonly service: string,
+    readonly cause?: unknown
+  ) {
+    super(`External service ${service} failed`, { service });
+  }
+}
+
+/**
+ * Raised without calling a dependency while its circuit breaker is open
+ */
+export class CircuitOpenError extends DomainError {
+  readonly statusCode = 503;
+  readonly code = ErrorCode.SERVICE_UNAVAILABLE;
+  readonly headers: Record<string, string>;
+
+  constructor(
+    readonly service: string,
+    readonly retryAfterSeconds: number
+  ) {
+    super(`External service ${service} is unavailable`, { service });
+    this.headers = { 'Retry-After': String(retryAfterSeconds) };
+  }
+}
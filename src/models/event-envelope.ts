@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { ZodIssue } from 'zod';
+import { getCorrelationId } from '../utils/correlation-context';
+import { DomainEvent, OrderId } from './types';
+import { cloudEventSchema, eventSchema } from './schemas';
+
+/**
+ * Event envelope carrying delivery metadata alongside every domain event,
+ * with a CloudEvents 1.0 JSON mapping for the wire
+ */
+
+export const CLOUD_EVENTS_SPEC_VERSION = '1.0';
+
+// Bump a type's version whenever its payload shape changes incompatibly
+export const EVENT_SCHEMA_VERSIONS: Readonly<Record<DomainEvent['type'], number>> = {
+  ORDER_CREATED: 2, // v2: prices and totals are Money in minor units
+  ORDER_UPDATED: 2,
+  ORDER_DELETED: 1,
+  ORDER_STATUS_CHANGED: 1,
+  ORDER_ITEM_ADDED: 2,
+  ORDER_ITEM_QUANTITY_CHANGED: 2,
+  ORDER_ITEM_REMOVED: 2,
+  PAYMENT_PROCESSED: 2,
+};
+
+export interface EnvelopeMetadata {
+  id: string;
+  specVersion: typeof CLOUD_EVENTS_SPEC_VERSION;
+  source: string;
+  time: string;
+  subject: OrderId;
+  dataSchemaVersion: number;
+  correlationId: string; // Shared by every event in one business flow
+  causationId?: string; // Id of the event or request that caused this one
+}
+
+// Envelope keeps the domain event's discriminant, so handlers narrow on `type` as before
+export type EventEnvelope<E extends DomainEvent = DomainEvent> = E & EnvelopeMetadata;
+
+export interface EnvelopeOptions {
+  id?: string;
+  time?: string;
+  correlationId?: string;
+  causationId?: string;
+}
+
+// CloudEvents 1.0 structured JSON representation
+export interface CloudEvent<T = unknown> {
+  specversion: typeof CLOUD_EVENTS_SPEC_VERSION;
+  id: string;
+  source: string;
+  type: string;
+  time: string;
+  subject: string;
+  datacontenttype: 'application/json';
+  dataschema: string;
+  correlationid: string;
+  causationid?: string;
+  data: T;
+}
+
+/**
+ * Wrap a domain event in an envelope; it joins the current correlation context, or starts
+ * its own chain outside one
+ */
+export function createEnvelope<E extends DomainEvent>(
+  event: E,
+  source: string,
+  options: EnvelopeOptions = {}
+): EventEnvelope<E> {
+  const id = options.id ?? randomUUID();
+
+  return {
+    ...event,
+    id,
+    specVersion: CLOUD_EVENTS_SPEC_VERSION,
+    source,
+    time: options.time ?? new Date().toISOString(),
+    subject: event.payload.orderId,
+    dataSchemaVersion: EVENT_SCHEMA_VERSIONS[event.type],
+    correlationId: options.correlationId ?? getCorrelationId() ?? id,
+    causationId: options.causationId,
+  };
+}
+
+/**
+ * Map an envelope to CloudEvents 1.0 JSON
+ */
+export function toCloudEvent<E extends DomainEvent>(
+  envelope: EventEnvelope<E>
+): CloudEvent<E['payload']> {
+  return {
+    specversion: CLOUD_EVENTS_SPEC_VERSION,
+    id: envelope.id,
+    source: envelope.source,
+    type: envelope.type,
+    time: envelope.time,
+    subject: envelope.subject,
+    datacontenttype: 'application/json',
+    dataschema: dataSchemaUri(envelope.source, envelope.type, envelope.dataSchemaVersion),
+    correlationid: envelope.correlationId,
+    causationid: envelope.causationId,
+    data: envelope.payload,
+  };
+}
+
+/**
+ * Map CloudEvents 1.0 JSON back to an envelope
+ */
+export function fromCloudEvent(cloudEvent: CloudEvent): EventEnvelope {
+  return {
+    type: cloudEvent.type,
+    payload: cloudEvent.data,
+    id: cloudEvent.id,
+    specVersion: cloudEvent.specversion,
+    source: cloudEvent.source,
+    time: cloudEvent.time,
+    subject: cloudEvent.subject as OrderId,
+    dataSchemaVersion: parseDataSchemaVersion(cloudEvent.dataschema),
+    correlationId: cloudEvent.correlationid,
+    causationId: cloudEvent.causationid,
+  } as EventEnvelope;
+}
+
+export type EnvelopeParseResult =
+  | { success: true; envelope: EventEnvelope }
+  | { success: false; issues: ZodIssue[] };
+
+/**
+ * Validate CloudEvents JSON and its data against the event schema for its type
+ */
+export function parseCloudEvent(value: unknown): EnvelopeParseResult {
+  const cloudEvent = cloudEventSchema.safeParse(value);
+
+  if (!cloudEvent.success) {
+    return { success: false, issues: cloudEvent.error.issues };
+  }
+
+  const domainEvent = eventSchema.safeParse({
+    type: cloudEvent.data.type,
+    payload: cloudEvent.data.data,
+  });
+
+  if (!domainEvent.success) {
+    return { success: false, issues: domainEvent.error.issues };
+  }
+
+  return {
+    success: true,
+    envelope: { ...fromCloudEvent(cloudEvent.data as CloudEvent), ...domainEvent.data },
+  };
+}
+
+/**
+ * Check whether a value looks like CloudEvents JSON rather than a bare payload
+ */
+export function isCloudEvent(value: unknown): value is CloudEvent {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { specversion?: unknown }).specversion === CLOUD_EVENTS_SPEC_VERSION
+  );
+}
+
+function dataSchemaUri(source: string, type: string, version: number): string {
+  return `urn:${source}:schemas:${type}:${version}`;
+}
+
+function parseDataSchemaVersion(dataSchema: string): number {
+  const version = Number(dataSchema.split(':').pop());
+  return Number.isInteger(version) ? version : 1;
+}
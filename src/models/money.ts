@@ -0,0 +1,102 @@
+import { Brand } from './types';
+import { ValidationError } from './errors';
+
+/**
+ * Money as an integer amount of a currency's minor unit (cents for USD), so sums are exact
+ */
+
+export type CurrencyCode = string; // ISO 4217 alphabetic code, e.g. USD
+
+export type Money = Brand<{ amount: number; currency: CurrencyCode }, 'Money'>;
+
+// Minor unit digits of the ISO 4217 currencies orders can be priced in
+export const CURRENCY_MINOR_UNITS: Readonly<Record<CurrencyCode, number>> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CAD: 2,
+  AUD: 2,
+  CHF: 2,
+  SEK: 2,
+  JPY: 0,
+  KRW: 0,
+  BHD: 3,
+  KWD: 3,
+};
+
+export function isSupportedCurrency(currency: string): boolean {
+  return Object.prototype.hasOwnProperty.call(CURRENCY_MINOR_UNITS, currency);
+}
+
+/**
+ * Create an amount in minor units, e.g. money(1999, 'USD') for $19.99
+ */
+export function money(amount: number, currency: CurrencyCode): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new ValidationError('Money amounts must be whole numbers of minor units', { amount });
+  }
+
+  if (!isSupportedCurrency(currency)) {
+    throw new ValidationError(`Unsupported currency: ${currency}`, { currency });
+  }
+
+  return { amount, currency } as Money;
+}
+
+export function addMoney(left: Money, right: Money): Money {
+  assertSameCurrency([left, right]);
+  return money(left.amount + right.amount, left.currency);
+}
+
+export function subtractMoney(left: Money, right: Money): Money {
+  assertSameCurrency([left, right]);
+  return money(left.amount - right.amount, left.currency);
+}
+
+export function multiplyMoney(value: Money, factor: number): Money {
+  return money(value.amount * factor, value.currency);
+}
+
+/**
+ * Fraction of an amount (0.0625 for 6.25%), rounded half up to the nearest minor unit
+ */
+export function percentOfMoney(value: Money, rate: number): Money {
+  return money(Math.round(value.amount * rate), value.currency);
+}
+
+export function minMoney(left: Money, right: Money): Money {
+  assertSameCurrency([left, right]);
+  return left.amount <= right.amount ? left : right;
+}
+
+/**
+ * Sum amounts of one currency; mixing currencies is a validation error
+ */
+export function sumMoney(values: readonly Money[], currency: CurrencyCode): Money {
+  assertSameCurrency([money(0, currency), ...values]);
+  return values.reduce(addMoney, money(0, currency));
+}
+
+export function assertSameCurrency(values: readonly Money[]): void {
+  const currencies = [...new Set(values.map((value) => value.currency))];
+
+  if (currencies.length > 1) {
+    throw new ValidationError(`Amounts must share one currency, got ${currencies.join(', ')}`, {
+      currencies,
+    });
+  }
+}
+
+/**
+ * Format for display with the currency's own number of decimals, e.g. $1,234.50 or ¥1,235
+ */
+export function formatMoney(value: Money, locale = 'en-US'): string {
+  const digits = CURRENCY_MINOR_UNITS[value.currency] ?? 2;
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value.amount / 10 ** digits);
+}
@@ -0,0 +1,89 @@
+import { Order, OrderStatus } from './entities';
+import { ConflictError, InvalidStatusTransitionError } from './errors';
+
+/**
+ * Order lifecycle: allowed status transitions and their guard conditions
+ */
+
+// Allowed next statuses for each status; terminal statuses have none
+export const ORDER_STATUS_TRANSITIONS: Readonly<Record<OrderStatus, readonly OrderStatus[]>> = {
+  [OrderStatus.PENDING]: [OrderStatus.PROCESSING, OrderStatus.CANCELLED],
+  [OrderStatus.PROCESSING]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+// Statuses in which line items and the shipping address may still change
+export const ITEM_EDITABLE_STATUSES: readonly OrderStatus[] = [OrderStatus.PENDING];
+
+// Guard returns a violation message, or null when the order may enter the status
+export type TransitionGuard = (order: Order) => string | null;
+
+const hasItems: TransitionGuard = (order) =>
+  order.items.length > 0 ? null : 'Order must have at least one item';
+
+const hasShippingAddress: TransitionGuard = (order) => {
+  const address = order.shippingAddress as Order['shippingAddress'] | undefined;
+  const isComplete =
+    address !== undefined &&
+    [address.street, address.city, address.state, address.zipCode, address.country].every(
+      (part) => part !== undefined && part !== ''
+    );
+
+  return isComplete ? null : 'Order cannot be shipped without a complete shipping address';
+};
+
+const TRANSITION_GUARDS: Partial<Record<OrderStatus, readonly TransitionGuard[]>> = {
+  [OrderStatus.PROCESSING]: [hasItems],
+  [OrderStatus.SHIPPED]: [hasItems, hasShippingAddress],
+};
+
+/**
+ * Check whether the lifecycle allows moving between two statuses
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status has no outgoing transitions
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Validate a transition, running guards against the order as it will look afterwards
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus, order: Order): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(
+      from,
+      to,
+      isTerminalStatus(from)
+        ? `Order is ${from} and can no longer change status`
+        : `Order cannot move from ${from} to ${to}`
+    );
+  }
+
+  for (const guard of TRANSITION_GUARDS[to] ?? []) {
+    const violation = guard(order);
+    if (violation !== null) {
+      throw new InvalidStatusTransitionError(from, to, violation);
+    }
+  }
+}
+
+/**
+ * Reject changes to line items, or to what they are priced against such as the shipping
+ * address, once fulfilment has started or the order is closed
+ */
+export function assertItemsEditable(order: Order, change = 'items'): void {
+  if (!ITEM_EDITABLE_STATUSES.includes(order.status)) {
+    throw new ConflictError(`Order is ${order.status} and its ${change} can no longer change`, {
+      orderId: order.orderId,
+      status: order.status,
+    });
+  }
+}
@@ -1,5 +1,15 @@
 import { z } from 'zod';
-import { OrderId, CustomerId, Email } from './types';
+import {
+  OrderId,
+  CustomerId,
+  Email,
+  DomainEvent,
+  OrderUpdatedPayload,
+  PaymentStatus,
+  JsonPatchOperation,
+} from './types';
+import { OrderStatus, ProductStatus } from './entities';
+import { Money, isSupportedCurrency } from './money';
 
 /**
  * Zod schemas for runtime validation with TypeScript type inference
@@ -11,14 +21,62 @@ export const emailSchema = z
   .email()
   .transform((val) => val as Email);
 
+// Order status schema
+export const orderStatusSchema = z.enum([
+  'PENDING',
+  'PROCESSING',
+  'SHIPPED',
+  'DELIVERED',
+  'CANCELLED',
+]);
+
+export const currencySchema = z
+  .string()
+  .refine(isSupportedCurrency, { message: 'Unsupported ISO 4217 currency code' });
+
+// Amount in minor units of its currency, e.g. { amount: 1999, currency: 'USD' } for $19.99
+export const moneySchema = z
+  .object({
+    amount: z.number().int().safe(),
+    currency: currencySchema,
+  })
+  .transform((val) => val as Money);
+
+const positiveMoneySchema = moneySchema.refine((val) => val.amount > 0, {
+  message: 'Amount must be positive',
+  path: ['amount'],
+});
+
+const nonNegativeMoneySchema = moneySchema.refine((val) => val.amount >= 0, {
+  message: 'Amount must not be negative',
+  path: ['amount'],
+});
+
 // Order item schema
 export const orderItemSchema = z.object({
   productId: z.string().uuid(),
   name: z.string().min(1).max(200),
   quantity: z.number().int().positive(),
-  price: z.number().positive(),
+  price: positiveMoneySchema,
+  weight: z.number().int().positive().optional(), // Grams per unit
+  catalogVersion: z.number().int().positive().optional(),
 });
 
+// Line item as a client orders it; name and price come from the product catalog
+export const orderItemRequestSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: z.number().int().positive(),
+});
+
+const hasUniqueProducts = (items: readonly OrderItemRequest[]): boolean =>
+  new Set(items.map((item) => item.productId)).size === items.length;
+
+// Line items of a create or PUT; each product appears once
+const orderItemRequestsSchema = z
+  .array(orderItemRequestSchema)
+  .min(1)
+  .refine(hasUniqueProducts, { message: 'Each product may only appear once' });
+
 // Create order request schema
 export const createOrderSchema = z.object({
   customerId: z
@@ -26,7 +84,7 @@ export const createOrderSchema = z.object({
     .min(1)
     .transform((val) => val as CustomerId),
   customerEmail: emailSchema,
-  items: z.array(orderItemSchema).min(1),
+  items: orderItemRequestsSchema,
   shippingAddress: z.object({
     street: z.string().min(1),
     city: z.string().min(1),
@@ -35,6 +93,16 @@ export const createOrderSchema = z.object({
     country: z.string().default('US'),
   }),
   metadata: z.record(z.string()).optional(),
+  couponCode: z.string().min(1).max(50).optional(),
+});
+
+// Shipping address as stored on an order
+export const addressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  state: z.string().min(2).max(2),
+  zipCode: z.string().regex(/^\d{5}(-\d{4})?$/),
+  country: z.string(),
 });
 
 // Update order schema
@@ -43,74 +111,310 @@ export const updateOrderSchema = z.object({
     .string()
     .min(1)
     .transform((val) => val as OrderId),
-  items: z.array(orderItemSchema).optional(),
-  status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
-  shippingAddress: z
-    .object({
-      street: z.string().min(1),
-      city: z.string().min(1),
-      state: z.string().min(2).max(2),
-      zipCode: z.string().regex(/^\d{5}(-\d{4})?$/),
-      country: z.string(),
-    })
-    .optional(),
+  items: orderItemRequestsSchema.optional(),
+  status: orderStatusSchema.optional(),
+  shippingAddress: addressSchema.optional(),
 });
 
-// Query parameters schema
-export const queryOrdersSchema = z.object({
-  customerId: z
-    .string()
-    .optional()
-    .transform((val) =>
-      val !== null && val !== undefined && val !== '' ? (val as CustomerId) : undefined
-    ),
-  status: z.enum(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED']).optional(),
+export const productStatusSchema = z.nativeEnum(ProductStatus);
+
+// Catalog product as an admin creates it; the id is assigned by the catalog
+export const createProductSchema = z.object({
+  name: z.string().min(1).max(200),
+  price: positiveMoneySchema,
+  weight: z.number().int().positive().optional(), // Grams per unit
+  status: productStatusSchema.default(ProductStatus.ACTIVE),
+});
+
+export const updateProductSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    price: positiveMoneySchema,
+    weight: z.number().int().positive(),
+    status: productStatusSchema,
+  })
+  .partial()
+  .refine((update) => Object.keys(update).length > 0, { message: 'Nothing to update' });
+
+export const queryProductsSchema = z.object({
+  status: productStatusSchema.optional(),
   limit: z.coerce.number().int().min(1).max(100).default(20),
   nextToken: z.string().optional(),
 });
 
+// Quantity change for one line item
+export const orderItemQuantitySchema = z.object({
+  quantity: z.number().int().positive(),
+});
+
+// Editable order fields once a PATCH is applied; members outside them are rejected
+export const orderPatchResultSchema = z
+  .object({
+    items: z
+      .array(orderItemRequestSchema.strict())
+      .min(1)
+      .refine(hasUniqueProducts, { message: 'Each product may only appear once' }),
+    status: orderStatusSchema,
+    shippingAddress: addressSchema.strict(),
+  })
+  .strict();
+
+const jsonPointerSchema = z.string().regex(/^(\/([^~]|~[01])*)*$/, 'Invalid JSON Pointer');
+
+// JSON Patch (RFC 6902) operation; `value` must be present, though it may be null
+export const jsonPatchOperationSchema = z
+  .discriminatedUnion('op', [
+    z.object({ op: z.literal('add'), path: jsonPointerSchema, value: z.unknown() }),
+    z.object({ op: z.literal('remove'), path: jsonPointerSchema }),
+    z.object({ op: z.literal('replace'), path: jsonPointerSchema, value: z.unknown() }),
+    z.object({ op: z.literal('move'), from: jsonPointerSchema, path: jsonPointerSchema }),
+    z.object({ op: z.literal('copy'), from: jsonPointerSchema, path: jsonPointerSchema }),
+    z.object({ op: z.literal('test'), path: jsonPointerSchema, value: z.unknown() }),
+  ])
+  .refine(
+    (operation) => !['add', 'replace', 'test'].includes(operation.op) || 'value' in operation,
+    { message: 'Required', path: ['value'] }
+  )
+  .transform((val) => val as JsonPatchOperation);
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema).min(1).max(100);
+
+const taxRateSchema = z.number().min(0).max(1); // Fraction, e.g. 0.0625 for 6.25%
+
+const couponSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('percent'),
+    percentOff: z.number().positive().max(100),
+    minSubtotal: positiveMoneySchema.optional(),
+  }),
+  z.object({
+    type: z.literal('fixed'),
+    amountOff: positiveMoneySchema,
+    minSubtotal: positiveMoneySchema.optional(),
+  }),
+]);
+
+// Pricing rate tables; countries are keyed by ISO 3166 code, with '*' for any other country
+export const pricingConfigSchema = z.object({
+  lineDiscounts: z
+    .array(
+      z.object({
+        productId: z.string().optional(), // Any product when absent
+        minQuantity: z.number().int().positive().default(1),
+        percentOff: z.number().positive().max(100),
+      })
+    )
+    .default([]),
+  coupons: z.record(couponSchema).default({}), // By upper-case coupon code
+  shipping: z
+    .record(
+      z.object({
+        baseFee: nonNegativeMoneySchema,
+        perKg: nonNegativeMoneySchema, // For each started kilogram
+        freeAbove: positiveMoneySchema.optional(), // Free once discounted merchandise reaches this
+      })
+    )
+    .default({}),
+  defaultItemWeight: z.number().int().nonnegative().default(500), // Grams, for items without one
+  tax: z
+    .record(
+      z.object({
+        rate: taxRateSchema,
+        states: z.record(taxRateSchema).default({}), // Replaces the country rate
+        shippingTaxable: z.boolean().default(false),
+      })
+    )
+    .default({}),
+});
+
+// Query parameters schema
+export const queryOrdersSchema = z
+  .object({
+    customerId: z
+      .string()
+      .optional()
+      .transform((val) =>
+        val !== null && val !== undefined && val !== '' ? (val as CustomerId) : undefined
+      ),
+    status: orderStatusSchema.optional(),
+    // Normalised to the toISOString() form stored on orders, so they compare as strings
+    createdFrom: z
+      .string()
+      .datetime()
+      .transform((val) => new Date(val).toISOString())
+      .optional(),
+    createdTo: z
+      .string()
+      .datetime()
+      .transform((val) => new Date(val).toISOString())
+      .optional(),
+    // Order total bounds in minor units, e.g. 1000 for $10.00
+    minAmount: z.coerce.number().int().nonnegative().optional(),
+    maxAmount: z.coerce.number().int().nonnegative().optional(),
+    currency: currencySchema.optional(),
+    // Exact matches on metadata entries, sent as `metadata.<key>=<value>`
+    metadata: z.record(z.string().regex(/^[A-Za-z0-9_-]{1,64}$/), z.string()).optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    nextToken: z.string().optional(),
+  })
+  .refine(
+    (query) =>
+      query.createdFrom === undefined ||
+      query.createdTo === undefined ||
+      query.createdFrom <= query.createdTo,
+    { message: 'createdFrom must not be after createdTo', path: ['createdFrom'] }
+  )
+  .refine(
+    (query) =>
+      query.minAmount === undefined ||
+      query.maxAmount === undefined ||
+      query.minAmount <= query.maxAmount,
+    { message: 'minAmount must not be greater than maxAmount', path: ['minAmount'] }
+  );
+
+// Branded identifiers carried in event payloads
+const eventOrderIdSchema = z
+  .string()
+  .min(1)
+  .transform((val) => val as OrderId);
+const eventCustomerIdSchema = z
+  .string()
+  .min(1)
+  .transform((val) => val as CustomerId);
+
 // Event schema
 export const eventSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('ORDER_CREATED'),
     payload: z.object({
-      orderId: z.string(),
-      customerId: z.string(),
+      orderId: eventOrderIdSchema,
+      customerId: eventCustomerIdSchema,
       items: z.array(orderItemSchema),
-      totalAmount: z.number().positive(),
+      totalAmount: nonNegativeMoneySchema,
       createdAt: z.string().datetime(),
     }),
   }),
   z.object({
     type: z.literal('ORDER_UPDATED'),
     payload: z.object({
-      orderId: z.string(),
-      updates: z.record(z.unknown()),
+      orderId: eventOrderIdSchema,
+      updates: z.record(z.unknown()).transform((val) => val as OrderUpdatedPayload['updates']),
+      changes: z.array(jsonPatchOperationSchema).optional(),
       updatedAt: z.string().datetime(),
     }),
   }),
   z.object({
     type: z.literal('ORDER_DELETED'),
     payload: z.object({
-      orderId: z.string(),
+      orderId: eventOrderIdSchema,
       deletedAt: z.string().datetime(),
       reason: z.string().optional(),
     }),
   }),
+  z.object({
+    type: z.literal('ORDER_STATUS_CHANGED'),
+    payload: z.object({
+      orderId: eventOrderIdSchema,
+      customerId: eventCustomerIdSchema,
+      fromStatus: z.nativeEnum(OrderStatus),
+      toStatus: z.nativeEnum(OrderStatus),
+      changedAt: z.string().datetime(),
+    }),
+  }),
+  z.object({
+    type: z.literal('ORDER_ITEM_ADDED'),
+    payload: z.object({
+      orderId: eventOrderIdSchema,
+      item: orderItemSchema,
+      totalAmount: nonNegativeMoneySchema,
+      addedAt: z.string().datetime(),
+    }),
+  }),
+  z.object({
+    type: z.literal('ORDER_ITEM_QUANTITY_CHANGED'),
+    payload: z.object({
+      orderId: eventOrderIdSchema,
+      productId: z.string().min(1),
+      fromQuantity: z.number().int().positive(),
+      toQuantity: z.number().int().positive(),
+      totalAmount: nonNegativeMoneySchema,
+      changedAt: z.string().datetime(),
+    }),
+  }),
+  z.object({
+    type: z.literal('ORDER_ITEM_REMOVED'),
+    payload: z.object({
+      orderId: eventOrderIdSchema,
+      item: orderItemSchema,
+      totalAmount: nonNegativeMoneySchema,
+      removedAt: z.string().datetime(),
+    }),
+  }),
   z.object({
     type: z.literal('PAYMENT_PROCESSED'),
     payload: z.object({
-      orderId: z.string(),
+      orderId: eventOrderIdSchema,
       paymentId: z.string(),
-      amount: z.number().positive(),
-      status: z.enum(['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED']),
+      amount: positiveMoneySchema,
+      status: z.nativeEnum(PaymentStatus),
       processedAt: z.string().datetime(),
     }),
   }),
 ]);
 
+// CloudEvents 1.0 structured JSON, as published by EventPublisher
+export const cloudEventSchema = z.object({
+  specversion: z.literal('1.0'),
+  id: z.string().min(1),
+  source: z.string().min(1),
+  type: z.string().min(1),
+  time: z.string().datetime(),
+  subject: z.string().min(1),
+  datacontenttype: z.literal('application/json').optional(),
+  dataschema: z.string().min(1),
+  correlationid: z.string().min(1),
+  causationid: z.string().min(1).optional(),
+  data: z.unknown(),
+});
+
+// Queue message contracts shared by producers (QueueService) and consumers (MessageRouter)
+export const queueMessageSchemas = {
+  PROCESS_ORDER: z.object({
+    orderId: eventOrderIdSchema,
+  }),
+  SEND_EMAIL: z.object({
+    to: emailSchema,
+    subject: z.string().min(1).max(200),
+    body: z.string().min(1),
+  }),
+};
+
+// Envelope every queue message body is wrapped in
+export const queueMessageEnvelopeSchema = z.object({
+  type: z.string().min(1),
+  data: z.unknown(),
+});
+
 // Infer TypeScript types from Zod schemas
 export type CreateOrderRequest = z.infer<typeof createOrderSchema>;
 export type UpdateOrderRequest = z.infer<typeof updateOrderSchema>;
+export type OrderPatchResult = z.infer<typeof orderPatchResultSchema>;
 export type QueryOrdersParams = z.infer<typeof queryOrdersSchema>;
 export type OrderItem = z.infer<typeof orderItemSchema>;
+export type OrderItemQuantityRequest = z.infer<typeof orderItemQuantitySchema>;
+export type OrderItemRequest = z.infer<typeof orderItemRequestSchema>;
+export type CreateProductRequest = z.infer<typeof createProductSchema>;
+export type UpdateProductRequest = z.infer<typeof updateProductSchema>;
+export type QueryProductsParams = z.infer<typeof queryProductsSchema>;
+export type PricingConfig = z.infer<typeof pricingConfigSchema>;
+
+export type QueueMessageType = keyof typeof queueMessageSchemas;
+export type QueueMessageData<K extends QueueMessageType> = z.infer<(typeof queueMessageSchemas)[K]>;
+export type QueueMessage<K extends QueueMessageType = QueueMessageType> = {
+  [P in K]: { type: P; data: QueueMessageData<P> };
+}[K];
+
+// Validated events must satisfy the hand-written DomainEvent union
+type AssertAssignable<T extends U, U> = T;
+export type ValidatedDomainEvent = AssertAssignable<z.infer<typeof eventSchema>, DomainEvent>;
@@ -1,3 +1,6 @@
+import type { OrderStatus } from './entities';
+import type { Money } from './money';
+
 /**
  * Advanced TypeScript type utilities demonstrating deep type system expertise
  */
@@ -29,6 +32,10 @@ export type DomainEvent =
   | { type: 'ORDER_CREATED'; payload: OrderCreatedPayload }
   | { type: 'ORDER_UPDATED'; payload: OrderUpdatedPayload }
   | { type: 'ORDER_DELETED'; payload: OrderDeletedPayload }
+  | { type: 'ORDER_STATUS_CHANGED'; payload: OrderStatusChangedPayload }
+  | { type: 'ORDER_ITEM_ADDED'; payload: OrderItemAddedPayload }
+  | { type: 'ORDER_ITEM_QUANTITY_CHANGED'; payload: OrderItemQuantityChangedPayload }
+  | { type: 'ORDER_ITEM_REMOVED'; payload: OrderItemRemovedPayload }
   | { type: 'PAYMENT_PROCESSED'; payload: PaymentProcessedPayload };
 
 // Extract event type by discriminant
@@ -51,8 +58,14 @@ export enum ErrorCode {
   NOT_FOUND = 'NOT_FOUND',
   UNAUTHORIZED = 'UNAUTHORIZED',
   FORBIDDEN = 'FORBIDDEN',
+  CONFLICT = 'CONFLICT',
+  PRECONDITION_FAILED = 'PRECONDITION_FAILED',
+  IDEMPOTENCY_KEY_REUSED = 'IDEMPOTENCY_KEY_REUSED',
+  RATE_LIMITED = 'RATE_LIMITED',
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   EXTERNAL_SERVICE_ERROR = 'EXTERNAL_SERVICE_ERROR',
+  SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',
+  UNSUPPORTED_MEDIA_TYPE = 'UNSUPPORTED_MEDIA_TYPE',
 }
 
 // Response metadata
@@ -62,18 +75,31 @@ export interface ResponseMetadata {
   version: string;
 }
 
+// RFC 7807 problem details document returned for every API error
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  requestId?: string;
+  code: ErrorCode;
+  [extension: string]: unknown;
+}
+
 // Event payloads
 export interface OrderCreatedPayload {
   orderId: OrderId;
   customerId: CustomerId;
   items: OrderItem[];
-  totalAmount: number;
+  totalAmount: Money;
   createdAt: string;
 }
 
 export interface OrderUpdatedPayload {
   orderId: OrderId;
   updates: Partial<OrderCreatedPayload>;
+  changes?: JsonPatchOperation[]; // What changed, as a JSON Patch against the previous order
   updatedAt: string;
 }
 
@@ -83,14 +109,51 @@ export interface OrderDeletedPayload {
   reason?: string;
 }
 
+export interface OrderStatusChangedPayload {
+  orderId: OrderId;
+  customerId: CustomerId;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  changedAt: string;
+}
+
+export interface OrderItemAddedPayload {
+  orderId: OrderId;
+  item: OrderItem;
+  totalAmount: Money; // Order total after the change
+  addedAt: string;
+}
+
+export interface OrderItemQuantityChangedPayload {
+  orderId: OrderId;
+  productId: string;
+  fromQuantity: number;
+  toQuantity: number;
+  totalAmount: Money; // Order total after the change
+  changedAt: string;
+}
+
+export interface OrderItemRemovedPayload {
+  orderId: OrderId;
+  item: OrderItem; // The line item as it was before removal
+  totalAmount: Money; // Order total after the change
+  removedAt: string;
+}
+
 export interface PaymentProcessedPayload {
   orderId: OrderId;
   paymentId: string;
-  amount: number;
+  amount: Money;
   status: PaymentStatus;
   processedAt: string;
 }
 
+// JSON Patch (RFC 6902) operation; paths are JSON Pointers (RFC 6901)
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
 export enum PaymentStatus {
   PENDING = 'PENDING',
   COMPLETED = 'COMPLETED',
@@ -102,5 +165,7 @@ export interface OrderItem {
   productId: string;
   name: string;
   quantity: number;
-  price: number;
+  price: Money; // Unit price
+  weight?: number; // Grams per unit
+  catalogVersion?: number; // Version of the catalog product the item was priced from
 }
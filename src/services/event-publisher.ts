@@ -1,6 +1,18 @@
-import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+  PutEventsRequestEntry,
+} from '@aws-sdk/client-eventbridge';
 import { DomainEvent } from '../models/types';
-import { createLogger, retryWithBackoff, getEnvVar } from '../utils/helpers';
+import {
+  EnvelopeOptions,
+  EventEnvelope,
+  createEnvelope,
+  toCloudEvent,
+} from '../models/event-envelope';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { RetryPolicy } from '../utils/retry-policy';
+import { CircuitBreaker, getCircuitBreaker } from '../utils/circuit-breaker';
 
 /**
  * Event publisher for EventBridge with resilience patterns
@@ -14,31 +26,30 @@ export class EventPublisher {
   constructor(
     eventBusName?: string,
     source?: string,
-    client: EventBridgeClient = new EventBridgeClient({})
+    client: EventBridgeClient = new EventBridgeClient({}),
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy(),
+    private readonly circuitBreaker: CircuitBreaker = getCircuitBreaker('EventBridge')
   ) {
     this.client = client;
     this.eventBusName = eventBusName ?? getEnvVar('EVENT_BUS_NAME');
     this.source = source ?? getEnvVar('EVENT_SOURCE', 'order-service');
   }
 
-  async publish(event: DomainEvent): Promise<void> {
-    this.logger.info('Publishing event', { eventType: event.type });
+  async publish(event: DomainEvent, options?: EnvelopeOptions): Promise<void> {
+    await this.publishEnvelope(createEnvelope(event, this.source, options));
+  }
+
+  async publishEnvelope(envelope: EventEnvelope): Promise<void> {
+    this.logger.info('Publishing event', { eventType: envelope.type, eventId: envelope.id });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () => {
           const command = new PutEventsCommand({
-            Entries: [
-              {
-                Source: this.source,
-                DetailType: event.type,
-                Detail: JSON.stringify(event.payload),
-                EventBusName: this.eventBusName,
-              },
-            ],
+            Entries: [this.toEntry(envelope)],
           });
 
-          const result = await this.client.send(command);
+          const result = await this.circuitBreaker.execute(() => this.client.send(command));
 
           if (
             result.FailedEntryCount !== null &&
@@ -48,32 +59,38 @@ export class EventPublisher {
             throw new Error(`Failed to publish event: ${JSON.stringify(result.Entries)}`);
           }
 
-          this.logger.info('Event published successfully', { eventType: event.type });
+          this.logger.info('Event published successfully', {
+            eventType: envelope.type,
+            eventId: envelope.id,
+          });
         },
-        { logger: this.logger, maxRetries: 3 }
+        { logger: this.logger }
       );
     } catch (error) {
-      this.logger.error('Failed to publish event after retries', error, { eventType: event.type });
+      this.logger.error('Failed to publish event after retries', error, {
+        eventType: envelope.type,
+        eventId: envelope.id,
+      });
       throw error;
     }
   }
 
-  async publishBatch(events: DomainEvent[]): Promise<void> {
-    this.logger.info('Publishing batch of events', { count: events.length });
+  async publishBatch(events: DomainEvent[], options?: EnvelopeOptions): Promise<void> {
+    // Each event in the batch gets its own id
+    const envelopes = events.map((event) =>
+      createEnvelope(event, this.source, { ...options, id: undefined })
+    );
+
+    this.logger.info('Publishing batch of events', { count: envelopes.length });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () => {
           const command = new PutEventsCommand({
-            Entries: events.map((event) => ({
-              Source: this.source,
-              DetailType: event.type,
-              Detail: JSON.stringify(event.payload),
-              EventBusName: this.eventBusName,
-            })),
+            Entries: envelopes.map((envelope) => this.toEntry(envelope)),
           });
 
-          const result = await this.client.send(command);
+          const result = await this.circuitBreaker.execute(() => this.client.send(command));
 
           if (
             result.FailedEntryCount !== null &&
@@ -83,52 +100,178 @@ export class EventPublisher {
             throw new Error(`Failed to publish events: ${JSON.stringify(result.Entries)}`);
           }
 
-          this.logger.info('Batch events published successfully', { count: events.length });
+          this.logger.info('Batch events published successfully', { count: envelopes.length });
         },
-        { logger: this.logger, maxRetries: 3 }
+        { logger: this.logger }
       );
     } catch (error) {
       this.logger.error('Failed to publish batch events after retries', error);
       throw error;
     }
   }
+
+  private toEntry(envelope: EventEnvelope): PutEventsRequestEntry {
+    return {
+      Source: envelope.source,
+      DetailType: envelope.type,
+      Detail: JSON.stringify(toCloudEvent(envelope)),
+      EventBusName: this.eventBusName,
+      Time: new Date(envelope.time),
+    };
+  }
 }
 
 /**
  * Generic event handler interface
  */
 export interface EventHandler<T extends DomainEvent> {
-  handle(event: T): Promise<void>;
+  handle(event: EventEnvelope<T>): Promise<void>;
+}
+
+// sequential: handlers run one after another in registration order; parallel: all at once
+export type DispatchMode = 'sequential' | 'parallel';
+
+// Errors are classified as for AWS calls, so domain and programming errors are not retried
+export interface HandlerRetryPolicy {
+  maxRetries: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+}
+
+export interface HandlerRegistrationOptions {
+  name?: string;
+  retry?: HandlerRetryPolicy;
+}
+
+export interface HandlerFailure {
+  handler: string;
+  error: unknown;
+}
+
+export interface DispatchResult {
+  eventType: DomainEvent['type'];
+  eventId: string;
+  succeeded: string[];
+  failed: HandlerFailure[];
+}
+
+interface HandlerRegistration {
+  name: string;
+  handler: EventHandler<DomainEvent>;
+  retryPolicy: RetryPolicy;
 }
 
+// Handlers are not retried unless they opt in
+const NO_RETRY: HandlerRetryPolicy = { maxRetries: 0 };
+
 /**
- * Event handler registry with type-safe event routing
+ * Event handler registry fanning each event out to every handler registered for its type
  */
 export class EventHandlerRegistry {
-  private readonly handlers = new Map<string, EventHandler<DomainEvent>>();
+  private readonly handlers = new Map<string, HandlerRegistration[]>();
+  private readonly mode: DispatchMode;
   private readonly logger = createLogger('EventHandlerRegistry');
 
-  register<T extends DomainEvent>(eventType: T['type'], handler: EventHandler<T>): void {
-    this.logger.info('Registering event handler', { eventType });
-    this.handlers.set(eventType, handler as EventHandler<DomainEvent>);
+  constructor(options: { mode?: DispatchMode } = {}) {
+    this.mode = options.mode ?? 'sequential';
+  }
+
+  register<T extends DomainEvent>(
+    eventType: T['type'],
+    handler: EventHandler<T>,
+    options: HandlerRegistrationOptions = {}
+  ): void {
+    const registrations = this.handlers.get(eventType) ?? [];
+    const name = options.name ?? handlerName(handler, registrations.length);
+
+    if (registrations.some((registration) => registration.name === name)) {
+      throw new Error(`Handler ${name} is already registered for ${eventType}`);
+    }
+
+    this.logger.info('Registering event handler', { eventType, handler: name });
+    this.handlers.set(eventType, [
+      ...registrations,
+      {
+        name,
+        handler: handler as EventHandler<DomainEvent>,
+        retryPolicy: new RetryPolicy(options.retry ?? NO_RETRY),
+      },
+    ]);
   }
 
-  async dispatch(event: DomainEvent): Promise<void> {
-    const handler = this.handlers.get(event.type);
+  /**
+   * Dispatch to every handler for the event type; a failing handler never stops the others
+   */
+  async dispatch(event: EventEnvelope): Promise<DispatchResult> {
+    const registrations = this.handlers.get(event.type) ?? [];
+    const result: DispatchResult = {
+      eventType: event.type,
+      eventId: event.id,
+      succeeded: [],
+      failed: [],
+    };
 
-    if (!handler) {
+    if (registrations.length === 0) {
       this.logger.warn('No handler registered for event type', { eventType: event.type });
-      return;
+      return result;
+    }
+
+    this.logger.info('Dispatching event to handlers', {
+      eventType: event.type,
+      eventId: event.id,
+      correlationId: event.correlationId,
+      handlerCount: registrations.length,
+      mode: this.mode,
+    });
+
+    const record = (name: string, error?: unknown): void => {
+      if (error === undefined) {
+        result.succeeded.push(name);
+      } else {
+        result.failed.push({ handler: name, error });
+      }
+    };
+
+    if (this.mode === 'parallel') {
+      const errors = await Promise.all(
+        registrations.map((registration) => this.invoke(registration, event))
+      );
+      registrations.forEach((registration, index) => record(registration.name, errors[index]));
+    } else {
+      for (const registration of registrations) {
+        record(registration.name, await this.invoke(registration, event));
+      }
     }
 
-    this.logger.info('Dispatching event to handler', { eventType: event.type });
+    this.logger.info('Event dispatched', {
+      eventType: event.type,
+      eventId: event.id,
+      succeeded: result.succeeded,
+      failed: result.failed.map((failure) => failure.handler),
+    });
+
+    return result;
+  }
 
+  // Resolves to the handler's final error, or undefined once it succeeds
+  private async invoke(registration: HandlerRegistration, event: EventEnvelope): Promise<unknown> {
     try {
-      await handler.handle(event);
-      this.logger.info('Event handled successfully', { eventType: event.type });
+      await registration.retryPolicy.execute(() => registration.handler.handle(event), {
+        logger: this.logger,
+      });
+      return undefined;
     } catch (error) {
-      this.logger.error('Error handling event', error, { eventType: event.type });
-      throw error;
+      this.logger.error('Error handling event', error, {
+        eventType: event.type,
+        handler: registration.name,
+      });
+      return error ?? new Error(`Handler ${registration.name} failed`);
     }
   }
 }
+
+function handlerName(handler: EventHandler<DomainEvent>, index: number): string {
+  const constructorName = handler.constructor?.name;
+  return constructorName && constructorName !== 'Object' ? constructorName : `handler-${index}`;
+}
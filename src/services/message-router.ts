@@ -0,0 +1,79 @@
+import { SQSRecord } from 'aws-lambda';
+import { ZodIssue } from 'zod';
+import {
+  QueueMessageData,
+  QueueMessageType,
+  queueMessageEnvelopeSchema,
+  queueMessageSchemas,
+} from '../models/schemas';
+import { createLogger } from '../utils/helpers';
+
+/**
+ * Generic queue message handler interface
+ */
+export interface MessageHandler<K extends QueueMessageType> {
+  handle(data: QueueMessageData<K>, record: SQSRecord): Promise<void>;
+}
+
+export type RejectionReason = 'MALFORMED_MESSAGE' | 'UNKNOWN_MESSAGE_TYPE' | 'INVALID_MESSAGE';
+
+// Rejected messages can never succeed and belong in the DLQ rather than back on the queue
+export type RouteResult =
+  | { status: 'HANDLED'; type: QueueMessageType }
+  | { status: 'REJECTED'; reason: RejectionReason; issues?: ZodIssue[] };
+
+/**
+ * Queue message router with contract validation before type-safe dispatch
+ */
+export class MessageRouter {
+  private readonly handlers = new Map<string, MessageHandler<QueueMessageType>>();
+  private readonly logger = createLogger('MessageRouter');
+
+  register<K extends QueueMessageType>(type: K, handler: MessageHandler<K>): void {
+    this.logger.info('Registering message handler', { type });
+    this.handlers.set(type, handler as unknown as MessageHandler<QueueMessageType>);
+  }
+
+  async route(record: SQSRecord): Promise<RouteResult> {
+    let body: unknown;
+
+    try {
+      body = JSON.parse(record.body);
+    } catch {
+      return this.reject(record, 'MALFORMED_MESSAGE');
+    }
+
+    const envelope = queueMessageEnvelopeSchema.safeParse(body);
+
+    if (!envelope.success) {
+      return this.reject(record, 'MALFORMED_MESSAGE', envelope.error.issues);
+    }
+
+    const type = envelope.data.type;
+    const handler = this.handlers.get(type);
+
+    if (!isQueueMessageType(type) || !handler) {
+      return this.reject(record, 'UNKNOWN_MESSAGE_TYPE');
+    }
+
+    const data = queueMessageSchemas[type].safeParse(envelope.data.data);
+
+    if (!data.success) {
+      return this.reject(record, 'INVALID_MESSAGE', data.error.issues);
+    }
+
+    this.logger.info('Dispatching message to handler', { messageId: record.messageId, type });
+
+    await handler.handle(data.data, record);
+    return { status: 'HANDLED', type };
+  }
+
+  private reject(record: SQSRecord, reason: RejectionReason, issues?: ZodIssue[]): RouteResult {
+    this.logger.warn('Rejecting message', { messageId: record.messageId, reason, issues });
+    return { status: 'REJECTED', reason, issues };
+  }
+}
+
+function isQueueMessageType(type: string): type is QueueMessageType {
+  return Object.prototype.hasOwnProperty.call(queueMessageSchemas, type);
+}
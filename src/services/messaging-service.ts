@@ -1,6 +1,15 @@
-import { SQSClient, SendMessageCommand, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import {
+  SQSClient,
+  SendMessageCommand,
+  SendMessageBatchCommand,
+  MessageAttributeValue,
+} from '@aws-sdk/client-sqs';
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
-import { createLogger, retryWithBackoff } from '../utils/helpers';
+import { QueueMessageData, QueueMessageType, queueMessageSchemas } from '../models/schemas';
+import { createLogger } from '../utils/helpers';
+import { RetryPolicy } from '../utils/retry-policy';
+import { CircuitBreaker, getCircuitBreaker } from '../utils/circuit-breaker';
+import { correlationAttributes } from '../utils/correlation-context';
 
 /**
  * Message queue service for SQS with batching support
@@ -9,20 +18,50 @@ export class QueueService {
   private readonly client: SQSClient;
   private readonly logger = createLogger('QueueService');
 
-  constructor(client: SQSClient = new SQSClient({})) {
+  constructor(
+    client: SQSClient = new SQSClient({}),
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
     this.client = client;
   }
 
   async sendMessage<T>(queueUrl: string, message: T, delaySeconds = 0): Promise<void> {
+    await this.sendRawMessage(queueUrl, JSON.stringify(message), {}, delaySeconds);
+  }
+
+  /**
+   * Send a message that is validated against its shared contract before it leaves the producer
+   */
+  async sendTypedMessage<K extends QueueMessageType>(
+    queueUrl: string,
+    type: K,
+    data: QueueMessageData<K>,
+    delaySeconds = 0
+  ): Promise<void> {
+    const validated: unknown = queueMessageSchemas[type].parse(data);
+    await this.sendMessage(queueUrl, { type, data: validated }, delaySeconds);
+  }
+
+  /**
+   * Send an already serialized body, e.g. when forwarding a message, with string attributes;
+   * the current correlation id is attached unless the attributes carry one
+   */
+  async sendRawMessage(
+    queueUrl: string,
+    body: string,
+    attributes: Record<string, string> = {},
+    delaySeconds = 0
+  ): Promise<void> {
     this.logger.info('Sending message to queue', { queueUrl });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () => {
           const command = new SendMessageCommand({
             QueueUrl: queueUrl,
-            MessageBody: JSON.stringify(message),
+            MessageBody: body,
             DelaySeconds: delaySeconds,
+            MessageAttributes: toMessageAttributes({ ...correlationAttributes(), ...attributes }),
           });
 
           await this.client.send(command);
@@ -44,13 +83,14 @@ export class QueueService {
       const batches = this.chunkArray(messages, 10);
 
       for (const batch of batches) {
-        await retryWithBackoff(
+        await this.retryPolicy.execute(
           async () => {
             const command = new SendMessageBatchCommand({
               QueueUrl: queueUrl,
               Entries: batch.map((message, index) => ({
                 Id: `${index}`,
                 MessageBody: JSON.stringify(message),
+                MessageAttributes: toMessageAttributes(correlationAttributes()),
               })),
             });
 
@@ -87,7 +127,11 @@ export class NotificationService {
   private readonly client: SNSClient;
   private readonly logger = createLogger('NotificationService');
 
-  constructor(client: SNSClient = new SNSClient({})) {
+  constructor(
+    client: SNSClient = new SNSClient({}),
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy(),
+    private readonly circuitBreaker: CircuitBreaker = getCircuitBreaker('SNS')
+  ) {
     this.client = client;
   }
 
@@ -95,15 +139,16 @@ export class NotificationService {
     this.logger.info('Publishing notification', { topicArn });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () => {
           const command = new PublishCommand({
             TopicArn: topicArn,
             Message: message,
             Subject: subject,
+            MessageAttributes: toMessageAttributes(correlationAttributes()),
           });
 
-          await this.client.send(command);
+          await this.circuitBreaker.execute(() => this.client.send(command));
           this.logger.info('Notification published successfully', { topicArn });
         },
         { logger: this.logger }
@@ -118,3 +163,17 @@ export class NotificationService {
     await this.publish(topicArn, JSON.stringify(message), subject);
   }
 }
+
+function toMessageAttributes(
+  attributes: Record<string, string>
+): Record<string, MessageAttributeValue> | undefined {
+  const entries = Object.entries(attributes);
+
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    entries.map(([name, value]) => [name, { DataType: 'String', StringValue: value }])
+  );
+}
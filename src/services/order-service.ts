@@ -1,55 +1,123 @@
-import { Order, OrderBuilder, OrderStatus } from '../models/entities';
-import { OrderId, CustomerId } from '../models/types';
-import { CreateOrderRequest, UpdateOrderRequest } from '../models/schemas';
-import { DynamoDBRepository } from '../utils/dynamodb-repository';
-import { EventPublisher } from './event-publisher';
+import {
+  IndexDefinition,
+  IndexedRepository,
+  Order,
+  OrderBuilder,
+  OrderStatus,
+  fromStoredOrder,
+} from '../models/entities';
+import { Condition, SortKeyCondition, allOf, conditions } from '../models/conditions';
+import { OrderId, DomainEvent, JsonPatchOperation } from '../models/types';
+import {
+  CreateOrderRequest,
+  OrderItem,
+  OrderItemRequest,
+  QueryOrdersParams,
+  UpdateOrderRequest,
+  orderPatchResultSchema,
+} from '../models/schemas';
+import { assertItemsEditable, assertTransition } from '../models/order-state-machine';
+import {
+  ConcurrentModificationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../models/errors';
+import { createRepository } from '../utils/repository-backend';
+import { Outbox, createOutbox } from './outbox';
+import { PricingEngine } from './pricing-engine';
+import { ProductCatalogService } from './product-catalog';
 import { createLogger, getEnvVar, generateId } from '../utils/helpers';
+import { applyJsonPatch, applyMergePatch, diffJson } from '../utils/json-patch';
+
+// Patch document for an order, by the media type it was sent as
+export type OrderPatch =
+  | { type: 'merge'; document: unknown } // JSON Merge Patch (RFC 7396)
+  | { type: 'json-patch'; operations: JsonPatchOperation[] }; // JSON Patch (RFC 6902)
+
+// Update as written to the order, with its line items priced
+type OrderUpdate = Omit<UpdateOrderRequest, 'items'> & { items?: OrderItem[] };
 
 /**
- * Order service with business logic and event publishing
+ * Order service with business logic and event publishing.
+ * Order writes and their ORDER_* events are committed atomically through the outbox.
  */
 export class OrderService {
-  private readonly repository: DynamoDBRepository<Order, OrderId>;
-  private readonly eventPublisher: EventPublisher;
+  private readonly repository: IndexedRepository<Order, OrderId>;
+  private readonly outbox: Outbox<Order, OrderId>;
+  private readonly pricingEngine: PricingEngine;
+  private readonly productCatalog: ProductCatalogService;
   private readonly logger = createLogger('OrderService');
 
-  constructor(repository?: DynamoDBRepository<Order, OrderId>, eventPublisher?: EventPublisher) {
-    const tableName = getEnvVar('ORDERS_TABLE_NAME', 'Orders');
-    this.repository = repository ?? new DynamoDBRepository<Order, OrderId>(tableName, 'orderId');
-    this.eventPublisher = eventPublisher ?? new EventPublisher();
+  /**
+   * Writes go through the outbox, so a repository other than the default DynamoDB table needs
+   * an outbox that writes to it
+   */
+  constructor(
+    repository?: IndexedRepository<Order, OrderId>,
+    outbox?: Outbox<Order, OrderId>,
+    pricingEngine?: PricingEngine,
+    productCatalog?: ProductCatalogService
+  ) {
+    if (repository !== undefined) {
+      if (outbox === undefined) {
+        throw new Error('An outbox is required when a repository is given');
+      }
+
+      this.repository = repository;
+      this.outbox = outbox;
+    } else {
+      const orders = createRepository<Order, OrderId>({
+        tableName: getEnvVar('ORDERS_TABLE_NAME', 'Orders'),
+        primaryKey: 'orderId',
+        indexes: ORDER_INDEXES,
+      });
+
+      this.repository = orders;
+      this.outbox = outbox ?? createOutbox(orders);
+    }
+
+    this.pricingEngine = pricingEngine ?? new PricingEngine();
+    this.productCatalog = productCatalog ?? new ProductCatalogService();
   }
 
+  /**
+   * Create an order priced from the product catalog; clients only choose products and quantities
+   */
   async createOrder(request: CreateOrderRequest): Promise<Order> {
     this.logger.info('Creating new order', { customerId: request.customerId });
 
     try {
+      const items = await this.productCatalog.resolveItems(request.items);
+
       // Build order using builder pattern
       const order = new OrderBuilder()
         .withOrderId(generateId() as OrderId)
         .withCustomerId(request.customerId)
         .withCustomerEmail(request.customerEmail)
-        .withItems(request.items)
+        .withItems(items)
         .withShippingAddress(request.shippingAddress)
+        .withCouponCode(request.couponCode)
+        .withPricing(this.pricingEngine.price({ ...request, items }))
         .withMetadata(request.metadata)
         .build();
 
-      // Save to repository
-      const savedOrder = await this.repository.save(order);
-
-      // Publish event
-      await this.eventPublisher.publish({
-        type: 'ORDER_CREATED',
-        payload: {
-          orderId: savedOrder.orderId,
-          customerId: savedOrder.customerId,
-          items: savedOrder.items,
-          totalAmount: savedOrder.totalAmount,
-          createdAt: savedOrder.createdAt,
+      // Save order and ORDER_CREATED event atomically
+      await this.outbox.commit({ type: 'put', entity: order }, [
+        {
+          type: 'ORDER_CREATED',
+          payload: {
+            orderId: order.orderId,
+            customerId: order.customerId,
+            items: order.items,
+            totalAmount: order.totalAmount,
+            createdAt: order.createdAt,
+          },
         },
-      });
+      ]);
 
       this.logger.info('Order created successfully', { orderId: order.orderId });
-      return savedOrder;
+      return order;
     } catch (error) {
       this.logger.error('Error creating order', error);
       throw error;
@@ -60,7 +128,8 @@ export class OrderService {
     this.logger.info('Getting order', { orderId });
 
     try {
-      const order = await this.repository.findById(orderId);
+      const stored = await this.repository.findById(orderId);
+      const order = stored && fromStoredOrder(stored);
 
       if (!order) {
         this.logger.info('Order not found', { orderId });
@@ -73,73 +142,221 @@ export class OrderService {
     }
   }
 
-  async updateOrder(request: UpdateOrderRequest): Promise<Order> {
-    this.logger.info('Updating order', { orderId: request.orderId });
+  async updateOrder(request: UpdateOrderRequest, expectedVersion?: number): Promise<Order> {
+    this.logger.info('Updating order', { orderId: request.orderId, expectedVersion });
 
     try {
-      // Get existing order
-      const existingOrder = await this.repository.findById(request.orderId);
+      const existingOrder = await this.loadForWrite(request.orderId, expectedVersion);
+      const { items, ...update } = request;
+      const updatedOrder = await this.applyUpdate(existingOrder, {
+        ...update,
+        ...(items && { items: await this.priceItems(existingOrder, items) }),
+      });
 
-      if (!existingOrder) {
-        throw new Error(`Order not found: ${request.orderId}`);
-      }
+      this.logger.info('Order updated successfully', { orderId: request.orderId });
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error updating order', error, { orderId: request.orderId });
+      throw error;
+    }
+  }
 
-      // Build updates
-      const updates: Partial<Order> = {
-        updatedAt: new Date().toISOString(),
-        version: existingOrder.version + 1,
-        ...(request.items && {
-          items: request.items,
-          totalAmount: request.items.reduce((sum, item) => sum + item.price * item.quantity, 0),
-        }),
-        ...(request.status && { status: request.status as OrderStatus }),
-        ...(request.shippingAddress && { shippingAddress: request.shippingAddress }),
+  /**
+   * Patch the order's editable fields (items as product and quantity, status, shipping address);
+   * the patched fields are validated as a whole before any of them is written
+   */
+  async patchOrder(orderId: OrderId, patch: OrderPatch, expectedVersion?: number): Promise<Order> {
+    this.logger.info('Patching order', { orderId, patchType: patch.type, expectedVersion });
+
+    try {
+      const existingOrder = await this.loadForWrite(orderId, expectedVersion);
+      const editable = {
+        items: existingOrder.items.map(({ productId, quantity }) => ({ productId, quantity })),
+        status: existingOrder.status,
+        shippingAddress: existingOrder.shippingAddress,
       };
 
-      // Update in repository
-      const updatedOrder = await this.repository.update(request.orderId, updates);
+      const patched = orderPatchResultSchema.parse(
+        patch.type === 'merge'
+          ? applyMergePatch(editable, patch.document)
+          : applyJsonPatch(editable, patch.operations)
+      );
 
-      // Publish event
-      await this.eventPublisher.publish({
-        type: 'ORDER_UPDATED',
-        payload: {
-          orderId: updatedOrder.orderId,
-          updates,
-          updatedAt: updatedOrder.updatedAt,
-        },
+      // Only fields the patch changed are written, so an empty patch writes nothing
+      const changed = Object.fromEntries(
+        Object.entries(patched).filter(
+          ([key, value]) => diffJson(editable[key as keyof typeof editable], value).length > 0
+        )
+      ) as Partial<typeof patched>;
+
+      if (Object.keys(changed).length === 0) {
+        this.logger.info('Patch left the order unchanged', { orderId });
+        return existingOrder;
+      }
+
+      const { items, ...update } = changed;
+      const updatedOrder = await this.applyUpdate(existingOrder, {
+        orderId,
+        ...update,
+        ...(items && { items: await this.priceItems(existingOrder, items) }),
       });
 
-      this.logger.info('Order updated successfully', { orderId: request.orderId });
+      this.logger.info('Order patched successfully', { orderId });
       return updatedOrder;
     } catch (error) {
-      this.logger.error('Error updating order', error, { orderId: request.orderId });
+      this.logger.error('Error patching order', error, { orderId });
       throw error;
     }
   }
 
-  async deleteOrder(orderId: OrderId, reason?: string): Promise<void> {
-    this.logger.info('Deleting order', { orderId });
+  /**
+   * Add a line item priced from the catalog; a product already on the order is a conflict,
+   * change its quantity instead
+   */
+  async addItem(
+    orderId: OrderId,
+    request: OrderItemRequest,
+    expectedVersion?: number
+  ): Promise<Order> {
+    const { productId } = request;
+    this.logger.info('Adding order item', { orderId, productId, expectedVersion });
 
     try {
-      // Verify order exists
-      const existingOrder = await this.repository.findById(orderId);
+      const existingOrder = await this.loadForWrite(orderId, expectedVersion);
+      assertItemsEditable(existingOrder);
 
-      if (!existingOrder) {
-        throw new Error(`Order not found: ${orderId}`);
+      if (existingOrder.items.some((existing) => existing.productId === productId)) {
+        throw new ConflictError(`Product ${productId} is already on the order`, {
+          orderId,
+          productId,
+        });
       }
 
-      // Delete from repository
-      await this.repository.delete(orderId);
+      const item = await this.productCatalog.resolveItem(request);
 
-      // Publish event
-      await this.eventPublisher.publish({
-        type: 'ORDER_DELETED',
-        payload: {
+      const updatedOrder = await this.applyUpdate(
+        existingOrder,
+        { orderId, items: [...existingOrder.items, item] },
+        (order) => ({
+          type: 'ORDER_ITEM_ADDED',
+          payload: { orderId, item, totalAmount: order.totalAmount, addedAt: order.updatedAt },
+        })
+      );
+
+      this.logger.info('Order item added successfully', { orderId, productId });
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error adding order item', error, { orderId });
+      throw error;
+    }
+  }
+
+  async changeItemQuantity(
+    orderId: OrderId,
+    productId: string,
+    quantity: number,
+    expectedVersion?: number
+  ): Promise<Order> {
+    this.logger.info('Changing order item quantity', { orderId, productId, expectedVersion });
+
+    try {
+      const existingOrder = await this.loadForWrite(orderId, expectedVersion);
+      assertItemsEditable(existingOrder);
+
+      const item = findItem(existingOrder, productId);
+
+      if (item.quantity === quantity) {
+        return existingOrder;
+      }
+
+      const updatedOrder = await this.applyUpdate(
+        existingOrder,
+        {
           orderId,
-          deletedAt: new Date().toISOString(),
-          reason,
+          items: existingOrder.items.map((existing) =>
+            existing.productId === productId ? { ...existing, quantity } : existing
+          ),
         },
-      });
+        (order) => ({
+          type: 'ORDER_ITEM_QUANTITY_CHANGED',
+          payload: {
+            orderId,
+            productId,
+            fromQuantity: item.quantity,
+            toQuantity: quantity,
+            totalAmount: order.totalAmount,
+            changedAt: order.updatedAt,
+          },
+        })
+      );
+
+      this.logger.info('Order item quantity changed successfully', { orderId, productId });
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error changing order item quantity', error, { orderId });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a line item; the last item cannot be removed, the order is cancelled instead
+   */
+  async removeItem(orderId: OrderId, productId: string, expectedVersion?: number): Promise<Order> {
+    this.logger.info('Removing order item', { orderId, productId, expectedVersion });
+
+    try {
+      const existingOrder = await this.loadForWrite(orderId, expectedVersion);
+      assertItemsEditable(existingOrder);
+
+      const item = findItem(existingOrder, productId);
+
+      if (existingOrder.items.length === 1) {
+        throw new ConflictError('Order must keep at least one item; cancel the order instead', {
+          orderId,
+          productId,
+        });
+      }
+
+      const updatedOrder = await this.applyUpdate(
+        existingOrder,
+        {
+          orderId,
+          items: existingOrder.items.filter((existing) => existing.productId !== productId),
+        },
+        (order) => ({
+          type: 'ORDER_ITEM_REMOVED',
+          payload: { orderId, item, totalAmount: order.totalAmount, removedAt: order.updatedAt },
+        })
+      );
+
+      this.logger.info('Order item removed successfully', { orderId, productId });
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error removing order item', error, { orderId });
+      throw error;
+    }
+  }
+
+  async deleteOrder(orderId: OrderId, reason?: string, expectedVersion?: number): Promise<void> {
+    this.logger.info('Deleting order', { orderId, expectedVersion });
+
+    try {
+      const existingOrder = await this.loadForWrite(orderId, expectedVersion);
+
+      // Delete order and record ORDER_DELETED atomically
+      await this.outbox.commit(
+        { type: 'delete', id: orderId, options: { expectedVersion: existingOrder.version } },
+        [
+          {
+            type: 'ORDER_DELETED',
+            payload: {
+              orderId,
+              deletedAt: new Date().toISOString(),
+              reason,
+            },
+          },
+        ]
+      );
 
       this.logger.info('Order deleted successfully', { orderId });
     } catch (error) {
@@ -148,34 +365,58 @@ export class OrderService {
     }
   }
 
-  async listOrders(
-    customerId?: CustomerId,
-    limit = 20,
-    nextToken?: string
-  ): Promise<{
+  /**
+   * List orders through the narrowest index the query allows: by customer, then by status,
+   * falling back to a filtered scan
+   */
+  async listOrders(query: QueryOrdersParams): Promise<{
     orders: Order[];
     nextToken?: string;
   }> {
-    this.logger.info('Listing orders', { customerId, limit });
+    this.logger.info('Listing orders', { query });
+
+    const { customerId, status, createdFrom, createdTo, sortOrder, limit, nextToken } = query;
 
     try {
+      const createdAt = createdAtRange(createdFrom, createdTo);
+      const filter = orderAttributeFilter(query);
       let result;
 
       if (customerId) {
-        // Query by customer ID using GSI
+        // Query by customer ID using GSI; status becomes a filter
         result = await this.repository.queryByIndex(
-          'CustomerIdIndex',
-          'customerId = :customerId',
-          { ':customerId': customerId },
-          { limit, nextToken }
+          CUSTOMER_INDEX,
+          where.key('customerId', customerId, createdAt),
+          {
+            limit,
+            nextToken,
+            sortOrder,
+            filter: allOf(status && where.eq('status', status as OrderStatus), filter),
+          }
+        );
+      } else if (status) {
+        result = await this.repository.queryByIndex(
+          STATUS_INDEX,
+          where.key('status', status as OrderStatus, createdAt),
+          { limit, nextToken, sortOrder, filter }
         );
       } else {
-        // Scan all orders
-        result = await this.repository.findAll({ limit, nextToken });
+        // Scans have no order, so sorting needs one of the indexed keys
+        if (sortOrder !== undefined) {
+          throw new ValidationError('Sorting requires a customerId or status filter', {
+            sortOrder,
+          });
+        }
+
+        result = await this.repository.findAll({
+          limit,
+          nextToken,
+          filter: allOf(createdAt, filter),
+        });
       }
 
       return {
-        orders: result.items,
+        orders: result.items.map(fromStoredOrder),
         nextToken: result.nextToken,
       };
     } catch (error) {
@@ -183,4 +424,209 @@ export class OrderService {
       throw error;
     }
   }
+
+  /**
+   * Write an update with its ORDER_UPDATED event, plus ORDER_STATUS_CHANGED when the status moves
+   * and any event the caller derives from the updated order
+   */
+  private async applyUpdate(
+    existingOrder: Order,
+    request: OrderUpdate,
+    followUpEvent?: (updatedOrder: Order) => DomainEvent
+  ): Promise<Order> {
+    const fromStatus = existingOrder.status;
+    const toStatus = request.status as OrderStatus | undefined;
+    const statusChanged = toStatus !== undefined && toStatus !== fromStatus;
+
+    // Same rule for every endpoint: PUT and PATCH may resend unchanged values, but not change them
+    if (request.items && diffJson(existingOrder.items, request.items).length > 0) {
+      assertItemsEditable(existingOrder);
+    }
+
+    if (
+      request.shippingAddress &&
+      diffJson(existingOrder.shippingAddress, request.shippingAddress).length > 0
+    ) {
+      assertItemsEditable(existingOrder, 'shipping address');
+    }
+
+    // Items and destination drive every pricing step, so changing either reprices the order
+    const pricing =
+      request.items || request.shippingAddress
+        ? this.pricingEngine.price({
+            items: request.items ?? existingOrder.items,
+            shippingAddress: request.shippingAddress ?? existingOrder.shippingAddress,
+            couponCode: existingOrder.couponCode,
+            previousPricing: existingOrder.pricing,
+          })
+        : undefined;
+
+    // Build updates
+    const updates: Partial<Order> = {
+      updatedAt: new Date().toISOString(),
+      version: existingOrder.version + 1,
+      ...(request.items && { items: request.items }),
+      ...(pricing && { pricing, totalAmount: pricing.total }),
+      ...(request.status && { status: request.status as OrderStatus }),
+      ...(request.shippingAddress && { shippingAddress: request.shippingAddress }),
+    };
+
+    // Enforce the lifecycle against the order as it will look after the update
+    if (statusChanged) {
+      assertTransition(fromStatus, toStatus, { ...existingOrder, ...updates });
+    }
+
+    const updatedOrder: Order = { ...existingOrder, ...updates };
+
+    const events: DomainEvent[] = [
+      {
+        type: 'ORDER_UPDATED',
+        payload: {
+          orderId: updatedOrder.orderId,
+          updates,
+          changes: orderChanges(existingOrder, updatedOrder),
+          updatedAt: updatedOrder.updatedAt,
+        },
+      },
+    ];
+
+    if (statusChanged) {
+      events.push({
+        type: 'ORDER_STATUS_CHANGED',
+        payload: {
+          orderId: updatedOrder.orderId,
+          customerId: updatedOrder.customerId,
+          fromStatus,
+          toStatus,
+          changedAt: updatedOrder.updatedAt,
+        },
+      });
+    }
+
+    if (followUpEvent) {
+      events.push(followUpEvent(updatedOrder));
+    }
+
+    // Conditional write on the version we read, so concurrent writers cannot overwrite each other
+    await this.outbox.commit(
+      {
+        type: 'update',
+        id: existingOrder.orderId,
+        updates,
+        options: { expectedVersion: existingOrder.version },
+      },
+      events
+    );
+
+    return updatedOrder;
+  }
+
+  /**
+   * Price PUT and PATCH lines as the item endpoints do: products already on the order keep the
+   * name and price they were ordered at, new products are priced from the catalog
+   */
+  private async priceItems(
+    existingOrder: Order,
+    requested: readonly OrderItemRequest[]
+  ): Promise<OrderItem[]> {
+    const existing = new Map(existingOrder.items.map((item) => [item.productId, item]));
+    const added = await this.productCatalog.resolveItems(
+      requested.filter((item) => !existing.has(item.productId))
+    );
+    const priced = new Map(added.map((item) => [item.productId, item]));
+
+    return requested.map(({ productId, quantity }) => {
+      const item = existing.get(productId);
+      return item ? { ...item, quantity } : (priced.get(productId) as OrderItem);
+    });
+  }
+
+  private async loadForWrite(orderId: OrderId, expectedVersion?: number): Promise<Order> {
+    const existingOrder = await this.repository.findById(orderId);
+
+    if (!existingOrder) {
+      throw new NotFoundError('Order', orderId);
+    }
+
+    this.assertVersion(existingOrder, expectedVersion);
+    return fromStoredOrder(existingOrder);
+  }
+
+  /**
+   * Reject the request early when the client's version (If-Match) is already stale
+   */
+  private assertVersion(order: Order, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && expectedVersion !== order.version) {
+      throw new ConcurrentModificationError(order.orderId, expectedVersion, order.version);
+    }
+  }
+}
+
+const CUSTOMER_INDEX = 'CustomerCreatedAtIndex';
+const STATUS_INDEX = 'StatusCreatedAtIndex';
+
+// The orders table GSIs, for the local repository backends
+const ORDER_INDEXES: Record<string, IndexDefinition<Order>> = {
+  [CUSTOMER_INDEX]: { partitionKey: 'customerId', sortKey: 'createdAt' },
+  [STATUS_INDEX]: { partitionKey: 'status', sortKey: 'createdAt' },
+};
+
+const where = conditions<Order>();
+
+function findItem(order: Order, productId: string): Order['items'][number] {
+  const item = order.items.find((existing) => existing.productId === productId);
+
+  if (!item) {
+    throw new NotFoundError('Order item', productId);
+  }
+
+  return item;
+}
+
+/**
+ * What an update changed, leaving out the bookkeeping fields every write touches
+ */
+function orderChanges(before: Order, after: Order): JsonPatchOperation[] {
+  return diffJson(before, after).filter(
+    (operation) => operation.path !== '/updatedAt' && operation.path !== '/version'
+  );
+}
+
+/**
+ * createdAt range, usable both as a sort key condition and as a filter
+ */
+function createdAtRange(
+  createdFrom?: string,
+  createdTo?: string
+): SortKeyCondition<Order> | undefined {
+  if (createdFrom !== undefined && createdTo !== undefined) {
+    return where.between('createdAt', createdFrom, createdTo);
+  }
+
+  if (createdFrom !== undefined) {
+    return where.gte('createdAt', createdFrom);
+  }
+
+  return createdTo !== undefined ? where.lte('createdAt', createdTo) : undefined;
+}
+
+/**
+ * Filter on attributes no index covers
+ */
+function orderAttributeFilter(query: QueryOrdersParams): Condition<Order> | undefined {
+  const { minAmount, maxAmount, currency } = query;
+
+  return allOf(
+    minAmount !== undefined && maxAmount !== undefined
+      ? where.between('totalAmount.amount', minAmount, maxAmount)
+      : minAmount !== undefined
+        ? where.gte('totalAmount.amount', minAmount)
+        : maxAmount !== undefined
+          ? where.lte('totalAmount.amount', maxAmount)
+          : undefined,
+    currency !== undefined ? where.eq('totalAmount.currency', currency) : undefined,
+    ...Object.entries(query.metadata ?? {}).map(([key, value]) =>
+      where.eq(`metadata.${key}`, value)
+    )
+  );
 }
@@ -0,0 +1,231 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { IndexedRepository, Repository, WriteOperation } from '../models/entities';
+import { conditions, evaluateCondition } from '../models/conditions';
+import { DomainEvent } from '../models/types';
+import { EventEnvelope, createEnvelope } from '../models/event-envelope';
+import {
+  DynamoDBRepository,
+  DynamoDBTransaction,
+  conditionFailure,
+  writeCondition,
+} from '../utils/dynamodb-repository';
+import { createLogger, getEnvVar } from '../utils/helpers';
+import { EventPublisher } from './event-publisher';
+
+// Sent entries are kept around for a week for auditing, then expired by TTL
+const OUTBOX_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+// Sparse GSI holding only pending entries, sorted by creation time
+const OUTBOX_PENDING_INDEX = 'PendingCreatedAtIndex';
+
+export type OutboxStatus = 'PENDING' | 'SENT';
+
+export interface OutboxEntry {
+  outboxId: string; // Same as the envelope id, so redeliveries carry a stable event id
+  aggregateId: string;
+  eventType: DomainEvent['type'];
+  event: EventEnvelope;
+  status: OutboxStatus;
+  createdAt: string;
+  sentAt?: string;
+  expiresAt?: number; // Set once sent; pending entries never expire
+  pending?: 'PENDING'; // Key of the sparse pending index, dropped once sent
+
+  [key: string]: unknown; // Index signature for DynamoDB compatibility
+}
+
+/**
+ * Transactional outbox: commits an entity write together with the events it produces
+ */
+export interface Outbox<T, ID> {
+  commit(write: WriteOperation<T, ID>, events: DomainEvent[]): Promise<void>;
+}
+
+/**
+ * Outbox backed by a DynamoDB table, written in the same transaction as the entity
+ */
+export class DynamoDBOutbox<T extends { [key: string]: unknown }, ID> implements Outbox<T, ID> {
+  private readonly entries: DynamoDBRepository<OutboxEntry, string>;
+  private readonly source: string;
+  private readonly logger = createLogger('DynamoDBOutbox');
+
+  constructor(
+    private readonly repository: DynamoDBRepository<T, ID>,
+    tableName?: string,
+    source?: string,
+    private readonly client: DynamoDBClient = new DynamoDBClient({})
+  ) {
+    this.entries = new DynamoDBRepository<OutboxEntry, string>(
+      tableName ?? getEnvVar('OUTBOX_TABLE_NAME', 'Outbox'),
+      'outboxId',
+      client
+    );
+    this.source = source ?? getEnvVar('EVENT_SOURCE', 'order-service');
+  }
+
+  async commit(write: WriteOperation<T, ID>, events: DomainEvent[]): Promise<void> {
+    const entries = events.map((event) => createOutboxEntry(createEnvelope(event, this.source)));
+
+    this.logger.info('Committing write with outbox entries', {
+      operation: write.type,
+      eventTypes: entries.map((entry) => entry.eventType),
+    });
+
+    await new DynamoDBTransaction(this.client)
+      .write(this.repository, write)
+      .write(this.entries, ...entries.map((entry) => ({ type: 'put' as const, entity: entry })))
+      .commit();
+  }
+}
+
+/**
+ * Outbox applying writes to any repository and keeping the entries in memory, for tests and
+ * local development; unlike DynamoDBOutbox the write and its entries are not one transaction
+ */
+export class InMemoryOutbox<T, ID> implements Outbox<T, ID> {
+  readonly entries: OutboxEntry[] = [];
+
+  constructor(
+    private readonly repository: Repository<T, ID>,
+    private readonly source = 'order-service'
+  ) {}
+
+  async commit(write: WriteOperation<T, ID>, events: DomainEvent[]): Promise<void> {
+    switch (write.type) {
+      case 'put':
+        await this.repository.save(write.entity);
+        break;
+      case 'update':
+        await this.repository.update(write.id, write.updates, write.options);
+        break;
+      case 'delete':
+        await this.repository.delete(write.id, write.options);
+        break;
+      case 'check': {
+        const condition = writeCondition(write.options);
+        const existing = await this.repository.findById(write.id);
+
+        if (condition && !evaluateCondition(condition, existing ?? {})) {
+          throw conditionFailure(String(write.id), write.options);
+        }
+        break;
+      }
+    }
+
+    this.entries.push(
+      ...events.map((event) => createOutboxEntry(createEnvelope(event, this.source)))
+    );
+  }
+}
+
+/**
+ * Outbox for a repository's backend: transactional on DynamoDB; the local backends keep their
+ * entries in memory and nothing relays them
+ */
+export function createOutbox<T extends { [key: string]: unknown }, ID>(
+  repository: IndexedRepository<T, ID>
+): Outbox<T, ID> {
+  return repository instanceof DynamoDBRepository
+    ? new DynamoDBOutbox(repository)
+    : new InMemoryOutbox(repository);
+}
+
+export interface OutboxSweepResult {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Relays pending outbox entries to EventBridge and marks them sent.
+ * Delivery is at-least-once: an entry is only marked sent after a successful publish.
+ */
+export class OutboxRelay {
+  private readonly logger = createLogger('OutboxRelay');
+
+  constructor(
+    private readonly repository: IndexedRepository<OutboxEntry, string>,
+    private readonly eventPublisher: EventPublisher
+  ) {}
+
+  async relay(entry: OutboxEntry): Promise<void> {
+    if (entry.status !== 'PENDING') {
+      this.logger.debug('Skipping outbox entry that is not pending', { outboxId: entry.outboxId });
+      return;
+    }
+
+    this.logger.info('Relaying outbox entry', {
+      outboxId: entry.outboxId,
+      eventType: entry.eventType,
+    });
+
+    await this.eventPublisher.publishEnvelope(entry.event);
+    const now = new Date();
+    // Rewritten rather than updated, so the entry loses its pending key and leaves the index
+    await this.repository.save({
+      outboxId: entry.outboxId,
+      aggregateId: entry.aggregateId,
+      eventType: entry.eventType,
+      event: entry.event,
+      status: 'SENT',
+      createdAt: entry.createdAt,
+      sentAt: now.toISOString(),
+      expiresAt: Math.floor(now.getTime() / 1000) + OUTBOX_RETENTION_SECONDS,
+    });
+
+    this.logger.info('Outbox entry sent', { outboxId: entry.outboxId });
+  }
+
+  /**
+   * Re-send entries still pending since before `createdBefore`, e.g. after the stream relay
+   * gave up on them; one failed entry does not stop the others. Only pending entries are in
+   * the index queried, so the sweep never reads sent ones
+   */
+  async relayPending(createdBefore: string): Promise<OutboxSweepResult> {
+    const result: OutboxSweepResult = { sent: 0, failed: 0 };
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.repository.queryByIndex(
+        OUTBOX_PENDING_INDEX,
+        where.key('pending', 'PENDING', where.lt('createdAt', createdBefore)),
+        { nextToken }
+      );
+
+      for (const entry of page.items) {
+        try {
+          await this.relay(entry);
+          result.sent++;
+        } catch (error) {
+          this.logger.error('Error re-sending pending outbox entry', error, {
+            outboxId: entry.outboxId,
+          });
+          result.failed++;
+        }
+      }
+
+      nextToken = page.nextToken;
+    } while (nextToken !== undefined);
+
+    this.logger.info('Pending outbox entries swept', { ...result });
+    return result;
+  }
+}
+
+const where = conditions<OutboxEntry>();
+
+/**
+ * Build a pending outbox entry for an enveloped domain event
+ */
+export function createOutboxEntry(event: EventEnvelope): OutboxEntry {
+  const now = new Date();
+
+  return {
+    outboxId: event.id,
+    aggregateId: event.subject,
+    eventType: event.type,
+    event,
+    status: 'PENDING',
+    createdAt: now.toISOString(),
+    pending: 'PENDING',
+  };
+}
@@ -0,0 +1,44 @@
+import { EventBridgeEvent } from 'aws-lambda';
+import { ZodIssue } from 'zod';
+import { QueueService } from './messaging-service';
+import { createLogger, getEnvVar } from '../utils/helpers';
+
+export interface PoisonEventRecord {
+  reason: string;
+  issues: ZodIssue[];
+  receivedAt: string;
+  event: EventBridgeEvent<string, unknown>;
+}
+
+/**
+ * Destination for inbound events that can never be processed
+ */
+export interface PoisonEventSink {
+  send(record: PoisonEventRecord): Promise<void>;
+}
+
+/**
+ * Poison event sink backed by an SQS queue, kept for inspection and replay
+ */
+export class QueuePoisonEventSink implements PoisonEventSink {
+  private readonly queueUrl: string;
+  private readonly logger = createLogger('QueuePoisonEventSink');
+
+  constructor(
+    queueUrl?: string,
+    private readonly queueService: QueueService = new QueueService()
+  ) {
+    this.queueUrl = queueUrl ?? getEnvVar('POISON_EVENTS_QUEUE_URL');
+  }
+
+  async send(record: PoisonEventRecord): Promise<void> {
+    this.logger.warn('Routing event to poison sink', {
+      eventId: record.event.id,
+      detailType: record.event['detail-type'],
+      reason: record.reason,
+      issueCount: record.issues.length,
+    });
+
+    await this.queueService.sendMessage(this.queueUrl, record);
+  }
+}
@@ -0,0 +1,212 @@
+import { Address, Order, PriceBreakdown, PricedLine } from '../models/entities';
+import { PricingConfig, pricingConfigSchema } from '../models/schemas';
+import { ValidationError } from '../models/errors';
+import {
+  Money,
+  addMoney,
+  minMoney,
+  money,
+  multiplyMoney,
+  percentOfMoney,
+  subtractMoney,
+  sumMoney,
+} from '../models/money';
+import { getEnvVar } from '../utils/helpers';
+
+export interface PricingInput {
+  items: Order['items'];
+  shippingAddress: Address;
+  couponCode?: string;
+  previousPricing?: PriceBreakdown; // Set when repricing; see applyCoupon
+}
+
+// Key of the shipping rate used for countries without their own
+const ANY_COUNTRY = '*';
+
+/**
+ * Prices an order in steps: line discounts, order coupon, shipping by destination and weight,
+ * then tax by destination. Every step works in minor units, so the breakdown adds up exactly.
+ */
+export class PricingEngine {
+  private readonly config: PricingConfig;
+
+  constructor(config?: PricingConfig) {
+    this.config = config ?? loadPricingConfig();
+  }
+
+  price(input: PricingInput): PriceBreakdown {
+    const { items, shippingAddress } = input;
+    const [first] = items;
+
+    if (!first) {
+      throw new ValidationError('Order must have at least one item');
+    }
+
+    const currency = first.price.currency;
+    const lines = items.map((item) => this.priceLine(item));
+
+    const subtotal = sumMoney(
+      lines.map((line) => multiplyMoney(line.unitPrice, line.quantity)),
+      currency
+    );
+    const lineDiscounts = sumMoney(
+      lines.map((line) => line.discount),
+      currency
+    );
+    const discounted = subtractMoney(subtotal, lineDiscounts);
+
+    const coupon =
+      input.couponCode !== undefined
+        ? this.applyCoupon(input.couponCode, discounted, input.previousPricing)
+        : undefined;
+    const merchandise = coupon ? subtractMoney(discounted, coupon.discount) : discounted;
+
+    const shipping = this.shippingFee(items, shippingAddress.country, merchandise);
+    const jurisdiction = this.config.tax[shippingAddress.country];
+    const taxRate = jurisdiction?.states[shippingAddress.state] ?? jurisdiction?.rate ?? 0;
+    const tax = percentOfMoney(
+      jurisdiction?.shippingTaxable === true ? addMoney(merchandise, shipping) : merchandise,
+      taxRate
+    );
+
+    return {
+      lines,
+      subtotal,
+      lineDiscounts,
+      ...(coupon && { coupon }),
+      shipping,
+      taxRate,
+      tax,
+      total: sumMoney([merchandise, shipping, tax], currency),
+    };
+  }
+
+  /**
+   * Apply the best line discount the item qualifies for; discounts do not stack
+   */
+  private priceLine(item: Order['items'][number]): PricedLine {
+    const gross = multiplyMoney(item.price, item.quantity);
+    const percentOff = Math.max(
+      0,
+      ...this.config.lineDiscounts
+        .filter(
+          (rule) =>
+            (rule.productId === undefined || rule.productId === item.productId) &&
+            item.quantity >= rule.minQuantity
+        )
+        .map((rule) => rule.percentOff)
+    );
+    const discount = percentOfMoney(gross, percentOff / 100);
+
+    return {
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      discount,
+      total: subtractMoney(gross, discount),
+    };
+  }
+
+  /**
+   * Discount for a coupon, or nothing while the order is below the coupon's minimum;
+   * a coupon never takes more than the amount it applies to. When repricing an order whose
+   * coupon has since been withdrawn, the order keeps the discount it was last priced with.
+   */
+  private applyCoupon(
+    code: string,
+    amount: Money,
+    previousPricing?: PriceBreakdown
+  ): PriceBreakdown['coupon'] {
+    const normalized = code.trim().toUpperCase();
+    const coupon = this.config.coupons[normalized];
+
+    if (!coupon && previousPricing) {
+      const applied = previousPricing.coupon;
+
+      return applied?.code === normalized && applied.discount.currency === amount.currency
+        ? { code: normalized, discount: minMoney(applied.discount, amount) }
+        : undefined;
+    }
+
+    if (!coupon) {
+      throw new ValidationError(`Unknown coupon code: ${code}`, { couponCode: code });
+    }
+
+    const amountOff = coupon.type === 'fixed' ? coupon.amountOff : undefined;
+
+    for (const threshold of [coupon.minSubtotal, amountOff]) {
+      if (threshold !== undefined && threshold.currency !== amount.currency) {
+        throw new ValidationError(`Coupon ${normalized} cannot be used for ${amount.currency}`, {
+          couponCode: normalized,
+          currency: amount.currency,
+        });
+      }
+    }
+
+    if (coupon.minSubtotal !== undefined && amount.amount < coupon.minSubtotal.amount) {
+      return undefined;
+    }
+
+    return {
+      code: normalized,
+      discount:
+        coupon.type === 'fixed'
+          ? minMoney(coupon.amountOff, amount)
+          : percentOfMoney(amount, coupon.percentOff / 100),
+    };
+  }
+
+  /**
+   * Base fee plus a fee per started kilogram, free above the destination's threshold;
+   * destinations without a rate ship free
+   */
+  private shippingFee(items: Order['items'], country: string, merchandise: Money): Money {
+    const rate = this.config.shipping[country] ?? this.config.shipping[ANY_COUNTRY];
+
+    if (!rate) {
+      return money(0, merchandise.currency);
+    }
+
+    const fees = [rate.baseFee, rate.perKg, rate.freeAbove];
+
+    if (fees.some((fee) => fee !== undefined && fee.currency !== merchandise.currency)) {
+      throw new ValidationError(`Shipping to ${country} is not priced in ${merchandise.currency}`, {
+        country,
+        currency: merchandise.currency,
+      });
+    }
+
+    if (rate.freeAbove !== undefined && merchandise.amount >= rate.freeAbove.amount) {
+      return money(0, merchandise.currency);
+    }
+
+    const grams = items.reduce(
+      (total, item) => total + (item.weight ?? this.config.defaultItemWeight) * item.quantity,
+      0
+    );
+
+    return addMoney(rate.baseFee, multiplyMoney(rate.perKg, Math.ceil(grams / 1000)));
+  }
+}
+
+/**
+ * Rate tables from the PRICING_CONFIG environment variable (JSON); without it nothing is
+ * discounted, shipping is free and no tax is charged
+ */
+export function loadPricingConfig(): PricingConfig {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(getEnvVar('PRICING_CONFIG', '{}'));
+  } catch {
+    throw new Error('PRICING_CONFIG is not valid JSON');
+  }
+
+  const result = pricingConfigSchema.safeParse(raw);
+
+  if (!result.success) {
+    throw new Error(`PRICING_CONFIG is invalid: ${result.error.message}`);
+  }
+
+  return result.data;
+}
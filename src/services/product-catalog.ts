@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { Product, ProductStatus, Repository } from '../models/entities';
+import { conditions } from '../models/conditions';
+import {
+  CreateProductRequest,
+  OrderItem,
+  OrderItemRequest,
+  QueryProductsParams,
+  UpdateProductRequest,
+} from '../models/schemas';
+import {
+  ConcurrentModificationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../models/errors';
+import { createRepository } from '../utils/repository-backend';
+import { createLogger, getEnvVar } from '../utils/helpers';
+
+/**
+ * Product catalog: admins maintain products, and orders are priced from it rather than from
+ * what the client sends
+ */
+export class ProductCatalogService {
+  private readonly repository: Repository<Product, string>;
+  private readonly logger = createLogger('ProductCatalogService');
+
+  constructor(repository?: Repository<Product, string>) {
+    this.repository =
+      repository ??
+      createRepository<Product, string>({
+        tableName: getEnvVar('PRODUCTS_TABLE_NAME', 'Products'),
+        primaryKey: 'productId',
+      });
+  }
+
+  async createProduct(request: CreateProductRequest): Promise<Product> {
+    this.logger.info('Creating product', { name: request.name });
+
+    try {
+      const now = new Date().toISOString();
+      const product: Product = {
+        productId: randomUUID(), // Order lines reference products by UUID
+        ...request,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      };
+
+      await this.repository.save(product);
+
+      this.logger.info('Product created successfully', { productId: product.productId });
+      return product;
+    } catch (error) {
+      this.logger.error('Error creating product', error);
+      throw error;
+    }
+  }
+
+  async getProduct(productId: string): Promise<Product | null> {
+    this.logger.info('Getting product', { productId });
+
+    try {
+      return await this.repository.findById(productId);
+    } catch (error) {
+      this.logger.error('Error getting product', error, { productId });
+      throw error;
+    }
+  }
+
+  async listProducts(query: QueryProductsParams): Promise<{
+    products: Product[];
+    nextToken?: string;
+  }> {
+    this.logger.info('Listing products', { query });
+
+    const { status, limit, nextToken } = query;
+
+    try {
+      const result = await this.repository.findAll({
+        limit,
+        nextToken,
+        filter: status !== undefined ? where.eq('status', status) : undefined,
+      });
+
+      return { products: result.items, nextToken: result.nextToken };
+    } catch (error) {
+      this.logger.error('Error listing products', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a product; orders already placed keep the name and price they were priced with
+   */
+  async updateProduct(
+    productId: string,
+    request: UpdateProductRequest,
+    expectedVersion?: number
+  ): Promise<Product> {
+    this.logger.info('Updating product', { productId, expectedVersion });
+
+    try {
+      const existing = await this.repository.findById(productId);
+
+      if (!existing) {
+        throw new NotFoundError('Product', productId);
+      }
+
+      if (expectedVersion !== undefined && expectedVersion !== existing.version) {
+        throw new ConcurrentModificationError(productId, expectedVersion, existing.version);
+      }
+
+      const updates: Partial<Product> = {
+        ...request,
+        updatedAt: new Date().toISOString(),
+        version: existing.version + 1,
+      };
+
+      await this.repository.update(productId, updates, { expectedVersion: existing.version });
+
+      this.logger.info('Product updated successfully', { productId });
+      return { ...existing, ...updates };
+    } catch (error) {
+      this.logger.error('Error updating product', error, { productId });
+      throw error;
+    }
+  }
+
+  /**
+   * Price requested line items from the catalog, recording the product version each was priced
+   * from; unknown products are invalid and discontinued ones can no longer be ordered
+   */
+  async resolveItems(items: readonly OrderItemRequest[]): Promise<OrderItem[]> {
+    const productIds = [...new Set(items.map((item) => item.productId))];
+    const products = await this.repository.batchGet(productIds);
+    const byId = new Map(products.map((product) => [product.productId, product]));
+
+    const unknown = productIds.filter((id) => !byId.has(id));
+
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown products: ${unknown.join(', ')}`, { productIds: unknown });
+    }
+
+    const discontinued = productIds.filter(
+      (id) => byId.get(id)?.status === ProductStatus.DISCONTINUED
+    );
+
+    if (discontinued.length > 0) {
+      throw new ConflictError(`Products are discontinued: ${discontinued.join(', ')}`, {
+        productIds: discontinued,
+      });
+    }
+
+    return items.map(({ productId, quantity }) => {
+      const product = byId.get(productId) as Product;
+
+      return {
+        productId,
+        name: product.name,
+        quantity,
+        price: product.price,
+        ...(product.weight !== undefined && { weight: product.weight }),
+        catalogVersion: product.version,
+      };
+    });
+  }
+
+  async resolveItem(item: OrderItemRequest): Promise<OrderItem> {
+    const [resolved] = await this.resolveItems([item]);
+    return resolved as OrderItem;
+  }
+}
+
+const where = conditions<Product>();
@@ -0,0 +1,192 @@
+import { CircuitOpenError } from '../models/errors';
+import { Logger, createLogger } from './helpers';
+import { classifyError } from './retry-policy';
+
+/**
+ * Circuit breaker for calls to downstream services: once too many recent calls fail, calls
+ * fail fast until a trial call shows the service has recovered
+ */
+
+// closed: calls flow; open: calls fail fast; half-open: a few trial calls probe the service
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold?: number; // Share of failed calls in the window that opens the circuit
+  minimumCalls?: number; // Calls the window needs before the failure rate counts
+  windowMs?: number;
+  openDurationMs?: number; // Time spent open before trial calls are let through
+  halfOpenMaxCalls?: number;
+  isFailure?: (error: unknown) => boolean; // Defaults to transient and throttling errors
+  now?: () => number;
+}
+
+interface CallOutcome {
+  at: number;
+  failed: boolean;
+}
+
+// Module scope outlives the handler, so breakers keep their state across warm invocations
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Shared breaker for a service; options only apply when it is first created
+ */
+export function getCircuitBreaker(
+  service: string,
+  options?: CircuitBreakerOptions
+): CircuitBreaker {
+  let breaker = breakers.get(service);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(service, options);
+    breakers.set(service, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * Tracks call outcomes over a rolling window and opens when the failure rate crosses the
+ * threshold; calls made while open throw CircuitOpenError without reaching the service
+ */
+export class CircuitBreaker {
+  private readonly failureRateThreshold: number;
+  private readonly minimumCalls: number;
+  private readonly windowMs: number;
+  private readonly openDurationMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly now: () => number;
+  private readonly logger: Logger;
+
+  private currentState: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private openedAt = 0;
+  private trialCalls = 0;
+  private trialStartedAt = 0;
+
+  constructor(
+    readonly service: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumCalls = options.minimumCalls ?? 5;
+    this.windowMs = options.windowMs ?? 60000;
+    this.openDurationMs = options.openDurationMs ?? 30000;
+    this.halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1;
+    this.isFailure = options.isFailure ?? ((error): boolean => classifyError(error) !== 'fatal');
+    this.now = options.now ?? Date.now;
+    this.logger = createLogger('CircuitBreaker', { service });
+  }
+
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.now() - this.openedAt >= this.openDurationMs) {
+      return 'half-open';
+    }
+
+    return this.currentState;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.acquire();
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      // Errors that say nothing about the service's health, e.g. bad requests, count as successes
+      if (this.isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+
+      throw error;
+    }
+  }
+
+  private acquire(): void {
+    if (this.currentState === 'open') {
+      const openFor = this.now() - this.openedAt;
+
+      if (openFor < this.openDurationMs) {
+        throw new CircuitOpenError(this.service, Math.ceil((this.openDurationMs - openFor) / 1000));
+      }
+
+      this.transition('half-open');
+    }
+
+    if (this.currentState === 'half-open') {
+      const trialFor = this.now() - this.trialStartedAt;
+
+      // Trials that never settled, e.g. because the invocation timed out, stop blocking calls
+      if (this.trialCalls >= this.halfOpenMaxCalls && trialFor >= this.openDurationMs) {
+        this.logger.warn('Abandoning unsettled trial calls', { trialCalls: this.trialCalls });
+        this.trialCalls = 0;
+      }
+
+      if (this.trialCalls >= this.halfOpenMaxCalls) {
+        throw new CircuitOpenError(
+          this.service,
+          Math.ceil((this.openDurationMs - trialFor) / 1000)
+        );
+      }
+
+      if (this.trialCalls === 0) {
+        this.trialStartedAt = this.now();
+      }
+
+      this.trialCalls++;
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.currentState === 'half-open') {
+      this.transition('closed');
+      return;
+    }
+
+    this.record(false);
+  }
+
+  private recordFailure(): void {
+    if (this.currentState === 'half-open') {
+      this.transition('open');
+      return;
+    }
+
+    this.record(true);
+
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+
+    if (
+      this.currentState === 'closed' &&
+      this.outcomes.length >= this.minimumCalls &&
+      failures / this.outcomes.length >= this.failureRateThreshold
+    ) {
+      this.transition('open');
+    }
+  }
+
+  private record(failed: boolean): void {
+    const now = this.now();
+    this.outcomes = this.outcomes.filter((outcome) => now - outcome.at < this.windowMs);
+    this.outcomes.push({ at: now, failed });
+  }
+
+  private transition(state: CircuitState): void {
+    this.logger.warn('Circuit state changed', { from: this.currentState, to: state });
+
+    this.currentState = state;
+    this.trialCalls = 0;
+
+    if (state === 'open') {
+      this.openedAt = this.now();
+    }
+
+    if (state === 'closed') {
+      this.outcomes = [];
+    }
+  }
+}
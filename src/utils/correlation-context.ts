@@ -0,0 +1,51 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+
+/**
+ * Correlation context carried implicitly through one unit of work, so every log line,
+ * event and message it produces can be traced back to the request that started the flow
+ */
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+// SNS and SQS message attribute carrying the correlation id between services
+export const CORRELATION_ID_ATTRIBUTE = 'correlationId';
+
+export interface CorrelationContext {
+  correlationId: string;
+}
+
+// Ids arrive from clients and other services, so anything that could break a log line is replaced
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const storage = new AsyncLocalStorage<CorrelationContext>();
+
+/**
+ * Run a function with the given correlation id, or a new one when it is missing or malformed
+ */
+export function runWithCorrelation<T>(correlationId: string | undefined, fn: () => T): T {
+  return storage.run({ correlationId: resolveCorrelationId(correlationId) }, fn);
+}
+
+/**
+ * Correlation id of the current unit of work, if one was established
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
+
+/**
+ * Message attributes propagating the current correlation id, empty outside a correlation context
+ */
+export function correlationAttributes(): Record<string, string> {
+  const correlationId = getCorrelationId();
+  return correlationId !== undefined ? { [CORRELATION_ID_ATTRIBUTE]: correlationId } : {};
+}
+
+/**
+ * Accept a well-formed incoming correlation id, otherwise generate one
+ */
+export function resolveCorrelationId(candidate: string | undefined): string {
+  const trimmed = candidate?.trim();
+  return trimmed !== undefined && CORRELATION_ID_PATTERN.test(trimmed) ? trimmed : randomUUID();
+}
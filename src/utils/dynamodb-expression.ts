@@ -0,0 +1,112 @@
+import { Condition, KeyCondition } from '../models/conditions';
+
+/**
+ * Compilation of entity conditions to DynamoDB expression strings
+ */
+
+/**
+ * Placeholder names and values shared by every expression in one request, so key
+ * conditions, filters, updates and write conditions can never collide
+ */
+export class ExpressionAttributes {
+  private readonly names: Record<string, string> = {};
+  private readonly values: Record<string, unknown> = {};
+  private readonly nameByAttribute = new Map<string, string>();
+  private valueCount = 0;
+
+  name(attribute: string): string {
+    let placeholder = this.nameByAttribute.get(attribute);
+
+    if (placeholder === undefined) {
+      placeholder = `#n${this.nameByAttribute.size}`;
+      this.nameByAttribute.set(attribute, placeholder);
+      this.names[placeholder] = attribute;
+    }
+
+    return placeholder;
+  }
+
+  // Dotted paths reach into maps, one placeholder per segment
+  path(path: string): string {
+    return path
+      .split('.')
+      .map((segment) => this.name(segment))
+      .join('.');
+  }
+
+  value(value: unknown): string {
+    const placeholder = `:v${this.valueCount++}`;
+    this.values[placeholder] = value;
+    return placeholder;
+  }
+
+  // DynamoDB rejects empty attribute maps, so absent ones are left undefined
+  toInput(): {
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+  } {
+    return {
+      ExpressionAttributeNames: Object.keys(this.names).length > 0 ? this.names : undefined,
+      ExpressionAttributeValues: this.valueCount > 0 ? this.values : undefined,
+    };
+  }
+}
+
+/**
+ * Compile a condition to a ConditionExpression or FilterExpression
+ */
+export function compileCondition<T>(
+  condition: Condition<T>,
+  attributes: ExpressionAttributes
+): string {
+  switch (condition.kind) {
+    case 'compare':
+      return `${attributes.path(condition.path)} ${condition.operator} ${attributes.value(condition.value)}`;
+    case 'between':
+      return `${attributes.path(condition.path)} BETWEEN ${attributes.value(condition.from)} AND ${attributes.value(condition.to)}`;
+    case 'beginsWith':
+      return `begins_with(${attributes.path(condition.path)}, ${attributes.value(condition.prefix)})`;
+    case 'contains':
+      return `contains(${attributes.path(condition.path)}, ${attributes.value(condition.value)})`;
+    case 'in':
+      if (condition.values.length === 0) {
+        throw new Error(`IN condition on ${condition.path} needs at least one value`);
+      }
+      return `${attributes.path(condition.path)} IN (${condition.values
+        .map((value) => attributes.value(value))
+        .join(', ')})`;
+    case 'exists':
+      return `${condition.exists ? 'attribute_exists' : 'attribute_not_exists'}(${attributes.path(condition.path)})`;
+    case 'and':
+    case 'or':
+      if (condition.conditions.length === 0) {
+        throw new Error(`${condition.kind.toUpperCase()} condition needs at least one operand`);
+      }
+      return condition.conditions
+        .map((operand) => `(${compileCondition(operand, attributes)})`)
+        .join(` ${condition.kind.toUpperCase()} `);
+    case 'not':
+      return `NOT (${compileCondition(condition.condition, attributes)})`;
+  }
+}
+
+/**
+ * Compile a key condition to a KeyConditionExpression
+ */
+export function compileKeyCondition<T>(
+  keyCondition: KeyCondition<T>,
+  attributes: ExpressionAttributes
+): string {
+  const partition = `${attributes.path(keyCondition.partitionKey)} = ${attributes.value(keyCondition.value)}`;
+  const sortKey = keyCondition.sortKey;
+
+  if (sortKey === undefined) {
+    return partition;
+  }
+
+  if (sortKey.kind === 'compare' && sortKey.operator === '<>') {
+    throw new Error(`Sort key condition on ${sortKey.path} cannot use <>`);
+  }
+
+  return `${partition} AND ${compileCondition(sortKey, attributes)}`;
+}
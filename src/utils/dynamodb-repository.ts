@@ -7,24 +7,56 @@ import {
   DeleteCommand,
   QueryCommand,
   ScanCommand,
+  BatchGetCommand,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
 } from '@aws-sdk/lib-dynamodb';
-import { Repository, PaginatedResult, QueryParams } from '../models/entities';
-import { Logger, createLogger, retryWithBackoff } from './helpers';
+import {
+  IndexedRepository,
+  PaginatedResult,
+  QueryParams,
+  WriteOperation,
+  WriteOptions,
+} from '../models/entities';
+import { AttributePath, Condition, KeyCondition, allOf } from '../models/conditions';
+import { ConcurrentModificationError, ConflictError, DomainError } from '../models/errors';
+import { ExpressionAttributes, compileCondition, compileKeyCondition } from './dynamodb-expression';
+import { Logger, createLogger } from './helpers';
+import { RetryPolicy } from './retry-policy';
+import { PaginationTokenCodec, loadPaginationTokenCodec } from './pagination-token';
+
+// Attribute compared against WriteOptions.expectedVersion
+const VERSION_ATTRIBUTE = 'version';
+
+// DynamoDB request size limits
+const BATCH_GET_LIMIT = 100;
+const BATCH_WRITE_LIMIT = 25;
+const TRANSACTION_LIMIT = 100;
+
+// Shared across repositories in the same container, created on first paginated read
+let defaultPaginationTokens: PaginationTokenCodec | undefined;
+
+export type TransactWriteItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+type WriteRequest = NonNullable<BatchWriteCommandInput['RequestItems']>[string][number];
 
 /**
  * Generic DynamoDB Repository with resilience patterns
  */
-export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implements Repository<
-  T,
-  ID
-> {
+export class DynamoDBRepository<
+  T extends { [key: string]: unknown },
+  ID,
+> implements IndexedRepository<T, ID> {
   private readonly docClient: DynamoDBDocumentClient;
   private readonly logger: Logger;
 
   constructor(
     private readonly tableName: string,
     private readonly primaryKey: string,
-    client: DynamoDBClient = new DynamoDBClient({})
+    private readonly client: DynamoDBClient = new DynamoDBClient({}),
+    private readonly paginationTokens?: PaginationTokenCodec,
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy()
   ) {
     this.docClient = DynamoDBDocumentClient.from(client, {
       marshallOptions: {
@@ -39,7 +71,7 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
     this.logger.info('Finding item by ID', { id });
 
     try {
-      const result = await retryWithBackoff(
+      const result = await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new GetCommand({
@@ -62,23 +94,24 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
     }
   }
 
-  async findAll(params?: QueryParams): Promise<PaginatedResult<T>> {
+  async findAll(params?: QueryParams<T>): Promise<PaginatedResult<T>> {
     this.logger.info('Finding all items', { params });
 
+    const attributes = new ExpressionAttributes();
+    const filterExpression = params?.filter && compileCondition(params.filter, attributes);
+    const scope = { filterExpression, ...attributes.toInput() };
+    const exclusiveStartKey = this.fromPageToken(params?.nextToken, scope);
+
     try {
-      const result = await retryWithBackoff(
+      const result = await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new ScanCommand({
               TableName: this.tableName,
+              FilterExpression: filterExpression,
+              ...attributes.toInput(),
               Limit: params?.limit,
-              ExclusiveStartKey:
-                params?.nextToken !== null && params?.nextToken !== undefined
-                  ? (JSON.parse(Buffer.from(params.nextToken, 'base64').toString()) as Record<
-                      string,
-                      unknown
-                    >)
-                  : undefined,
+              ExclusiveStartKey: exclusiveStartKey,
             })
           ),
         { logger: this.logger }
@@ -87,10 +120,7 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
       return {
         items: (result.Items ?? []) as T[],
 
-        nextToken:
-          result.LastEvaluatedKey !== null && result.LastEvaluatedKey !== undefined
-            ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
-            : undefined,
+        nextToken: this.toPageToken(result.LastEvaluatedKey, scope),
         count: result.Count ?? 0,
       };
     } catch (error) {
@@ -103,7 +133,7 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
     this.logger.info('Saving item', { entity });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new PutCommand({
@@ -121,32 +151,16 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
     }
   }
 
-  async update(id: ID, updates: Partial<T>): Promise<T> {
-    this.logger.info('Updating item', { id, updates });
+  async update(id: ID, updates: Partial<T>, options?: WriteOptions<T>): Promise<T> {
+    this.logger.info('Updating item', { id, updates, expectedVersion: options?.expectedVersion });
 
     try {
-      // Build update expression
-      const updateExpressionParts: string[] = [];
-      const expressionAttributeNames: Record<string, string> = {};
-      const expressionAttributeValues: Record<string, unknown> = {};
-
-      Object.entries(updates).forEach(([key, value], index) => {
-        const attrName = `#attr${index}`;
-        const attrValue = `:val${index}`;
-        updateExpressionParts.push(`${attrName} = ${attrValue}`);
-        expressionAttributeNames[attrName] = key;
-        expressionAttributeValues[attrValue] = value;
-      });
-
-      const result = await retryWithBackoff(
+      const result = await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new UpdateCommand({
               TableName: this.tableName,
-              Key: { [this.primaryKey]: id },
-              UpdateExpression: `SET ${updateExpressionParts.join(', ')}`,
-              ExpressionAttributeNames: expressionAttributeNames,
-              ExpressionAttributeValues: expressionAttributeValues,
+              ...this.buildUpdateInput(id, updates, options),
               ReturnValues: 'ALL_NEW',
             })
           ),
@@ -155,56 +169,145 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
 
       return result.Attributes as T;
     } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        this.logger.warn('Write condition failed on update', {
+          id: String(id),
+          expectedVersion: options?.expectedVersion,
+        });
+        throw conditionFailure(String(id), options);
+      }
+
       this.logger.error('Error updating item', error, { id, updates });
       throw error;
     }
   }
 
-  async delete(id: ID): Promise<void> {
-    this.logger.info('Deleting item', { id });
+  async delete(id: ID, options?: WriteOptions<T>): Promise<void> {
+    this.logger.info('Deleting item', { id, expectedVersion: options?.expectedVersion });
 
     try {
-      await retryWithBackoff(
+      await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new DeleteCommand({
               TableName: this.tableName,
-              Key: { [this.primaryKey]: id },
+              ...this.buildKeyInput(id, options),
             })
           ),
         { logger: this.logger }
       );
     } catch (error) {
+      if (isConditionalCheckFailure(error)) {
+        this.logger.warn('Write condition failed on delete', {
+          id: String(id),
+          expectedVersion: options?.expectedVersion,
+        });
+        throw conditionFailure(String(id), options);
+      }
+
       this.logger.error('Error deleting item', error, { id });
       throw error;
     }
   }
 
+  /**
+   * Get many items by ID, in the order requested; IDs with no item are skipped
+   */
+  async batchGet(ids: ID[]): Promise<T[]> {
+    // BatchGetItem rejects duplicate keys within a request
+    const uniqueIds = [...new Map(ids.map((id) => [String(id), id])).values()];
+    this.logger.info('Batch getting items', { count: uniqueIds.length });
+
+    const found = new Map<string, T>();
+
+    try {
+      for (const chunk of chunks(uniqueIds, BATCH_GET_LIMIT)) {
+        let pending = chunk.map((id) => ({ [this.primaryKey]: id }));
+
+        await this.retryPolicy.execute(
+          async () => {
+            const result = await this.docClient.send(
+              new BatchGetCommand({ RequestItems: { [this.tableName]: { Keys: pending } } })
+            );
+
+            for (const item of result.Responses?.[this.tableName] ?? []) {
+              found.set(String(item[this.primaryKey]), item as T);
+            }
+
+            // Throttled keys come back unprocessed; only those are requested again
+            pending = result.UnprocessedKeys?.[this.tableName]?.Keys ?? [];
+
+            if (pending.length > 0) {
+              throw new UnprocessedItemsError(pending.length);
+            }
+          },
+          { logger: this.logger }
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error batch getting items', error, { count: uniqueIds.length });
+      throw error;
+    }
+
+    return uniqueIds
+      .map((id) => found.get(String(id)))
+      .filter((item): item is T => item !== undefined);
+  }
+
+  async batchSave(entities: T[]): Promise<void> {
+    this.logger.info('Batch saving items', { count: entities.length });
+
+    await this.batchWrite(entities.map((entity) => ({ PutRequest: { Item: entity } })));
+  }
+
+  async batchDelete(ids: ID[]): Promise<void> {
+    this.logger.info('Batch deleting items', { count: ids.length });
+
+    await this.batchWrite(ids.map((id) => ({ DeleteRequest: { Key: { [this.primaryKey]: id } } })));
+  }
+
+  /**
+   * Apply writes and condition checks to several items of this table atomically
+   */
+  async transact(operations: WriteOperation<T, ID>[]): Promise<void> {
+    await new DynamoDBTransaction(this.client, this.retryPolicy)
+      .write(this, ...operations)
+      .commit();
+  }
+
   async queryByIndex(
     indexName: string,
-    keyConditionExpression: string,
-    expressionAttributeValues: Record<string, unknown>,
-    params?: QueryParams
+    keyCondition: KeyCondition<T>,
+    params?: QueryParams<T>
   ): Promise<PaginatedResult<T>> {
+    const attributes = new ExpressionAttributes();
+    const keyConditionExpression = compileKeyCondition(keyCondition, attributes);
+    const filterExpression = params?.filter && compileCondition(params.filter, attributes);
+
+    const scope = {
+      indexName,
+      keyConditionExpression,
+      filterExpression,
+      ...attributes.toInput(),
+      sortOrder: params?.sortOrder,
+    };
+    const exclusiveStartKey = this.fromPageToken(params?.nextToken, scope);
+
     this.logger.info('Querying by index', { indexName, keyConditionExpression });
 
     try {
-      const result = await retryWithBackoff(
+      const result = await this.retryPolicy.execute(
         async () =>
           this.docClient.send(
             new QueryCommand({
               TableName: this.tableName,
               IndexName: indexName,
               KeyConditionExpression: keyConditionExpression,
-              ExpressionAttributeValues: expressionAttributeValues,
+              FilterExpression: filterExpression,
+              ...attributes.toInput(),
+              ScanIndexForward: params?.sortOrder !== 'desc',
               Limit: params?.limit,
-              ExclusiveStartKey:
-                params?.nextToken !== null && params?.nextToken !== undefined
-                  ? (JSON.parse(Buffer.from(params.nextToken, 'base64').toString()) as Record<
-                      string,
-                      unknown
-                    >)
-                  : undefined,
+              ExclusiveStartKey: exclusiveStartKey,
             })
           ),
         { logger: this.logger }
@@ -213,10 +316,7 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
       return {
         items: (result.Items ?? []) as T[],
 
-        nextToken:
-          result.LastEvaluatedKey !== null && result.LastEvaluatedKey !== undefined
-            ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
-            : undefined,
+        nextToken: this.toPageToken(result.LastEvaluatedKey, scope),
         count: result.Count ?? 0,
       };
     } catch (error) {
@@ -224,4 +324,291 @@ export class DynamoDBRepository<T extends { [key: string]: unknown }, ID> implem
       throw error;
     }
   }
+
+  /**
+   * Resume point of a page request; the token must have been issued for the same query,
+   * so a client cannot forge keys or replay a cursor against other filters
+   */
+  private fromPageToken(
+    nextToken: string | undefined,
+    scope: object
+  ): Record<string, unknown> | undefined {
+    if (nextToken === undefined) {
+      return undefined;
+    }
+
+    return this.getPaginationTokens().decode(nextToken, { tableName: this.tableName, ...scope });
+  }
+
+  private toPageToken(
+    lastEvaluatedKey: Record<string, unknown> | undefined,
+    scope: object
+  ): string | undefined {
+    if (lastEvaluatedKey === undefined) {
+      return undefined;
+    }
+
+    return this.getPaginationTokens().encode(lastEvaluatedKey, {
+      tableName: this.tableName,
+      ...scope,
+    });
+  }
+
+  private getPaginationTokens(): PaginationTokenCodec {
+    return this.paginationTokens ?? (defaultPaginationTokens ??= loadPaginationTokenCodec());
+  }
+
+  /**
+   * Describe a write as a TransactWriteItems entry so it can commit atomically with other items
+   */
+  toTransactItem(operation: WriteOperation<T, ID>): TransactWriteItem {
+    switch (operation.type) {
+      case 'put':
+        return { Put: { TableName: this.tableName, Item: operation.entity } };
+      case 'update':
+        return {
+          Update: {
+            TableName: this.tableName,
+            ...this.buildUpdateInput(operation.id, operation.updates, operation.options),
+          },
+        };
+      case 'delete':
+        return {
+          Delete: {
+            TableName: this.tableName,
+            ...this.buildKeyInput(operation.id, operation.options),
+          },
+        };
+      case 'check': {
+        const { ConditionExpression, ...input } = this.buildKeyInput(
+          operation.id,
+          operation.options
+        );
+
+        if (ConditionExpression === undefined) {
+          throw new Error(`Condition check on ${String(operation.id)} has no condition`);
+        }
+
+        return { ConditionCheck: { TableName: this.tableName, ...input, ConditionExpression } };
+      }
+    }
+  }
+
+  /**
+   * Run BatchWriteItem in chunks; not atomic, and a failure may leave earlier chunks applied
+   */
+  private async batchWrite(requests: WriteRequest[]): Promise<void> {
+    try {
+      for (const chunk of chunks(requests, BATCH_WRITE_LIMIT)) {
+        let pending = chunk;
+
+        await this.retryPolicy.execute(
+          async () => {
+            const result = await this.docClient.send(
+              new BatchWriteCommand({ RequestItems: { [this.tableName]: pending } })
+            );
+
+            pending = result.UnprocessedItems?.[this.tableName] ?? [];
+
+            if (pending.length > 0) {
+              throw new UnprocessedItemsError(pending.length);
+            }
+          },
+          { logger: this.logger }
+        );
+      }
+    } catch (error) {
+      this.logger.error('Error batch writing items', error, { count: requests.length });
+      throw error;
+    }
+  }
+
+  private buildUpdateInput(
+    id: ID,
+    updates: Partial<T>,
+    options?: WriteOptions<T>
+  ): {
+    Key: Record<string, unknown>;
+    UpdateExpression: string;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+  } {
+    const attributes = new ExpressionAttributes();
+
+    // Build update expression
+    const assignments = Object.entries(updates).map(
+      ([key, value]) => `${attributes.name(key)} = ${attributes.value(value)}`
+    );
+    const condition = writeCondition(options);
+
+    return {
+      Key: { [this.primaryKey]: id },
+      UpdateExpression: `SET ${assignments.join(', ')}`,
+      ConditionExpression: condition && compileCondition(condition, attributes),
+      ...attributes.toInput(),
+    };
+  }
+
+  private buildKeyInput(
+    id: ID,
+    options?: WriteOptions<T>
+  ): {
+    Key: Record<string, unknown>;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+  } {
+    const attributes = new ExpressionAttributes();
+    const condition = writeCondition(options);
+
+    return {
+      Key: { [this.primaryKey]: id },
+      ConditionExpression: condition && compileCondition(condition, attributes),
+      ...attributes.toInput(),
+    };
+  }
+}
+
+/**
+ * Atomic write across one or more repositories, committed with a single TransactWriteItems
+ * call. If any condition fails nothing is written, and the error names the failing item.
+ */
+export class DynamoDBTransaction {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly logger = createLogger('DynamoDBTransaction');
+  private readonly items: TransactWriteItem[] = [];
+  // Operation behind each item, to report which condition failed
+  private readonly operations: Array<WriteOperation<unknown, unknown>> = [];
+
+  constructor(
+    client: DynamoDBClient = new DynamoDBClient({}),
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
+    this.docClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: {
+        removeUndefinedValues: true,
+        convertClassInstanceToMap: true,
+      },
+    });
+  }
+
+  write<T extends { [key: string]: unknown }, ID>(
+    repository: DynamoDBRepository<T, ID>,
+    ...operations: WriteOperation<T, ID>[]
+  ): this {
+    for (const operation of operations) {
+      this.items.push(repository.toTransactItem(operation));
+      this.operations.push(operation as WriteOperation<unknown, unknown>);
+    }
+
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    if (this.items.length === 0) {
+      return;
+    }
+
+    if (this.items.length > TRANSACTION_LIMIT) {
+      throw new Error(`A transaction holds at most ${TRANSACTION_LIMIT} items`);
+    }
+
+    this.logger.info('Committing transaction', {
+      operations: this.operations.map((operation) => operation.type),
+    });
+
+    try {
+      await this.retryPolicy.execute(
+        async () => this.docClient.send(new TransactWriteCommand({ TransactItems: this.items })),
+        { logger: this.logger }
+      );
+    } catch (error) {
+      const index = failedConditionIndex(error);
+      const operation = index !== undefined ? this.operations[index] : undefined;
+
+      if (operation && operation.type !== 'put') {
+        this.logger.warn('Transaction condition failed', {
+          operation: operation.type,
+          id: String(operation.id),
+        });
+        throw conditionFailure(String(operation.id), operation.options);
+      }
+
+      this.logger.error('Error committing transaction', error, { count: this.items.length });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Condition a write must meet: the expected version, if any, and the caller's condition
+ */
+export function writeCondition<T>(options?: WriteOptions<T>): Condition<T> | undefined {
+  const versionCondition: Condition<T> | undefined =
+    options?.expectedVersion !== undefined
+      ? {
+          kind: 'compare',
+          path: VERSION_ATTRIBUTE as AttributePath<T>,
+          operator: '=',
+          value: options.expectedVersion,
+        }
+      : undefined;
+
+  return allOf(versionCondition, options?.condition);
+}
+
+/**
+ * A failed version check is a concurrent modification; any other condition is a conflict
+ */
+export function conditionFailure<T>(id: string, options?: WriteOptions<T>): DomainError {
+  return options?.condition
+    ? new ConflictError('Write condition was not met', {
+        entityId: id,
+        expectedVersion: options.expectedVersion,
+      })
+    : new ConcurrentModificationError(id, options?.expectedVersion);
+}
+
+/**
+ * Position of the item whose condition cancelled a transaction. Such cancellations are
+ * deterministic and must not be retried, unlike conflicts with concurrent transactions
+ */
+function failedConditionIndex(error: unknown): number | undefined {
+  if (!(error instanceof Error) || error.name !== 'TransactionCanceledException') {
+    return undefined;
+  }
+
+  const reasons = (error as Error & { CancellationReasons?: Array<{ Code?: string }> })
+    .CancellationReasons;
+  const index = reasons?.findIndex((reason) => reason.Code === 'ConditionalCheckFailed') ?? -1;
+  return index >= 0 ? index : undefined;
+}
+
+// Raised to retry a batch request until DynamoDB has processed every item. Unprocessed
+// items are the result of throttling, so retries back off as for throttling errors
+class UnprocessedItemsError extends Error {
+  readonly $retryable = { throttling: true };
+
+  constructor(count: number) {
+    super(`${count} items were not processed`);
+    this.name = 'UnprocessedItemsError';
+  }
+}
+
+function chunks<E>(items: E[], size: number): E[][] {
+  const result: E[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    result.push(items.slice(i, i + size));
+  }
+
+  return result;
+}
+
+/**
+ * Conditional check failures are deterministic and must not be retried
+ */
+export function isConditionalCheckFailure(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ConditionalCheckFailedException';
 }
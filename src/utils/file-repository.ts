@@ -0,0 +1,64 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { InMemoryRepository, InMemoryRepositoryOptions } from './in-memory-repository';
+
+/**
+ * Repository persisted to a local JSON file, for local development without DynamoDB.
+ * The file is read once and rewritten after every write, so it suits a single process.
+ */
+export class FileRepository<T extends { [key: string]: unknown }, ID> extends InMemoryRepository<
+  T,
+  ID
+> {
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    primaryKey: string,
+    options: InMemoryRepositoryOptions<T> = {}
+  ) {
+    super(primaryKey, options);
+  }
+
+  protected load(): Promise<void> {
+    return (this.loaded ??= this.readItems());
+  }
+
+  protected persist(): Promise<void> {
+    const contents = JSON.stringify([...this.items.values()], null, 2);
+
+    // Writes are chained so an older snapshot can never replace a newer one
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+
+        // Replace the file in one step so a crash never leaves it half-written
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, contents, 'utf8');
+        await rename(tempPath, this.filePath);
+      });
+
+    return this.writes;
+  }
+
+  private async readItems(): Promise<void> {
+    let contents: string;
+
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        this.logger.info('Repository file not found, starting empty', { filePath: this.filePath });
+        return;
+      }
+
+      throw error;
+    }
+
+    for (const item of JSON.parse(contents) as T[]) {
+      this.items.set(String(item[this.primaryKey]), item);
+    }
+  }
+}
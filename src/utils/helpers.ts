@@ -1,7 +1,8 @@
 import { ApiResponse, ErrorCode } from '../models/types';
+import { getCorrelationId } from './correlation-context';
 
 /**
- * Logger utility with structured logging
+ * Logger utility with structured logging; lines carry the current correlation id
  */
 export class Logger {
   constructor(
@@ -30,11 +31,13 @@ export class Logger {
   }
 
   private log(level: string, message: string, data?: Record<string, unknown>): void {
+    const correlationId = getCorrelationId();
     const logEntry = {
       timestamp: new Date().toISOString(),
       level,
       context: this.context,
       message,
+      ...(correlationId !== undefined && { correlationId }),
       ...this.additionalContext,
       ...data,
     };
@@ -83,51 +86,6 @@ export function errorResponse<E = Error>(
   };
 }
 
-/**
- * Retry utility with exponential backoff
- */
-export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  options: {
-    maxRetries?: number;
-    initialDelayMs?: number;
-    maxDelayMs?: number;
-    backoffMultiplier?: number;
-    logger?: Logger;
-  } = {}
-): Promise<T> {
-  const {
-    maxRetries = 3,
-    initialDelayMs = 100,
-    maxDelayMs = 10000,
-    backoffMultiplier = 2,
-    logger,
-  } = options;
-
-  let lastError: unknown;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error;
-
-      if (attempt === maxRetries) {
-        break;
-      }
-
-      const delay = Math.min(initialDelayMs * Math.pow(backoffMultiplier, attempt), maxDelayMs);
-      logger?.warn(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`, {
-        error: error instanceof Error ? error.message : String(error),
-      });
-
-      await sleep(delay);
-    }
-  }
-
-  throw lastError;
-}
-
 /**
  * Sleep utility
  */
@@ -0,0 +1,171 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+  DeleteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyResult } from 'aws-lambda';
+import { Logger, createLogger } from './helpers';
+import { RetryPolicy } from './retry-policy';
+
+/**
+ * Persistence for idempotency keys and the responses they produced
+ */
+
+export type IdempotencyStatus = 'IN_PROGRESS' | 'COMPLETED';
+
+export interface IdempotencyRecord {
+  idempotencyKey: string;
+  fingerprint: string;
+  status: IdempotencyStatus;
+  response?: APIGatewayProxyResult;
+  expiresAt: number; // Epoch seconds, doubles as the DynamoDB TTL attribute
+}
+
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  // Returns false when an unexpired record already holds the key
+  acquire(record: IdempotencyRecord): Promise<boolean>;
+  complete(key: string, response: APIGatewayProxyResult, expiresAt: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Idempotency store backed by a DynamoDB table with TTL on `expiresAt`
+ */
+export class DynamoDBIdempotencyStore implements IdempotencyStore {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly tableName: string,
+    client: DynamoDBClient = new DynamoDBClient({}),
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy()
+  ) {
+    this.docClient = DynamoDBDocumentClient.from(client, {
+      marshallOptions: { removeUndefinedValues: true },
+    });
+    this.logger = createLogger('DynamoDBIdempotencyStore', { tableName });
+  }
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const result = await this.retryPolicy.execute(
+      async () =>
+        this.docClient.send(
+          new GetCommand({
+            TableName: this.tableName,
+            Key: { idempotencyKey: key },
+            ConsistentRead: true,
+          })
+        ),
+      { logger: this.logger }
+    );
+
+    const record = result.Item as IdempotencyRecord | undefined;
+
+    // TTL deletion is lazy, so expired records may still be returned
+    return record !== undefined && !isExpired(record) ? record : null;
+  }
+
+  async acquire(record: IdempotencyRecord): Promise<boolean> {
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: record,
+          ConditionExpression: 'attribute_not_exists(idempotencyKey) OR expiresAt < :now',
+          ExpressionAttributeValues: { ':now': nowInSeconds() },
+        })
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
+        return false;
+      }
+
+      this.logger.error('Error acquiring idempotency key', error, { key: record.idempotencyKey });
+      throw error;
+    }
+  }
+
+  async complete(key: string, response: APIGatewayProxyResult, expiresAt: number): Promise<void> {
+    await this.retryPolicy.execute(
+      async () =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { idempotencyKey: key },
+            UpdateExpression:
+              'SET #status = :status, #response = :response, expiresAt = :expiresAt',
+            ExpressionAttributeNames: { '#status': 'status', '#response': 'response' },
+            ExpressionAttributeValues: {
+              ':status': 'COMPLETED',
+              ':response': response,
+              ':expiresAt': expiresAt,
+            },
+          })
+        ),
+      { logger: this.logger }
+    );
+  }
+
+  async release(key: string): Promise<void> {
+    await this.retryPolicy.execute(
+      async () =>
+        this.docClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { idempotencyKey: key },
+          })
+        ),
+      { logger: this.logger }
+    );
+  }
+}
+
+/**
+ * In-memory idempotency store for tests and local development
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  get(key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(key);
+    return Promise.resolve(record !== undefined && !isExpired(record) ? { ...record } : null);
+  }
+
+  acquire(record: IdempotencyRecord): Promise<boolean> {
+    const existing = this.records.get(record.idempotencyKey);
+
+    if (existing !== undefined && !isExpired(existing)) {
+      return Promise.resolve(false);
+    }
+
+    this.records.set(record.idempotencyKey, { ...record });
+    return Promise.resolve(true);
+  }
+
+  complete(key: string, response: APIGatewayProxyResult, expiresAt: number): Promise<void> {
+    const existing = this.records.get(key);
+
+    if (existing !== undefined) {
+      this.records.set(key, { ...existing, status: 'COMPLETED', response, expiresAt });
+    }
+    return Promise.resolve();
+  }
+
+  release(key: string): Promise<void> {
+    this.records.delete(key);
+    return Promise.resolve();
+  }
+}
+
+function isExpired(record: IdempotencyRecord): boolean {
+  return record.expiresAt < nowInSeconds();
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
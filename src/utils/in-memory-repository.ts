@@ -0,0 +1,244 @@
+import { randomBytes } from 'crypto';
+import {
+  IndexDefinition,
+  IndexedRepository,
+  PaginatedResult,
+  QueryParams,
+  SortOrder,
+  WriteOptions,
+} from '../models/entities';
+import {
+  Condition,
+  KeyCondition,
+  attributeValue,
+  compareValues,
+  evaluateCondition,
+} from '../models/conditions';
+import { conditionFailure, writeCondition } from './dynamodb-repository';
+import { PaginationTokenCodec } from './pagination-token';
+import { Logger, createLogger } from './helpers';
+
+export interface InMemoryRepositoryOptions<T> {
+  indexes?: Record<string, IndexDefinition<T>>;
+  paginationTokens?: PaginationTokenCodec; // Defaults to a codec with a per-instance secret
+}
+
+/**
+ * Repository holding entities in memory with the same semantics as DynamoDBRepository:
+ * scans in key order, sparse secondary indexes, limits applied before filters, opaque
+ * pagination tokens, conditional writes and updates merged into the stored item
+ */
+export class InMemoryRepository<
+  T extends { [key: string]: unknown },
+  ID,
+> implements IndexedRepository<T, ID> {
+  protected readonly items = new Map<string, T>();
+  protected readonly logger: Logger;
+  private readonly indexes: Record<string, IndexDefinition<T>>;
+  private readonly paginationTokens: PaginationTokenCodec;
+
+  constructor(
+    protected readonly primaryKey: string,
+    options: InMemoryRepositoryOptions<T> = {}
+  ) {
+    this.indexes = options.indexes ?? {};
+    this.paginationTokens =
+      options.paginationTokens ?? new PaginationTokenCodec(randomBytes(32).toString('hex'));
+    this.logger = createLogger('InMemoryRepository', { primaryKey });
+  }
+
+  async findById(id: ID): Promise<T | null> {
+    await this.load();
+    const item = this.items.get(String(id));
+    return item ? structuredClone(item) : null;
+  }
+
+  async batchGet(ids: ID[]): Promise<T[]> {
+    await this.load();
+
+    return [...new Set(ids.map(String))].flatMap((id) => {
+      const item = this.items.get(id);
+      return item ? [structuredClone(item)] : [];
+    });
+  }
+
+  async findAll(params?: QueryParams<T>): Promise<PaginatedResult<T>> {
+    await this.load();
+
+    const position = (item: Record<string, unknown>): unknown[] => [item[this.primaryKey]];
+    const items = [...this.items.values()].sort((left, right) =>
+      compareTuples(position(left), position(right))
+    );
+
+    return this.page(items, position, { filter: params?.filter }, params);
+  }
+
+  async save(entity: T): Promise<T> {
+    await this.load();
+    this.items.set(String(entity[this.primaryKey]), structuredClone(entity));
+    await this.persist();
+    return entity;
+  }
+
+  async update(id: ID, updates: Partial<T>, options?: WriteOptions<T>): Promise<T> {
+    await this.load();
+
+    if (this.primaryKey in updates) {
+      throw new Error(`Cannot update key attribute ${this.primaryKey}`);
+    }
+
+    const existing = this.assertWriteCondition(id, options);
+
+    // Like UpdateItem, an unconditional update of a missing item creates it
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    );
+    const updated = {
+      ...(existing ?? { [this.primaryKey]: id }),
+      ...structuredClone(definedUpdates),
+    } as T;
+
+    this.items.set(String(id), updated);
+    await this.persist();
+    return structuredClone(updated);
+  }
+
+  async delete(id: ID, options?: WriteOptions<T>): Promise<void> {
+    await this.load();
+    this.assertWriteCondition(id, options);
+
+    if (this.items.delete(String(id))) {
+      await this.persist();
+    }
+  }
+
+  async queryByIndex(
+    indexName: string,
+    keyCondition: KeyCondition<T>,
+    params?: QueryParams<T>
+  ): Promise<PaginatedResult<T>> {
+    await this.load();
+
+    const index = this.indexes[indexName];
+
+    if (!index) {
+      throw new Error(`Unknown index: ${indexName}`);
+    }
+
+    if (keyCondition.partitionKey !== index.partitionKey) {
+      throw new Error(`Index ${indexName} is partitioned on ${index.partitionKey}`);
+    }
+
+    if (keyCondition.sortKey && keyCondition.sortKey.path !== index.sortKey) {
+      throw new Error(`Index ${indexName} has no sort key ${keyCondition.sortKey.path}`);
+    }
+
+    const sortOrder: SortOrder = params?.sortOrder ?? 'asc';
+    const sortKey = index.sortKey;
+    const position = (item: Record<string, unknown>): unknown[] =>
+      sortKey !== undefined
+        ? [attributeValue(item, sortKey), item[this.primaryKey]]
+        : [item[this.primaryKey]];
+
+    const items = [...this.items.values()]
+      .filter(
+        (item) =>
+          compareValues(attributeValue(item, index.partitionKey), keyCondition.value) === 0 &&
+          (sortKey === undefined || attributeValue(item, sortKey) !== undefined) &&
+          (!keyCondition.sortKey || evaluateCondition(keyCondition.sortKey, item))
+      )
+      .sort((left, right) => {
+        const order = compareTuples(position(left), position(right));
+        return sortOrder === 'desc' ? -order : order;
+      });
+
+    return this.page(
+      items,
+      position,
+      { indexName, keyCondition, filter: params?.filter, sortOrder },
+      params
+    );
+  }
+
+  // Loads stored items before an operation; nothing to do when held only in memory
+  protected load(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  // Stores items after a write; nothing to do when held only in memory
+  protected persist(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Evaluate a write's condition against the stored item, which counts as having no
+   * attributes when missing; returns the stored item
+   */
+  private assertWriteCondition(id: ID, options?: WriteOptions<T>): T | undefined {
+    const existing = this.items.get(String(id));
+    const condition = writeCondition(options);
+
+    if (condition && !evaluateCondition(condition, existing ?? {})) {
+      this.logger.warn('Write condition failed', {
+        id: String(id),
+        expectedVersion: options?.expectedVersion,
+      });
+      throw conditionFailure(String(id), options);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Read one page from items in query order: `limit` items are evaluated, then filtered,
+   * and the token carries the position of the last evaluated one
+   */
+  private page(
+    items: T[],
+    position: (item: Record<string, unknown>) => unknown[],
+    scope: { filter?: Condition<T>; sortOrder?: SortOrder; [key: string]: unknown },
+    params?: QueryParams<T>
+  ): PaginatedResult<T> {
+    const startPosition =
+      params?.nextToken !== undefined
+        ? (this.paginationTokens.decode(params.nextToken, scope).position as unknown[])
+        : undefined;
+
+    // Resume after the last evaluated position, even if that item has since been deleted
+    const remaining = startPosition
+      ? items.filter((item) => {
+          const order = compareTuples(position(item), startPosition);
+          return scope.sortOrder === 'desc' ? order < 0 : order > 0;
+        })
+      : items;
+
+    const evaluated = remaining.slice(0, params?.limit ?? remaining.length);
+    const matching = evaluated.filter(
+      (item) => !scope.filter || evaluateCondition(scope.filter, item)
+    );
+    const lastEvaluated = evaluated[evaluated.length - 1];
+
+    return {
+      items: matching.map((item) => structuredClone(item)),
+      nextToken:
+        lastEvaluated && remaining.length > evaluated.length
+          ? this.paginationTokens.encode({ position: position(lastEvaluated) }, scope)
+          : undefined,
+      count: matching.length,
+    };
+  }
+}
+
+function compareTuples(left: unknown[], right: unknown[]): number {
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    // Mixed types, which a DynamoDB key attribute cannot hold, fall back to string order
+    const order =
+      compareValues(left[i], right[i]) ?? compareValues(String(left[i]), String(right[i])) ?? 0;
+
+    if (order !== 0) {
+      return order;
+    }
+  }
+
+  return 0;
+}
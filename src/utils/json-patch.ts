@@ -0,0 +1,264 @@
+import { isDeepStrictEqual } from 'util';
+import { JsonPatchOperation } from '../models/types';
+import { ConflictError, ValidationError } from '../models/errors';
+
+/**
+ * JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) for JSON documents; documents passed
+ * in are never modified
+ */
+
+export const MERGE_PATCH_MEDIA_TYPE = 'application/merge-patch+json';
+export const JSON_PATCH_MEDIA_TYPE = 'application/json-patch+json';
+
+type JsonObject = Record<string, unknown>;
+
+// Assigning this key would replace the object's prototype instead of adding a member
+const FORBIDDEN_KEY = '__proto__';
+
+/**
+ * Apply a merge patch: objects merge recursively, null removes a member, anything else replaces
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  return merge(structuredClone(target), patch);
+}
+
+/**
+ * Apply JSON Patch operations in order; the patch fails as a whole when any operation does.
+ * Failed `test` operations are conflicts with the current document, any other failure means
+ * the patch cannot apply to it.
+ */
+export function applyJsonPatch(document: unknown, operations: JsonPatchOperation[]): unknown {
+  return operations.reduce((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      if (error instanceof PatchError) {
+        throw new ValidationError(`JSON Patch operation ${index} failed: ${error.message}`, {
+          operation: index,
+          path: operation.path,
+        });
+      }
+
+      if (error instanceof ConflictError) {
+        throw new ConflictError(error.message, { operation: index, path: operation.path });
+      }
+
+      throw error;
+    }
+  }, structuredClone(document));
+}
+
+/**
+ * JSON Patch turning `before` into `after`: objects and arrays are compared member by member,
+ * so a change deep inside a document yields a single operation on its path
+ */
+export function diffJson(before: unknown, after: unknown, path = ''): JsonPatchOperation[] {
+  if (isDeepStrictEqual(before, after)) {
+    return [];
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const operations: JsonPatchOperation[] = [];
+    const common = Math.min(before.length, after.length);
+
+    for (let i = 0; i < common; i++) {
+      operations.push(...diffJson(before[i], after[i], `${path}/${i}`));
+    }
+
+    // Trailing removals run from the end so earlier indexes stay valid
+    for (let i = before.length - 1; i >= common; i--) {
+      operations.push({ op: 'remove', path: `${path}/${i}` });
+    }
+
+    for (let i = common; i < after.length; i++) {
+      operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+    }
+
+    return operations;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const operations: JsonPatchOperation[] = [];
+    const previous = definedMembers(before);
+    const next = definedMembers(after);
+
+    for (const [key, value] of Object.entries(previous)) {
+      const memberPath = `${path}/${escapeToken(key)}`;
+
+      operations.push(
+        ...(key in next
+          ? diffJson(value, next[key], memberPath)
+          : [{ op: 'remove' as const, path: memberPath }])
+      );
+    }
+
+    for (const [key, value] of Object.entries(next)) {
+      if (!(key in previous)) {
+        operations.push({ op: 'add', path: `${path}/${escapeToken(key)}`, value });
+      }
+    }
+
+    return operations;
+  }
+
+  return [{ op: 'replace', path, value: after }];
+}
+
+// Raised while applying one operation; applyJsonPatch adds which operation failed
+class PatchError extends Error {}
+
+function merge(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return structuredClone(patch);
+  }
+
+  const result: JsonObject = isObject(target) ? target : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (key === FORBIDDEN_KEY) {
+      throw new ValidationError(`Merge patch member ${FORBIDDEN_KEY} is not allowed`);
+    }
+
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = merge(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const path = parsePointer(operation.path);
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, path, structuredClone(operation.value));
+    case 'remove':
+      return removeValue(document, path);
+    case 'replace':
+      return path.length === 0
+        ? structuredClone(operation.value)
+        : addValue(removeValue(document, path), path, structuredClone(operation.value));
+    case 'move': {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new PatchError('a value cannot be moved into one of its own members');
+      }
+
+      const from = parsePointer(operation.from);
+      const value = getValue(document, from);
+      return addValue(removeValue(document, from), path, value);
+    }
+    case 'copy':
+      return addValue(
+        document,
+        path,
+        structuredClone(getValue(document, parsePointer(operation.from)))
+      );
+    case 'test':
+      if (!isDeepStrictEqual(getValue(document, path), operation.value)) {
+        throw new ConflictError(`JSON Patch test failed at ${operation.path}`);
+      }
+      return document;
+  }
+}
+
+function addValue(document: unknown, path: string[], value: unknown): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+
+  const parent = getValue(document, path.slice(0, -1));
+  const key = path[path.length - 1] as string;
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : parseIndex(key, parent.length + 1);
+    parent.splice(index, 0, value);
+  } else if (isObject(parent)) {
+    parent[key] = value;
+  } else {
+    throw new PatchError(`no object or array to add ${key} to`);
+  }
+
+  return document;
+}
+
+function removeValue(document: unknown, path: string[]): unknown {
+  if (path.length === 0) {
+    throw new PatchError('the whole document cannot be removed');
+  }
+
+  const parent = getValue(document, path.slice(0, -1));
+  const key = path[path.length - 1] as string;
+  getValue(parent, [key]);
+
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(key, parent.length), 1);
+  } else {
+    delete (parent as JsonObject)[key];
+  }
+
+  return document;
+}
+
+function getValue(document: unknown, path: string[]): unknown {
+  let current = document;
+
+  for (const key of path) {
+    if (Array.isArray(current)) {
+      current = current[parseIndex(key, current.length)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, key)) {
+      current = current[key];
+    } else {
+      throw new PatchError(`path /${path.map(escapeToken).join('/')} does not exist`);
+    }
+  }
+
+  return current;
+}
+
+// Array index below the exclusive upper bound, without leading zeros
+function parseIndex(token: string, bound: number): number {
+  const index = /^(0|[1-9][0-9]*)$/.test(token) ? Number(token) : NaN;
+
+  if (!(index < bound)) {
+    throw new PatchError(`array index ${token} is out of range`);
+  }
+
+  return index;
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+
+  if (!pointer.startsWith('/')) {
+    throw new PatchError(`${pointer} is not a JSON Pointer`);
+  }
+
+  const tokens = pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (tokens.includes(FORBIDDEN_KEY)) {
+    throw new PatchError(`${FORBIDDEN_KEY} is not allowed in a path`);
+  }
+
+  return tokens;
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Members set to undefined are absent once serialized, so they are left out of diffs
+function definedMembers(value: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(value).filter(([, member]) => member !== undefined));
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
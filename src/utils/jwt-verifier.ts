@@ -0,0 +1,279 @@
+import {
+  KeyObject,
+  createHmac,
+  createPublicKey,
+  createSecretKey,
+  timingSafeEqual,
+  verify,
+} from 'crypto';
+import { ExternalServiceFailureError, UnauthorizedError } from '../models/errors';
+import { createLogger } from './helpers';
+
+/**
+ * JWT verification for HS256 and RS256 tokens using node crypto only
+ */
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Source of verification keys, looked up by the token's key id and algorithm
+ */
+export interface KeyResolver {
+  getKey(alg: JwtAlgorithm, kid?: string): Promise<KeyObject>;
+}
+
+export interface JwtVerifierOptions {
+  issuer?: string;
+  audience?: string;
+  clockToleranceSeconds?: number;
+}
+
+const SUPPORTED_ALGORITHMS: ReadonlySet<string> = new Set<JwtAlgorithm>(['HS256', 'RS256']);
+
+/**
+ * Resolver for keys known up front: an HS256 shared secret and/or RS256 public keys by kid
+ */
+export class StaticKeyResolver implements KeyResolver {
+  private readonly secret?: KeyObject;
+  private readonly publicKeys: Map<string, KeyObject>;
+
+  constructor(options: { secret?: string; publicKeys?: Record<string, string | KeyObject> }) {
+    this.secret =
+      options.secret !== undefined ? createSecretKey(Buffer.from(options.secret)) : undefined;
+    this.publicKeys = new Map(
+      Object.entries(options.publicKeys ?? {}).map(([kid, key]) => [
+        kid,
+        typeof key === 'string' ? createPublicKey(key) : key,
+      ])
+    );
+  }
+
+  getKey(alg: JwtAlgorithm, kid?: string): Promise<KeyObject> {
+    if (alg === 'HS256') {
+      return this.secret ? Promise.resolve(this.secret) : rejectKey('No HS256 secret configured');
+    }
+
+    // A single configured public key is used for tokens without a kid
+    const key =
+      kid !== undefined
+        ? this.publicKeys.get(kid)
+        : this.publicKeys.size === 1
+          ? [...this.publicKeys.values()][0]
+          : undefined;
+
+    return key ? Promise.resolve(key) : rejectKey(`Unknown signing key: ${kid ?? '(none)'}`);
+  }
+}
+
+interface Jwk {
+  kid?: string;
+  kty: string;
+  use?: string;
+  [parameter: string]: unknown;
+}
+
+/**
+ * Resolver fetching RS256 public keys from a JWKS endpoint, cached across warm invocations.
+ * Unknown key ids trigger a refresh at most once per cooldown, so tokens with made-up kids
+ * cannot make every request call the endpoint.
+ */
+export class JwksKeyResolver implements KeyResolver {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+  private readonly logger = createLogger('JwksKeyResolver');
+
+  constructor(
+    private readonly jwksUrl: string,
+    private readonly cacheTtlMs = 10 * 60 * 1000,
+    private readonly refreshCooldownMs = 30 * 1000,
+    private readonly fetchTimeoutMs = 5 * 1000
+  ) {}
+
+  async getKey(alg: JwtAlgorithm, kid?: string): Promise<KeyObject> {
+    if (alg !== 'RS256') {
+      return rejectKey(`JWKS does not provide ${alg} keys`);
+    }
+
+    if (kid === undefined) {
+      return rejectKey('Token has no key id');
+    }
+
+    const age = Date.now() - this.fetchedAt;
+
+    // Refresh when stale, or on an unknown kid in case the keys were rotated
+    if (age > this.cacheTtlMs || (!this.keys.has(kid) && age > this.refreshCooldownMs)) {
+      await this.refresh();
+    }
+
+    const key = this.keys.get(kid);
+    return key ? key : rejectKey(`Unknown signing key: ${kid}`);
+  }
+
+  private async refresh(): Promise<void> {
+    this.logger.info('Fetching JWKS', { jwksUrl: this.jwksUrl });
+
+    let keys: Jwk[];
+
+    try {
+      const response = await fetch(this.jwksUrl, {
+        signal: AbortSignal.timeout(this.fetchTimeoutMs),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch JWKS: ${response.status}`);
+      }
+
+      ({ keys } = (await response.json()) as { keys: Jwk[] });
+
+      if (!Array.isArray(keys)) {
+        throw new Error('JWKS document has no keys array');
+      }
+    } catch (error) {
+      this.logger.error('Error fetching JWKS', error, { jwksUrl: this.jwksUrl });
+      throw new ExternalServiceFailureError('JWKS', error);
+    }
+
+    this.keys = new Map(
+      keys
+        .filter(
+          (jwk: Jwk | null) =>
+            jwk?.kty === 'RSA' && jwk.use !== 'enc' && typeof jwk.kid === 'string'
+        )
+        .flatMap((jwk) => {
+          const key = this.importKey(jwk);
+          return key ? [[jwk.kid as string, key] as const] : [];
+        })
+    );
+    this.fetchedAt = Date.now();
+  }
+
+  // A malformed key is left out, so tokens signed with it fail as an unknown key
+  private importKey(jwk: Jwk): KeyObject | undefined {
+    try {
+      return createPublicKey({ key: jwk, format: 'jwk' });
+    } catch (error) {
+      this.logger.warn('Skipping malformed JWK', { kid: jwk.kid, error: String(error) });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Verifies signature and registered claims of compact-serialized JWTs
+ */
+export class JwtVerifier {
+  private readonly clockToleranceSeconds: number;
+
+  constructor(
+    private readonly keyResolver: KeyResolver,
+    private readonly options: JwtVerifierOptions = {}
+  ) {
+    this.clockToleranceSeconds = options.clockToleranceSeconds ?? 30;
+  }
+
+  async verify(token: string): Promise<JwtClaims> {
+    const parts = token.split('.');
+
+    if (parts.length !== 3) {
+      throw new UnauthorizedError('Malformed token');
+    }
+
+    const [encodedHeader = '', encodedPayload = '', encodedSignature = ''] = parts;
+    const header = decodeSegment<JwtHeader>(encodedHeader);
+
+    if (!SUPPORTED_ALGORITHMS.has(header.alg)) {
+      throw new UnauthorizedError(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const alg = header.alg as JwtAlgorithm;
+    const key = await this.keyResolver.getKey(alg, header.kid);
+    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (!verifySignature(alg, key, signingInput, signature)) {
+      throw new UnauthorizedError('Invalid token signature');
+    }
+
+    const claims = decodeSegment<JwtClaims>(encodedPayload);
+    this.assertClaims(claims);
+    return claims;
+  }
+
+  private assertClaims(claims: JwtClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.exp !== 'number') {
+      throw new UnauthorizedError('Token has no expiry');
+    }
+
+    if (now - this.clockToleranceSeconds >= claims.exp) {
+      throw new UnauthorizedError('Token has expired');
+    }
+
+    if (claims.nbf !== undefined && now + this.clockToleranceSeconds < claims.nbf) {
+      throw new UnauthorizedError('Token is not yet valid');
+    }
+
+    if (this.options.issuer !== undefined && claims.iss !== this.options.issuer) {
+      throw new UnauthorizedError('Token issuer is not trusted');
+    }
+
+    if (this.options.audience !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+      if (!audiences.includes(this.options.audience)) {
+        throw new UnauthorizedError('Token audience is not accepted');
+      }
+    }
+  }
+}
+
+function verifySignature(
+  alg: JwtAlgorithm,
+  key: KeyObject,
+  signingInput: string,
+  signature: Buffer
+): boolean {
+  if (alg === 'HS256') {
+    const expected = createHmac('sha256', key).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  return verify('RSA-SHA256', Buffer.from(signingInput), key, signature);
+}
+
+function decodeSegment<T extends object>(segment: string): T {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new UnauthorizedError('Malformed token');
+  }
+
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new UnauthorizedError('Malformed token');
+  }
+
+  return decoded as T;
+}
+
+function rejectKey(message: string): Promise<never> {
+  return Promise.reject(new UnauthorizedError(message));
+}
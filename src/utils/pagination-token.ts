@@ -0,0 +1,118 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { ValidationError } from '../models/errors';
+import { getEnvVar } from './helpers';
+
+/**
+ * Opaque pagination cursors: the last evaluated key is encrypted and authenticated with
+ * AES-256-GCM, bound to the query it came from and valid for a limited time
+ */
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+interface CursorPayload {
+  key: Record<string, unknown>;
+  exp: number; // Epoch seconds
+}
+
+export class PaginationTokenCodec {
+  private readonly key: Buffer;
+
+  constructor(
+    secret: string,
+    private readonly ttlSeconds = 3600
+  ) {
+    if (secret === '') {
+      throw new Error('Pagination token secret must not be empty');
+    }
+
+    // Any secret length maps onto the 256-bit key AES-256 needs
+    this.key = createHash('sha256').update(secret).digest();
+  }
+
+  /**
+   * Encode a LastEvaluatedKey for the query described by `scope`
+   */
+  encode(lastKey: Record<string, unknown>, scope: unknown): string {
+    const payload: CursorPayload = {
+      key: lastKey,
+      exp: Math.floor(Date.now() / 1000) + this.ttlSeconds,
+    };
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    cipher.setAAD(scopeDigest(scope));
+
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(payload), 'utf8'),
+      cipher.final(),
+    ]);
+
+    return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url');
+  }
+
+  /**
+   * Decode a token issued for the same query; forged, altered, foreign or expired
+   * tokens are rejected with a ValidationError
+   */
+  decode(token: string, scope: unknown): Record<string, unknown> {
+    const bytes = Buffer.from(token, 'base64url');
+
+    if (bytes.length <= IV_BYTES + TAG_BYTES) {
+      throw invalidToken();
+    }
+
+    let payload: CursorPayload;
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.key, bytes.subarray(0, IV_BYTES));
+      decipher.setAAD(scopeDigest(scope));
+      decipher.setAuthTag(bytes.subarray(bytes.length - TAG_BYTES));
+
+      const plaintext = Buffer.concat([
+        decipher.update(bytes.subarray(IV_BYTES, bytes.length - TAG_BYTES)),
+        decipher.final(),
+      ]);
+      payload = JSON.parse(plaintext.toString('utf8')) as CursorPayload;
+    } catch {
+      // Authentication fails for tampered tokens and for tokens from a different query
+      throw invalidToken();
+    }
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new ValidationError('Pagination token has expired', { field: 'nextToken' });
+    }
+
+    return payload.key;
+  }
+}
+
+/**
+ * Codec keyed by the PAGINATION_TOKEN_SECRET environment variable. Services create it when they
+ * are constructed, so a deployment without the secret fails at cold start rather than on the
+ * first paginated read.
+ */
+export function loadPaginationTokenCodec(): PaginationTokenCodec {
+  const secret = process.env.PAGINATION_TOKEN_SECRET;
+
+  if (secret === undefined || secret === '') {
+    throw new Error(
+      'PAGINATION_TOKEN_SECRET is required but not set; see DEPLOYMENT-SETUP.md for the SSM parameter'
+    );
+  }
+
+  const ttlSeconds = Number(getEnvVar('PAGINATION_TOKEN_TTL_SECONDS', '3600'));
+
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0) {
+    throw new Error('PAGINATION_TOKEN_TTL_SECONDS must be a positive number of seconds');
+  }
+
+  return new PaginationTokenCodec(secret, ttlSeconds);
+}
+
+function scopeDigest(scope: unknown): Buffer {
+  return createHash('sha256').update(JSON.stringify(scope)).digest();
+}
+
+function invalidToken(): ValidationError {
+  return new ValidationError('Invalid pagination token', { field: 'nextToken' });
+}
@@ -0,0 +1,198 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { Logger, createLogger } from './helpers';
+import { isConditionalCheckFailure } from './dynamodb-repository';
+
+/**
+ * Token bucket persistence for rate limiting
+ */
+
+export interface RateLimit {
+  capacity: number; // Burst size, and the limit advertised to clients
+  refillPerSecond: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // Until the next token, 0 when allowed
+  resetSeconds: number; // Until the bucket is full again
+}
+
+export interface TokenBucket {
+  tokens: number;
+  refilledAt: number; // Epoch milliseconds
+}
+
+export interface RateLimitStore {
+  // Takes one token from the bucket for `key`, if one is available
+  consume(key: string, limit: RateLimit): Promise<RateLimitDecision>;
+}
+
+/**
+ * Refill a bucket for the time elapsed and take one token from it
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  limit: RateLimit,
+  now: number
+): { bucket: TokenBucket; decision: RateLimitDecision } {
+  const elapsedSeconds = bucket ? Math.max(0, now - bucket.refilledAt) / 1000 : 0;
+  const available = bucket
+    ? Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond)
+    : limit.capacity;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, refilledAt: now },
+    decision: {
+      allowed,
+      limit: limit.capacity,
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / limit.refillPerSecond),
+      resetSeconds: Math.ceil((limit.capacity - tokens) / limit.refillPerSecond),
+    },
+  };
+}
+
+/**
+ * Rate limit store keeping one item per key with the time its bucket is full again. Taking a
+ * token moves that time one refill interval forward in a single conditional update, so
+ * concurrent invocations cannot both spend the same token and contention never fails a request.
+ */
+export class DynamoDBRateLimitStore implements RateLimitStore {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly tableName: string,
+    client: DynamoDBClient = new DynamoDBClient({}),
+    private readonly maxAttempts = 3
+  ) {
+    this.docClient = DynamoDBDocumentClient.from(client);
+    this.logger = createLogger('DynamoDBRateLimitStore', { tableName });
+  }
+
+  async consume(key: string, limit: RateLimit): Promise<RateLimitDecision> {
+    const intervalMs = 1000 / limit.refillPerSecond;
+    // A bucket has a token left while it is at most this far from full
+    const maxDebtMs = (limit.capacity - 1) * intervalMs;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const now = Date.now();
+      const outcome = await this.take(key, now, intervalMs, now + maxDebtMs);
+
+      if (outcome) {
+        const untilFullMs = outcome.fullAt - now;
+
+        return {
+          allowed: outcome.taken,
+          limit: limit.capacity,
+          remaining: outcome.taken ? Math.floor(limit.capacity - untilFullMs / intervalMs) : 0,
+          retryAfterSeconds: outcome.taken ? 0 : Math.ceil((untilFullMs - maxDebtMs) / 1000),
+          resetSeconds: Math.ceil(untilFullMs / 1000),
+        };
+      }
+
+      this.logger.debug('Rate limit bucket changed concurrently, retrying', { key, attempt });
+    }
+
+    // Only reachable under sustained contention on one key, which is itself a reason to deny
+    this.logger.warn('Rate limit bucket kept changing, denying request', { key });
+    const retryAfterSeconds = Math.ceil(intervalMs / 1000);
+
+    return {
+      allowed: false,
+      limit: limit.capacity,
+      remaining: 0,
+      retryAfterSeconds,
+      resetSeconds: Math.ceil((maxDebtMs + intervalMs) / 1000),
+    };
+  }
+
+  /**
+   * Take a token from a bucket that is already refilling, or else from a full one; undefined
+   * when another invocation changed the bucket in between
+   */
+  private async take(
+    key: string,
+    now: number,
+    intervalMs: number,
+    maxFullAt: number
+  ): Promise<{ taken: boolean; fullAt: number } | undefined> {
+    // A bucket untouched until it is full again carries no state worth keeping
+    const expiresAt = Math.ceil((maxFullAt + intervalMs) / 1000) + 60;
+
+    try {
+      const result = await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { bucketKey: key },
+          UpdateExpression: 'SET fullAt = fullAt + :interval, expiresAt = :expiresAt',
+          ConditionExpression: 'fullAt > :now AND fullAt <= :maxFullAt',
+          ExpressionAttributeValues: {
+            ':interval': intervalMs,
+            ':expiresAt': expiresAt,
+            ':now': now,
+            ':maxFullAt': maxFullAt,
+          },
+          ReturnValues: 'UPDATED_NEW',
+          ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+        })
+      );
+
+      return { taken: true, fullAt: (result.Attributes as { fullAt: number }).fullAt };
+    } catch (error) {
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+
+      const { Item: item } = error as ConditionalCheckFailedException;
+      const current = item ? (unmarshall(item) as { fullAt?: unknown }).fullAt : undefined;
+
+      if (typeof current === 'number' && current > maxFullAt) {
+        return { taken: false, fullAt: current };
+      }
+    }
+
+    try {
+      await this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { bucketKey: key },
+          UpdateExpression: 'SET fullAt = :fullAt, expiresAt = :expiresAt',
+          ConditionExpression: 'attribute_not_exists(fullAt) OR fullAt <= :now',
+          ExpressionAttributeValues: {
+            ':fullAt': now + intervalMs,
+            ':expiresAt': expiresAt,
+            ':now': now,
+          },
+        })
+      );
+
+      return { taken: true, fullAt: now + intervalMs };
+    } catch (error) {
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+
+      return undefined;
+    }
+  }
+}
+
+/**
+ * In-memory rate limit store for tests and local development
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  consume(key: string, limit: RateLimit): Promise<RateLimitDecision> {
+    const { bucket, decision } = takeToken(this.buckets.get(key), limit, Date.now());
+    this.buckets.set(key, bucket);
+    return Promise.resolve(decision);
+  }
+}
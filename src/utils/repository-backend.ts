@@ -0,0 +1,70 @@
+import { join } from 'path';
+import { IndexDefinition, IndexedRepository } from '../models/entities';
+import { DynamoDBRepository } from './dynamodb-repository';
+import { FileRepository } from './file-repository';
+import { InMemoryRepository } from './in-memory-repository';
+import { loadPaginationTokenCodec } from './pagination-token';
+import { getEnvVar } from './helpers';
+
+export type RepositoryBackend = 'dynamodb' | 'memory' | 'file';
+
+const REPOSITORY_BACKENDS: readonly RepositoryBackend[] = ['dynamodb', 'memory', 'file'];
+
+export interface TableDefinition<T> {
+  tableName: string;
+  primaryKey: string;
+  indexes?: Record<string, IndexDefinition<T>>; // DynamoDB tables define theirs in serverless.yml
+}
+
+// Local repositories are shared per table, so every service in the process sees the same data
+const localRepositories = new Map<string, unknown>();
+
+/**
+ * Storage backend from REPOSITORY_BACKEND: `dynamodb` (default), or `memory` or `file` for
+ * local development without DynamoDB
+ */
+export function loadRepositoryBackend(): RepositoryBackend {
+  const backend = getEnvVar('REPOSITORY_BACKEND', 'dynamodb');
+
+  if (!REPOSITORY_BACKENDS.some((known) => known === backend)) {
+    throw new Error(
+      `REPOSITORY_BACKEND must be one of ${REPOSITORY_BACKENDS.join(', ')}, got ${backend}`
+    );
+  }
+
+  return backend as RepositoryBackend;
+}
+
+/**
+ * Repository for a table on the configured backend; the file backend keeps one JSON file per
+ * table under REPOSITORY_DATA_DIR (default `.data`)
+ */
+export function createRepository<T extends { [key: string]: unknown }, ID>(
+  table: TableDefinition<T>,
+  backend: RepositoryBackend = loadRepositoryBackend()
+): IndexedRepository<T, ID> {
+  if (backend === 'dynamodb') {
+    return new DynamoDBRepository<T, ID>(
+      table.tableName,
+      table.primaryKey,
+      undefined,
+      loadPaginationTokenCodec()
+    );
+  }
+
+  const filePath = join(getEnvVar('REPOSITORY_DATA_DIR', '.data'), `${table.tableName}.json`);
+  const key = backend === 'file' ? filePath : `memory:${table.tableName}`;
+  let repository = localRepositories.get(key) as IndexedRepository<T, ID> | undefined;
+
+  if (repository === undefined) {
+    const options = { indexes: table.indexes };
+
+    repository =
+      backend === 'file'
+        ? new FileRepository<T, ID>(filePath, table.primaryKey, options)
+        : new InMemoryRepository<T, ID>(table.primaryKey, options);
+    localRepositories.set(key, repository);
+  }
+
+  return repository;
+}
@@ -0,0 +1,300 @@
+import { DomainError } from '../models/errors';
+import { Logger } from './helpers';
+
+/**
+ * Retry policy for calls to AWS services: errors are classified before retrying, delays are
+ * jittered, and retries stop when the time budget or the Lambda invocation runs out
+ */
+
+// retryable: transient, retry after a short delay; throttled: retry after backing off further;
+// fatal: will fail the same way again
+export type ErrorClass = 'retryable' | 'throttled' | 'fatal';
+
+// full: uniform in [0, exponential delay]; decorrelated: grows from the previous delay
+export type JitterStrategy = 'none' | 'full' | 'decorrelated';
+
+export interface RetryPolicyOptions {
+  maxRetries?: number;
+  initialDelayMs?: number;
+  throttledInitialDelayMs?: number; // Starting delay after a throttling error
+  maxDelayMs?: number;
+  backoffMultiplier?: number;
+  jitter?: JitterStrategy;
+  maxElapsedMs?: number; // Budget for all attempts and delays together
+  classify?: (error: unknown) => ErrorClass;
+  random?: () => number;
+}
+
+export interface RetryExecuteOptions {
+  signal?: AbortSignal;
+  logger?: Logger;
+}
+
+const THROTTLING_ERRORS = new Set([
+  'ThrottlingException',
+  'Throttling',
+  'ThrottledException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'RequestThrottled',
+  'RequestThrottledException',
+  'ProvisionedThroughputExceededException',
+  'SlowDown',
+  'KMSThrottlingException',
+]);
+
+const TRANSIENT_ERRORS = new Set([
+  'InternalFailure',
+  'InternalServerError',
+  'InternalServerErrorException',
+  'InternalErrorException',
+  'ServiceUnavailable',
+  'ServiceUnavailableException',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'TimeoutError',
+  'TransactionConflictException',
+]);
+
+// Deterministic failures, recognized even without SDK metadata
+const FATAL_ERRORS = new Set([
+  'ConditionalCheckFailedException',
+  'ValidationException',
+  'AccessDeniedException',
+  'ResourceNotFoundException',
+  'InvalidParameterException',
+  'InvalidParameterValueException',
+  'ItemCollectionSizeLimitExceededException', // The partition stays full until items are removed
+]);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+]);
+
+// Left free when retrying against the Lambda deadline, so the invocation can still respond
+const DEADLINE_RESERVE_MS = 500;
+
+// Epoch milliseconds at which the current Lambda invocation times out
+let invocationDeadline: number | undefined;
+
+/**
+ * Record the current invocation's deadline so retries never outlive it. Lambda runs one
+ * invocation per container at a time, so this is reset at the start of every handler.
+ */
+export function setInvocationDeadline(
+  context: { getRemainingTimeInMillis?: () => number } | undefined
+): void {
+  invocationDeadline =
+    typeof context?.getRemainingTimeInMillis === 'function'
+      ? Date.now() + context.getRemainingTimeInMillis()
+      : undefined;
+}
+
+/**
+ * Classify an error by AWS SDK metadata and error name. Errors without either, such as
+ * partial-failure errors raised by our own clients, are treated as transient.
+ */
+export function classifyError(error: unknown): ErrorClass {
+  if (!(error instanceof Error)) {
+    return 'retryable';
+  }
+
+  // Domain errors, programming errors and cancellation are never transient
+  if (
+    error instanceof DomainError ||
+    error instanceof TypeError ||
+    error instanceof RangeError ||
+    error instanceof SyntaxError ||
+    error instanceof ReferenceError ||
+    error.name === 'AbortError' ||
+    error.name === 'ZodError' ||
+    FATAL_ERRORS.has(error.name)
+  ) {
+    return 'fatal';
+  }
+
+  const metadata = error as Error & {
+    code?: string;
+    $retryable?: { throttling?: boolean };
+    $fault?: 'client' | 'server';
+    $metadata?: { httpStatusCode?: number };
+    CancellationReasons?: Array<{ Code?: string }>;
+  };
+
+  if (error.name === 'TransactionCanceledException') {
+    return classifyCancellation(metadata.CancellationReasons ?? []);
+  }
+
+  if (metadata.$retryable) {
+    return metadata.$retryable.throttling === true ? 'throttled' : 'retryable';
+  }
+
+  if (THROTTLING_ERRORS.has(error.name)) {
+    return 'throttled';
+  }
+
+  if (
+    TRANSIENT_ERRORS.has(error.name) ||
+    (metadata.code !== undefined && NETWORK_ERROR_CODES.has(metadata.code))
+  ) {
+    return 'retryable';
+  }
+
+  const status = metadata.$metadata?.httpStatusCode;
+
+  if (status === 429) {
+    return 'throttled';
+  }
+
+  if (metadata.$fault === 'server' || (status !== undefined && status >= 500)) {
+    return 'retryable';
+  }
+
+  if (metadata.$fault === 'client' || (status !== undefined && status >= 400)) {
+    return 'fatal';
+  }
+
+  return 'retryable';
+}
+
+/**
+ * Retries a call per the policy, throwing the last error once it is fatal or the retries,
+ * the time budget or the invocation run out
+ */
+export class RetryPolicy {
+  private readonly maxRetries: number;
+  private readonly initialDelayMs: number;
+  private readonly throttledInitialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly backoffMultiplier: number;
+  private readonly jitter: JitterStrategy;
+  private readonly maxElapsedMs: number;
+  private readonly classify: (error: unknown) => ErrorClass;
+  private readonly random: () => number;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+    this.initialDelayMs = options.initialDelayMs ?? 100;
+    this.throttledInitialDelayMs = options.throttledInitialDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10000;
+    this.backoffMultiplier = options.backoffMultiplier ?? 2;
+    this.jitter = options.jitter ?? 'full';
+    this.maxElapsedMs = options.maxElapsedMs ?? 20000;
+    this.classify = options.classify ?? classifyError;
+    this.random = options.random ?? Math.random;
+  }
+
+  async execute<T>(fn: () => Promise<T>, options: RetryExecuteOptions = {}): Promise<T> {
+    const { signal, logger } = options;
+    const startedAt = Date.now();
+    let previousDelay = 0;
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal);
+
+      try {
+        return await fn();
+      } catch (error) {
+        const errorClass = this.classify(error);
+
+        if (errorClass === 'fatal' || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.delayFor(attempt, errorClass, previousDelay);
+
+        if (Date.now() + delay > this.deadline(startedAt)) {
+          logger?.warn('Retry budget exhausted', { attempt: attempt + 1, errorClass });
+          throw error;
+        }
+
+        logger?.warn(`Retry attempt ${attempt + 1}/${this.maxRetries} after ${delay}ms`, {
+          error: error instanceof Error ? error.message : String(error),
+          errorClass,
+        });
+
+        await abortableSleep(delay, signal);
+        previousDelay = delay;
+      }
+    }
+  }
+
+  /**
+   * Delay before the retry following the given attempt (0-based)
+   */
+  delayFor(attempt: number, errorClass: ErrorClass, previousDelay = 0): number {
+    const base = errorClass === 'throttled' ? this.throttledInitialDelayMs : this.initialDelayMs;
+    const exponential = Math.min(this.maxDelayMs, base * Math.pow(this.backoffMultiplier, attempt));
+
+    switch (this.jitter) {
+      case 'none':
+        return exponential;
+      case 'full':
+        return Math.floor(this.random() * exponential);
+      case 'decorrelated': {
+        const upper = Math.max(base, previousDelay * 3);
+        return Math.floor(Math.min(this.maxDelayMs, base + this.random() * (upper - base)));
+      }
+    }
+  }
+
+  // Whichever ends first: the policy's time budget or the Lambda invocation
+  private deadline(startedAt: number): number {
+    const budgetDeadline = startedAt + this.maxElapsedMs;
+
+    return invocationDeadline !== undefined
+      ? Math.min(budgetDeadline, invocationDeadline - DEADLINE_RESERVE_MS)
+      : budgetDeadline;
+  }
+}
+
+// Cancellations caused by a failed condition fail again on retry; conflicts and throttling do not
+function classifyCancellation(reasons: Array<{ Code?: string }>): ErrorClass {
+  const codes = new Set(reasons.map((reason) => reason.Code));
+
+  if (codes.has('ConditionalCheckFailed') || codes.has('ValidationError')) {
+    return 'fatal';
+  }
+
+  if (codes.has('ThrottlingError') || codes.has('ProvisionedThroughputExceeded')) {
+    return 'throttled';
+  }
+
+  return codes.has('TransactionConflict') ? 'retryable' : 'fatal';
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted === true) {
+    throw abortError(signal);
+  }
+}
+
+function abortableSleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted === true) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(abortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : Object.assign(new Error('Retry aborted'), { name: 'AbortError' });
+}
@@ -0,0 +1,136 @@
+import { SQSBatchItemFailure, SQSBatchResponse, SQSRecord } from 'aws-lambda';
+import { Logger, createLogger } from './helpers';
+
+/**
+ * SQS batch processing with partial batch failure reporting
+ */
+
+// parallel: every record at once; ordered: records sharing a message group run in sequence
+export type BatchProcessingMode = 'parallel' | 'ordered';
+
+export type RecordOutcome = 'SUCCEEDED' | 'FAILED' | 'SKIPPED';
+
+export type RecordProcessor = (record: SQSRecord) => Promise<void>;
+
+export interface BatchProcessorOptions {
+  mode?: BatchProcessingMode;
+  logger?: Logger;
+}
+
+// Records without a message group (standard queues) share one sequence in ordered mode
+const DEFAULT_MESSAGE_GROUP = '__default__';
+
+/**
+ * Process a batch and report only the failed records, so SQS redelivers just those
+ */
+export async function processSqsBatch(
+  records: SQSRecord[],
+  processRecord: RecordProcessor,
+  options: BatchProcessorOptions = {}
+): Promise<SQSBatchResponse> {
+  const { mode = 'parallel', logger = createLogger('SqsBatchProcessor') } = options;
+
+  const failures =
+    mode === 'ordered'
+      ? await processOrdered(records, processRecord, logger)
+      : await processParallel(records, processRecord, logger);
+
+  logger.info('Batch processed', {
+    mode,
+    messageCount: records.length,
+    failedCount: failures.length,
+  });
+
+  return { batchItemFailures: failures };
+}
+
+/**
+ * Resolve the processing mode from configuration, defaulting to parallel
+ */
+export function parseBatchProcessingMode(value: string | undefined): BatchProcessingMode {
+  return value === 'ordered' ? 'ordered' : 'parallel';
+}
+
+async function processParallel(
+  records: SQSRecord[],
+  processRecord: RecordProcessor,
+  logger: Logger
+): Promise<SQSBatchItemFailure[]> {
+  const outcomes = await Promise.all(
+    records.map((record) => processOne(record, processRecord, logger))
+  );
+
+  return records
+    .filter((_record, index) => outcomes[index] === 'FAILED')
+    .map((record) => ({ itemIdentifier: record.messageId }));
+}
+
+async function processOrdered(
+  records: SQSRecord[],
+  processRecord: RecordProcessor,
+  logger: Logger
+): Promise<SQSBatchItemFailure[]> {
+  const groups = new Map<string, SQSRecord[]>();
+
+  for (const record of records) {
+    const groupId = record.attributes.MessageGroupId ?? DEFAULT_MESSAGE_GROUP;
+    groups.set(groupId, [...(groups.get(groupId) ?? []), record]);
+  }
+
+  // Groups are independent of each other, records within a group are not
+  const groupFailures = await Promise.all(
+    [...groups.values()].map(async (groupRecords) => {
+      const failures: SQSBatchItemFailure[] = [];
+
+      for (const record of groupRecords) {
+        // Once a record fails, later records in its group must wait for it to be redelivered
+        if (failures.length > 0) {
+          logRecordOutcome(logger, record, 'SKIPPED', 0);
+          failures.push({ itemIdentifier: record.messageId });
+          continue;
+        }
+
+        if ((await processOne(record, processRecord, logger)) === 'FAILED') {
+          failures.push({ itemIdentifier: record.messageId });
+        }
+      }
+
+      return failures;
+    })
+  );
+
+  return groupFailures.flat();
+}
+
+async function processOne(
+  record: SQSRecord,
+  processRecord: RecordProcessor,
+  logger: Logger
+): Promise<RecordOutcome> {
+  const startTime = Date.now();
+
+  try {
+    await processRecord(record);
+    logRecordOutcome(logger, record, 'SUCCEEDED', Date.now() - startTime);
+    return 'SUCCEEDED';
+  } catch (error) {
+    logger.error('Error processing message', error, { messageId: record.messageId });
+    logRecordOutcome(logger, record, 'FAILED', Date.now() - startTime);
+    return 'FAILED';
+  }
+}
+
+function logRecordOutcome(
+  logger: Logger,
+  record: SQSRecord,
+  outcome: RecordOutcome,
+  duration: number
+): void {
+  logger.info('Message processed', {
+    messageId: record.messageId,
+    messageGroupId: record.attributes.MessageGroupId,
+    receiveCount: record.attributes.ApproximateReceiveCount,
+    outcome,
+    duration,
+  });
+}
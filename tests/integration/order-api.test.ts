@@ -31,9 +31,7 @@ describe('Order API Integration Tests', () => {
           items: [
             {
               productId: '123e4567-e89b-12d3-a456-426614174000',
-              name: 'Test Product',
               quantity: 2,
-              price: 29.99,
             },
           ],
           shippingAddress: {
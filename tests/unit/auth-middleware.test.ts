@@ -0,0 +1,104 @@
+import { createHmac } from 'crypto';
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import {
+  ADMIN_ROLE,
+  FULFILMENT_ROLE,
+  Principal,
+  assertCustomerAccess,
+  authMiddleware,
+  getPrincipal,
+  requireRole,
+} from '../../src/middleware/auth-middleware';
+import { JwtClaims, JwtVerifier, StaticKeyResolver } from '../../src/utils/jwt-verifier';
+import { ForbiddenError, UnauthorizedError } from '../../src/models/errors';
+import { CustomerId } from '../../src/models/types';
+
+const SECRET = 'test-secret';
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (claims: JwtClaims): string => {
+  const payload = { exp: Math.floor(Date.now() / 1000) + 300, ...claims };
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', SECRET).update(input).digest('base64url')}`;
+};
+
+describe('authMiddleware', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  const verifier = new JwtVerifier(new StaticKeyResolver({ secret: SECRET }));
+  let next: jest.Mock<Promise<APIGatewayProxyResult>, []>;
+
+  const buildEvent = (authorization?: string): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'GET',
+      path: '/orders',
+      headers: authorization !== undefined ? { authorization } : {},
+    }) as unknown as APIGatewayProxyEvent;
+
+  beforeEach(() => {
+    next = jest.fn().mockResolvedValue({ statusCode: 200, body: '{}' });
+  });
+
+  it('should attach the verified principal to the event', async () => {
+    const event = buildEvent(`Bearer ${signToken({ sub: 'user-1', customerId: 'customer-123', role: 'customer' })}`);
+
+    await authMiddleware({ verifier })(event, context, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(getPrincipal(event)).toMatchObject({
+      subject: 'user-1',
+      customerId: 'customer-123',
+      roles: ['customer'],
+    });
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    await expect(authMiddleware({ verifier })(buildEvent(), context, next)).rejects.toThrow(
+      UnauthorizedError
+    );
+    await expect(
+      authMiddleware({ verifier })(buildEvent('Basic dXNlcjpwYXNz'), context, next)
+    ).rejects.toThrow('Bearer token is required');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should apply route rules before calling the handler', async () => {
+    const middleware = authMiddleware({ verifier, rules: [requireRole(ADMIN_ROLE)] });
+
+    await expect(
+      middleware(buildEvent(`Bearer ${signToken({ sub: 'customer-123' })}`), context, next)
+    ).rejects.toThrow(ForbiddenError);
+    expect(next).not.toHaveBeenCalled();
+
+    await middleware(
+      buildEvent(`Bearer ${signToken({ sub: 'ops-1', roles: [ADMIN_ROLE] })}`),
+      context,
+      next
+    );
+    expect(next).toHaveBeenCalled();
+  });
+});
+
+describe('assertCustomerAccess', () => {
+  const customer: Principal = {
+    subject: 'customer-123',
+    customerId: 'customer-123' as CustomerId,
+    roles: [],
+    claims: {},
+  };
+
+  it('should allow customers to access only their own data', () => {
+    expect(() => assertCustomerAccess(customer, 'customer-123' as CustomerId)).not.toThrow();
+    expect(() => assertCustomerAccess(customer, 'customer-456' as CustomerId)).toThrow(
+      ForbiddenError
+    );
+  });
+
+  it('should allow admins and fulfilment staff to access any customer', () => {
+    const admin = { ...customer, roles: [ADMIN_ROLE] };
+    const fulfilment = { ...customer, roles: [FULFILMENT_ROLE] };
+
+    expect(() => assertCustomerAccess(admin, 'customer-456' as CustomerId)).not.toThrow();
+    expect(() => assertCustomerAccess(fulfilment, 'customer-456' as CustomerId)).not.toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { CircuitBreaker, getCircuitBreaker } from '../../src/utils/circuit-breaker';
+import { RetryPolicy } from '../../src/utils/retry-policy';
+import { EventPublisher } from '../../src/services/event-publisher';
+import { CircuitOpenError, ValidationError } from '../../src/models/errors';
+import { ErrorCode } from '../../src/models/types';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const unavailable = (): Promise<never> =>
+    Promise.reject(Object.assign(new Error('Service unavailable'), { name: 'ServiceUnavailable' }));
+  const ok = (): Promise<string> => Promise.resolve('ok');
+
+  const fail = async (times: number): Promise<void> => {
+    for (let i = 0; i < times; i++) {
+      await breaker.execute(unavailable).catch(() => undefined);
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('EventBridge', {
+      failureRateThreshold: 0.5,
+      minimumCalls: 4,
+      windowMs: 10000,
+      openDurationMs: 5000,
+      now: () => now,
+    });
+  });
+
+  it('should stay closed until the window has enough calls', async () => {
+    await fail(3);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should open once the failure rate reaches the threshold', async () => {
+    await breaker.execute(ok);
+    await breaker.execute(ok);
+    await fail(1);
+    expect(breaker.state).toBe('closed');
+
+    await fail(1);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should fail fast as unavailable while open', async () => {
+    await fail(4);
+    const fn = jest.fn(ok);
+    now = 1500;
+
+    const error = await breaker.execute(fn).catch((thrown: unknown) => thrown);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({
+      statusCode: 503,
+      code: ErrorCode.SERVICE_UNAVAILABLE,
+      service: 'EventBridge',
+      headers: { 'Retry-After': '4' },
+    });
+  });
+
+  it('should not count errors that say nothing about the service', async () => {
+    for (let i = 0; i < 4; i++) {
+      await breaker.execute(() => Promise.reject(new ValidationError('Bad request'))).catch(() => undefined);
+    }
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should forget outcomes older than the window', async () => {
+    await fail(3);
+    now = 10000;
+
+    await fail(1);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should close again after a successful trial call', async () => {
+    await fail(4);
+    now = 5000;
+    expect(breaker.state).toBe('half-open');
+
+    await expect(breaker.execute(ok)).resolves.toBe('ok');
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reopen after a failed trial call', async () => {
+    await fail(4);
+    now = 5000;
+
+    await fail(1);
+
+    expect(breaker.state).toBe('open');
+    now = 9999;
+    await expect(breaker.execute(ok)).rejects.toThrow(CircuitOpenError);
+  });
+
+  it('should only let one trial call through at a time', async () => {
+    await fail(4);
+    now = 5000;
+    let release: (value: string) => void = () => undefined;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => (release = resolve)));
+
+    await expect(breaker.execute(ok)).rejects.toThrow(CircuitOpenError);
+
+    release('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should let a new trial through once an unsettled one has run for the open duration', async () => {
+    await fail(4);
+    now = 5000;
+    void breaker.execute(() => new Promise<string>(() => undefined));
+
+    now = 9999;
+    await expect(breaker.execute(ok)).rejects.toThrow(CircuitOpenError);
+
+    now = 10000;
+    await expect(breaker.execute(ok)).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should share one breaker per service across callers', () => {
+    expect(getCircuitBreaker('shared-service')).toBe(getCircuitBreaker('shared-service'));
+    expect(getCircuitBreaker('shared-service')).not.toBe(getCircuitBreaker('other-service'));
+  });
+
+  it('should stop an EventPublisher from retrying against an open circuit', async () => {
+    const send = jest.fn().mockRejectedValue(Object.assign(new Error('Down'), { name: 'InternalFailure' }));
+    const publisher = new EventPublisher(
+      'test-bus',
+      'test-service',
+      { send } as unknown as EventBridgeClient,
+      new RetryPolicy({ maxRetries: 5, initialDelayMs: 1 }),
+      new CircuitBreaker('EventBridge', { minimumCalls: 2, failureRateThreshold: 1 })
+    );
+
+    await expect(
+      publisher.publish({
+        type: 'ORDER_DELETED',
+        payload: { orderId: 'order-123' as never, deletedAt: new Date().toISOString() },
+      })
+    ).rejects.toThrow(CircuitOpenError);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
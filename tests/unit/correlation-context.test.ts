@@ -0,0 +1,129 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import {
+  getCorrelationId,
+  resolveCorrelationId,
+  runWithCorrelation,
+} from '../../src/utils/correlation-context';
+import { createLogger } from '../../src/utils/helpers';
+import { createEnvelope } from '../../src/models/event-envelope';
+import { withMiddleware } from '../../src/middleware/lambda-middleware';
+import { NotificationService, QueueService } from '../../src/services/messaging-service';
+import { DomainEvent } from '../../src/models/types';
+
+const event: DomainEvent = {
+  type: 'ORDER_DELETED',
+  payload: { orderId: 'order-123' as never, deletedAt: new Date().toISOString() },
+};
+
+describe('correlation context', () => {
+  it('should expose the correlation id only inside the context', async () => {
+    expect(getCorrelationId()).toBeUndefined();
+
+    await runWithCorrelation('correlation-123', async () => {
+      await Promise.resolve();
+      expect(getCorrelationId()).toBe('correlation-123');
+    });
+
+    expect(getCorrelationId()).toBeUndefined();
+  });
+
+  it('should keep concurrent contexts apart', async () => {
+    const seen = await Promise.all(
+      ['first', 'second'].map((id) =>
+        runWithCorrelation(id, async () => {
+          await new Promise((resolve) => setTimeout(resolve, id === 'first' ? 10 : 0));
+          return getCorrelationId();
+        })
+      )
+    );
+
+    expect(seen).toEqual(['first', 'second']);
+  });
+
+  it('should replace missing or malformed ids with a new one', () => {
+    expect(resolveCorrelationId(' abc-123 ')).toBe('abc-123');
+    expect(resolveCorrelationId(undefined)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(resolveCorrelationId('bad\nid')).not.toContain('\n');
+    expect(resolveCorrelationId('x'.repeat(129))).toHaveLength(36);
+  });
+
+  it('should add the correlation id to every log line', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    runWithCorrelation('correlation-123', () => createLogger('Test').info('Inside'));
+    createLogger('Test').info('Outside');
+
+    const [inside, outside] = log.mock.calls.map(
+      ([line]) => JSON.parse(line as string) as Record<string, unknown>
+    );
+    expect(inside).toMatchObject({ message: 'Inside', correlationId: 'correlation-123' });
+    expect(outside).not.toHaveProperty('correlationId');
+    log.mockRestore();
+  });
+
+  it('should put new events in the current correlation chain', () => {
+    const envelope = runWithCorrelation('correlation-123', () => createEnvelope(event, 'test'));
+    const explicit = runWithCorrelation('correlation-123', () =>
+      createEnvelope(event, 'test', { correlationId: 'other' })
+    );
+
+    expect(envelope.correlationId).toBe('correlation-123');
+    expect(explicit.correlationId).toBe('other');
+    expect(createEnvelope(event, 'test', { id: 'event-1' }).correlationId).toBe('event-1');
+  });
+});
+
+describe('withMiddleware correlation', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  const request = (headers: Record<string, string>): APIGatewayProxyEvent =>
+    ({ headers, path: '/orders', httpMethod: 'GET' }) as unknown as APIGatewayProxyEvent;
+
+  const handler = withMiddleware(
+    (): Promise<APIGatewayProxyResult> =>
+      Promise.resolve({ statusCode: 200, body: JSON.stringify({ correlationId: getCorrelationId() }) })
+  );
+
+  it('should continue the correlation id sent by the caller', async () => {
+    const result = await handler(request({ 'x-correlation-id': 'correlation-123' }), context);
+
+    expect(result.headers?.['X-Correlation-Id']).toBe('correlation-123');
+    expect(JSON.parse(result.body)).toEqual({ correlationId: 'correlation-123' });
+  });
+
+  it('should start a new correlation id when the caller sends none', async () => {
+    const result = await handler(request({}), context);
+    const correlationId = result.headers?.['X-Correlation-Id'];
+
+    expect(correlationId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(JSON.parse(result.body)).toEqual({ correlationId });
+  });
+});
+
+describe('message attribute propagation', () => {
+  it('should attach the correlation id to SQS messages', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const queueService = new QueueService({ send } as unknown as SQSClient);
+
+    await runWithCorrelation('correlation-123', () =>
+      queueService.sendRawMessage('queue-url', '{}', { reason: 'Invalid message' })
+    );
+
+    expect((send.mock.calls[0][0] as SendMessageCommand).input.MessageAttributes).toEqual({
+      correlationId: { DataType: 'String', StringValue: 'correlation-123' },
+      reason: { DataType: 'String', StringValue: 'Invalid message' },
+    });
+  });
+
+  it('should attach the correlation id to SNS notifications', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const notifications = new NotificationService({ send } as unknown as SNSClient);
+
+    await runWithCorrelation('correlation-123', () => notifications.publish('topic-arn', 'Hello'));
+
+    expect((send.mock.calls[0][0] as PublishCommand).input.MessageAttributes).toEqual({
+      correlationId: { DataType: 'String', StringValue: 'correlation-123' },
+    });
+  });
+});
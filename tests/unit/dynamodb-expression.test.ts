@@ -0,0 +1,84 @@
+import { conditions } from '../../src/models/conditions';
+import { Order, OrderStatus } from '../../src/models/entities';
+import { CustomerId } from '../../src/models/types';
+import {
+  ExpressionAttributes,
+  compileCondition,
+  compileKeyCondition,
+} from '../../src/utils/dynamodb-expression';
+
+describe('DynamoDB expression compilation', () => {
+  const where = conditions<Order>();
+  let attributes: ExpressionAttributes;
+
+  beforeEach(() => {
+    attributes = new ExpressionAttributes();
+  });
+
+  it('should compile comparisons with generated placeholders', () => {
+    const expression = compileCondition(where.eq('status', OrderStatus.PENDING), attributes);
+
+    expect(expression).toBe('#n0 = :v0');
+    expect(attributes.toInput()).toEqual({
+      ExpressionAttributeNames: { '#n0': 'status' },
+      ExpressionAttributeValues: { ':v0': OrderStatus.PENDING },
+    });
+  });
+
+  it('should compile nested boolean logic and functions', () => {
+    const expression = compileCondition(
+      where.and(
+        where.or(
+          where.in('status', [OrderStatus.PENDING, OrderStatus.PROCESSING]),
+          where.beginsWith('customerEmail', 'vip')
+        ),
+        where.not(where.exists('metadata.giftWrap')),
+        where.contains('customerEmail', '@example.com'),
+        where.between('totalAmount.amount', 1000, 10000)
+      ),
+      attributes
+    );
+
+    expect(expression).toBe(
+      '((#n0 IN (:v0, :v1)) OR (begins_with(#n1, :v2))) AND (NOT (attribute_exists(#n2.#n3))) AND (contains(#n1, :v3)) AND (#n4.#n5 BETWEEN :v4 AND :v5)'
+    );
+    expect(attributes.toInput().ExpressionAttributeNames).toEqual({
+      '#n0': 'status',
+      '#n1': 'customerEmail',
+      '#n2': 'metadata',
+      '#n3': 'giftWrap',
+      '#n4': 'totalAmount',
+      '#n5': 'amount',
+    });
+  });
+
+  it('should share placeholders between key condition and filter', () => {
+    const keyExpression = compileKeyCondition(
+      where.key('customerId', 'customer-123' as CustomerId, where.gte('createdAt', '2024-01-01')),
+      attributes
+    );
+    const filterExpression = compileCondition(where.gt('totalAmount.amount', 5000), attributes);
+
+    expect(keyExpression).toBe('#n0 = :v0 AND #n1 >= :v1');
+    expect(filterExpression).toBe('#n2.#n3 > :v2');
+  });
+
+  it('should reject conditions DynamoDB cannot evaluate', () => {
+    expect(() =>
+      compileKeyCondition(
+        where.key('customerId', 'customer-123' as CustomerId, where.ne('createdAt', 'x')),
+        attributes
+      )
+    ).toThrow('cannot use <>');
+    expect(() => compileCondition(where.in('status', []), attributes)).toThrow(
+      'needs at least one value'
+    );
+  });
+
+  it('should leave attribute maps undefined when nothing was compiled', () => {
+    expect(attributes.toInput()).toEqual({
+      ExpressionAttributeNames: undefined,
+      ExpressionAttributeValues: undefined,
+    });
+  });
+});
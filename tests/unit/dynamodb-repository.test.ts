@@ -0,0 +1,195 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DynamoDBDocumentClient,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoDBRepository, DynamoDBTransaction } from '../../src/utils/dynamodb-repository';
+import { ConcurrentModificationError, ConflictError } from '../../src/models/errors';
+import { Order, OrderStatus } from '../../src/models/entities';
+import { OrderId } from '../../src/models/types';
+import { conditions } from '../../src/models/conditions';
+
+describe('DynamoDBRepository batch operations', () => {
+  let send: jest.SpyInstance;
+  let repository: DynamoDBRepository<Order, OrderId>;
+
+  const ids = (count: number): OrderId[] =>
+    Array.from({ length: count }, (_, i) => `order-${i}` as OrderId);
+
+  beforeEach(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+    repository = new DynamoDBRepository<Order, OrderId>('orders-table', 'orderId');
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('should get items in chunks of 100 and return them in request order', async () => {
+    send.mockImplementation((command: BatchGetCommand) => {
+      const keys = command.input.RequestItems?.['orders-table']?.Keys ?? [];
+      return Promise.resolve({ Responses: { 'orders-table': [...keys].reverse() } });
+    });
+
+    const items = await repository.batchGet([...ids(250), 'order-0' as OrderId]);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(
+      send.mock.calls.map(
+        ([command]) => (command as BatchGetCommand).input.RequestItems?.['orders-table']?.Keys?.length
+      )
+    ).toEqual([100, 100, 50]);
+    expect(items.map((item) => item.orderId)).toEqual(ids(250));
+  });
+
+  it('should request unprocessed keys again and skip missing items', async () => {
+    send
+      .mockResolvedValueOnce({
+        Responses: { 'orders-table': [{ orderId: 'order-0' }] },
+        UnprocessedKeys: { 'orders-table': { Keys: [{ orderId: 'order-1' }, { orderId: 'order-2' }] } },
+      } as never)
+      .mockResolvedValueOnce({ Responses: { 'orders-table': [{ orderId: 'order-2' }] } } as never);
+
+    const items = await repository.batchGet(ids(3));
+
+    expect((send.mock.calls[1][0] as BatchGetCommand).input.RequestItems).toEqual({
+      'orders-table': { Keys: [{ orderId: 'order-1' }, { orderId: 'order-2' }] },
+    });
+    expect(items.map((item) => item.orderId)).toEqual(['order-0', 'order-2']);
+  });
+
+  it('should save items in chunks of 25', async () => {
+    send.mockResolvedValue({} as never);
+    const orders = ids(30).map((orderId) => ({ orderId }) as unknown as Order);
+
+    await repository.batchSave(orders);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    const [first, second] = send.mock.calls.map(
+      ([command]) => (command as BatchWriteCommand).input.RequestItems?.['orders-table'] ?? []
+    );
+    expect(first).toHaveLength(25);
+    expect(second).toHaveLength(5);
+    expect(first?.[0]).toEqual({ PutRequest: { Item: { orderId: 'order-0' } } });
+  });
+
+  it('should resend only unprocessed write requests', async () => {
+    const unprocessed = [{ DeleteRequest: { Key: { orderId: 'order-1' } } }];
+    send
+      .mockResolvedValueOnce({ UnprocessedItems: { 'orders-table': unprocessed } } as never)
+      .mockResolvedValueOnce({} as never);
+
+    await repository.batchDelete(ids(2));
+
+    expect((send.mock.calls[0][0] as BatchWriteCommand).input.RequestItems?.['orders-table']).toEqual([
+      { DeleteRequest: { Key: { orderId: 'order-0' } } },
+      { DeleteRequest: { Key: { orderId: 'order-1' } } },
+    ]);
+    expect((send.mock.calls[1][0] as BatchWriteCommand).input.RequestItems?.['orders-table']).toEqual(
+      unprocessed
+    );
+  });
+
+  it('should fail when items stay unprocessed after every retry', async () => {
+    send.mockResolvedValue({
+      UnprocessedItems: { 'orders-table': [{ DeleteRequest: { Key: { orderId: 'order-0' } } }] },
+    } as never);
+
+    await expect(repository.batchDelete(ids(1))).rejects.toThrow('1 items were not processed');
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('DynamoDBTransaction', () => {
+  const where = conditions<Order>();
+  let send: jest.SpyInstance;
+  let orders: DynamoDBRepository<Order, OrderId>;
+  let audit: DynamoDBRepository<{ auditId: string; [key: string]: unknown }, string>;
+
+  beforeEach(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+    orders = new DynamoDBRepository<Order, OrderId>('orders-table', 'orderId');
+    audit = new DynamoDBRepository('audit-table', 'auditId');
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('should commit writes to several tables in one request', async () => {
+    send.mockResolvedValue({} as never);
+
+    await new DynamoDBTransaction()
+      .write(
+        orders,
+        { type: 'update', id: 'order-1' as OrderId, updates: { status: OrderStatus.CANCELLED }, options: { expectedVersion: 2 } },
+        { type: 'check', id: 'order-2' as OrderId, options: { condition: where.eq('status', OrderStatus.PENDING) } }
+      )
+      .write(audit, { type: 'put', entity: { auditId: 'audit-1' } })
+      .commit();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const [update, check, put] = (send.mock.calls[0][0] as TransactWriteCommand).input.TransactItems ?? [];
+    expect(update?.Update).toMatchObject({ TableName: 'orders-table', Key: { orderId: 'order-1' } });
+    expect(check?.ConditionCheck).toMatchObject({
+      TableName: 'orders-table',
+      Key: { orderId: 'order-2' },
+      ConditionExpression: '#n0 = :v0',
+      ExpressionAttributeNames: { '#n0': 'status' },
+      ExpressionAttributeValues: { ':v0': 'PENDING' },
+    });
+    expect(put?.Put).toEqual({ TableName: 'audit-table', Item: { auditId: 'audit-1' } });
+  });
+
+  it('should report the item whose condition cancelled the transaction', async () => {
+    send.mockRejectedValue(
+      Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
+      }) as never
+    );
+
+    await expect(
+      orders.transact([
+        { type: 'delete', id: 'order-1' as OrderId, options: { expectedVersion: 1 } },
+        { type: 'check', id: 'order-2' as OrderId, options: { condition: where.exists('customerId') } },
+      ])
+    ).rejects.toThrow(ConflictError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map a failed version check to a concurrency error', async () => {
+    send.mockRejectedValue(
+      Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'ConditionalCheckFailed' }],
+      }) as never
+    );
+
+    await expect(
+      orders.transact([{ type: 'delete', id: 'order-1' as OrderId, options: { expectedVersion: 1 } }])
+    ).rejects.toThrow(ConcurrentModificationError);
+  });
+
+  it('should retry transactions cancelled by a conflicting transaction', async () => {
+    send
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'TransactionConflict' }],
+        }) as never
+      )
+      .mockResolvedValueOnce({} as never);
+
+    await orders.transact([{ type: 'delete', id: 'order-1' as OrderId }]);
+
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a condition check without a condition', () => {
+    expect(() =>
+      new DynamoDBTransaction().write(orders, { type: 'check', id: 'order-1' as OrderId, options: {} })
+    ).toThrow('has no condition');
+  });
+});
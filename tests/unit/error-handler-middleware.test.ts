@@ -0,0 +1,109 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { z } from 'zod';
+import {
+  errorHandlerMiddleware,
+  validationMiddleware,
+  withMiddleware,
+} from '../../src/middleware/lambda-middleware';
+import {
+  ExternalServiceFailureError,
+  InvalidStatusTransitionError,
+  NotFoundError,
+} from '../../src/models/errors';
+import { OrderStatus } from '../../src/models/entities';
+
+describe('errorHandlerMiddleware', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  const event = { path: '/orders/order-123', httpMethod: 'GET' } as APIGatewayProxyEvent;
+  const originalStage = process.env.STAGE;
+
+  const run = async (error: unknown): Promise<APIGatewayProxyResult> =>
+    errorHandlerMiddleware(event, context, () => Promise.reject(error));
+
+  const body = (result: APIGatewayProxyResult): Record<string, unknown> =>
+    JSON.parse(result.body) as Record<string, unknown>;
+
+  afterEach(() => {
+    if (originalStage === undefined) {
+      delete process.env.STAGE;
+    } else {
+      process.env.STAGE = originalStage;
+    }
+  });
+
+  it('should render domain errors as problem documents', async () => {
+    const result = await run(new NotFoundError('Order', 'order-123'));
+
+    expect(result.statusCode).toBe(404);
+    expect(result.headers?.['Content-Type']).toBe('application/problem+json');
+    expect(body(result)).toEqual({
+      type: '/problems/not-found',
+      title: 'Resource not found',
+      status: 404,
+      detail: 'Order not found: order-123',
+      instance: '/orders/order-123',
+      requestId: 'request-123',
+      code: 'NOT_FOUND',
+      details: { resource: 'Order', resourceId: 'order-123' },
+    });
+  });
+
+  it('should map invalid transitions to 409', async () => {
+    const result = await run(
+      new InvalidStatusTransitionError(OrderStatus.DELIVERED, OrderStatus.PENDING)
+    );
+
+    expect(result.statusCode).toBe(409);
+    expect(body(result)).toMatchObject({ code: 'CONFLICT', type: '/problems/conflict' });
+  });
+
+  it('should map zod errors to 400 with the validation issues', async () => {
+    const parsed = z.object({ orderId: z.string() }).safeParse({});
+    const result = await run(parsed.success ? undefined : parsed.error);
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result)).toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(body(result).errors).toHaveLength(1);
+  });
+
+  it('should map malformed JSON bodies to 400', async () => {
+    const handler = withMiddleware(
+      () => Promise.resolve({ statusCode: 200, body: '{}' }),
+      errorHandlerMiddleware,
+      validationMiddleware(z.object({ orderId: z.string() }))
+    );
+
+    const result = await handler({ ...event, body: '{"orderId":' }, context);
+
+    expect(result.statusCode).toBe(400);
+    expect(body(result)).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      detail: 'Request body is not valid JSON',
+    });
+  });
+
+  it('should expose unexpected error messages outside production', async () => {
+    process.env.STAGE = 'dev';
+
+    const result = await run(new Error('Table orders-dev does not exist'));
+
+    expect(result.statusCode).toBe(500);
+    expect(body(result).detail).toBe('Table orders-dev does not exist');
+  });
+
+  it('should hide internal messages in production', async () => {
+    process.env.STAGE = 'prod';
+
+    const unexpected = await run(new Error('Table orders-prod does not exist'));
+    const upstream = await run(new ExternalServiceFailureError('EventBridge'));
+
+    expect(body(unexpected)).toMatchObject({
+      status: 500,
+      code: 'INTERNAL_ERROR',
+      detail: 'An unexpected error occurred',
+    });
+    expect(upstream.statusCode).toBe(502);
+    expect(body(upstream).detail).toBe('Upstream service failure');
+    expect(body(upstream).details).toBeUndefined();
+  });
+});
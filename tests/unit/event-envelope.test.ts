@@ -0,0 +1,120 @@
+import {
+  createEnvelope,
+  fromCloudEvent,
+  isCloudEvent,
+  parseCloudEvent,
+  toCloudEvent,
+} from '../../src/models/event-envelope';
+import { ExtractEvent, OrderId } from '../../src/models/types';
+
+describe('Event envelope', () => {
+  const event: ExtractEvent<'ORDER_DELETED'> = {
+    type: 'ORDER_DELETED',
+    payload: {
+      orderId: 'order-123' as OrderId,
+      deletedAt: '2024-01-01T00:00:00.000Z',
+      reason: 'Customer requested',
+    },
+  };
+
+  it('should wrap a domain event with delivery metadata', () => {
+    const envelope = createEnvelope(event, 'order-service');
+
+    expect(envelope).toMatchObject({
+      type: 'ORDER_DELETED',
+      payload: event.payload,
+      specVersion: '1.0',
+      source: 'order-service',
+      subject: 'order-123',
+      dataSchemaVersion: 1,
+    });
+    expect(envelope.id).toBeDefined();
+    expect(envelope.time).toBeDefined();
+  });
+
+  it('should start a new correlation chain unless one is given', () => {
+    const root = createEnvelope(event, 'order-service');
+    const child = createEnvelope(event, 'order-service', {
+      correlationId: root.correlationId,
+      causationId: root.id,
+    });
+
+    expect(root.correlationId).toBe(root.id);
+    expect(child.correlationId).toBe(root.id);
+    expect(child.causationId).toBe(root.id);
+  });
+
+  it('should map to CloudEvents 1.0 JSON and back', () => {
+    const envelope = createEnvelope(event, 'order-service', {
+      correlationId: 'correlation-123',
+      causationId: 'cause-123',
+    });
+
+    const cloudEvent = toCloudEvent(envelope);
+
+    expect(cloudEvent).toEqual({
+      specversion: '1.0',
+      id: envelope.id,
+      source: 'order-service',
+      type: 'ORDER_DELETED',
+      time: envelope.time,
+      subject: 'order-123',
+      datacontenttype: 'application/json',
+      dataschema: 'urn:order-service:schemas:ORDER_DELETED:1',
+      correlationid: 'correlation-123',
+      causationid: 'cause-123',
+      data: event.payload,
+    });
+    expect(isCloudEvent(cloudEvent)).toBe(true);
+    expect(fromCloudEvent(JSON.parse(JSON.stringify(cloudEvent)))).toEqual(envelope);
+  });
+
+  it('should not mistake a bare payload for a CloudEvent', () => {
+    expect(isCloudEvent(event.payload)).toBe(false);
+    expect(isCloudEvent(null)).toBe(false);
+  });
+
+  describe('parseCloudEvent', () => {
+    it('should accept a valid CloudEvent and return a typed envelope', () => {
+      const envelope = createEnvelope(event, 'order-service');
+
+      const result = parseCloudEvent(JSON.parse(JSON.stringify(toCloudEvent(envelope))));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.envelope).toEqual(envelope);
+      }
+    });
+
+    it('should report issues for a payload that does not match its type', () => {
+      const cloudEvent = toCloudEvent(createEnvelope(event, 'order-service'));
+
+      const result = parseCloudEvent({ ...cloudEvent, data: { orderId: 'order-123' } });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.issues).toEqual(
+          expect.arrayContaining([expect.objectContaining({ path: ['payload', 'deletedAt'] })])
+        );
+      }
+    });
+
+    it('should reject an unknown event type', () => {
+      const cloudEvent = toCloudEvent(createEnvelope(event, 'order-service'));
+
+      const result = parseCloudEvent({ ...cloudEvent, type: 'ORDER_EXPLODED' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an envelope missing required attributes', () => {
+      const { correlationid: _correlationId, ...cloudEvent } = toCloudEvent(
+        createEnvelope(event, 'order-service')
+      );
+
+      const result = parseCloudEvent(cloudEvent);
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,8 @@
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import { EventPublisher, EventHandlerRegistry, EventHandler } from '../../src/services/event-publisher';
 import { ExtractEvent } from '../../src/models/types';
+import { CloudEvent, EventEnvelope, createEnvelope } from '../../src/models/event-envelope';
+import { money } from '../../src/models/money';
 
 describe('EventPublisher', () => {
   let eventPublisher: EventPublisher;
@@ -13,6 +16,36 @@ describe('EventPublisher', () => {
   it('should be instantiated correctly', () => {
     expect(eventPublisher).toBeDefined();
   });
+
+  it('should send the event as a CloudEvents envelope', async () => {
+    const send = jest.fn().mockResolvedValue({ FailedEntryCount: 0 });
+    const publisher = new EventPublisher('test-bus', 'test-service', {
+      send,
+    } as unknown as EventBridgeClient);
+
+    await publisher.publish(
+      {
+        type: 'ORDER_DELETED',
+        payload: { orderId: 'order-123' as never, deletedAt: new Date().toISOString() },
+      },
+      { correlationId: 'correlation-123' }
+    );
+
+    const command = send.mock.calls[0][0] as PutEventsCommand;
+    const entry = command.input.Entries?.[0];
+    const detail = JSON.parse(entry?.Detail ?? '{}') as CloudEvent;
+
+    expect(entry).toMatchObject({ Source: 'test-service', DetailType: 'ORDER_DELETED' });
+    expect(detail).toMatchObject({
+      specversion: '1.0',
+      type: 'ORDER_DELETED',
+      source: 'test-service',
+      subject: 'order-123',
+      correlationid: 'correlation-123',
+      data: { orderId: 'order-123' },
+    });
+    expect(detail.id).toBeDefined();
+  });
 });
 
 describe('EventHandlerRegistry', () => {
@@ -29,16 +62,19 @@ describe('EventHandlerRegistry', () => {
 
     registry.register('ORDER_CREATED', mockHandler);
 
-    const event: ExtractEvent<'ORDER_CREATED'> = {
-      type: 'ORDER_CREATED',
-      payload: {
-        orderId: 'order-123' as never,
-        customerId: 'customer-123' as never,
-        items: [],
-        totalAmount: 100,
-        createdAt: new Date().toISOString(),
+    const event: EventEnvelope<ExtractEvent<'ORDER_CREATED'>> = createEnvelope(
+      {
+        type: 'ORDER_CREATED',
+        payload: {
+          orderId: 'order-123' as never,
+          customerId: 'customer-123' as never,
+          items: [],
+          totalAmount: money(10000, 'USD'),
+          createdAt: new Date().toISOString(),
+        },
       },
-    };
+      'test-service'
+    );
 
     await registry.dispatch(event);
 
@@ -46,37 +82,114 @@ describe('EventHandlerRegistry', () => {
   });
 
   it('should handle events without registered handlers gracefully', async () => {
-    const event: ExtractEvent<'ORDER_UPDATED'> = {
-      type: 'ORDER_UPDATED',
-      payload: {
-        orderId: 'order-123' as never,
-        updates: {},
-        updatedAt: new Date().toISOString(),
+    const event: EventEnvelope<ExtractEvent<'ORDER_UPDATED'>> = createEnvelope(
+      {
+        type: 'ORDER_UPDATED',
+        payload: {
+          orderId: 'order-123' as never,
+          updates: {},
+          updatedAt: new Date().toISOString(),
+        },
       },
-    };
+      'test-service'
+    );
 
     // Should not throw
     await expect(registry.dispatch(event)).resolves.not.toThrow();
   });
 
-  it('should propagate errors from handlers', async () => {
-    const mockHandler: EventHandler<ExtractEvent<'ORDER_CREATED'>> = {
-      handle: jest.fn().mockRejectedValue(new Error('Handler error')),
+  const orderCreated = (): EventEnvelope<ExtractEvent<'ORDER_CREATED'>> =>
+    createEnvelope(
+      {
+        type: 'ORDER_CREATED',
+        payload: {
+          orderId: 'order-123' as never,
+          customerId: 'customer-123' as never,
+          items: [],
+          totalAmount: money(10000, 'USD'),
+          createdAt: new Date().toISOString(),
+        },
+      },
+      'test-service'
+    );
+
+  it('should fan out to every handler registered for an event type', async () => {
+    const first = { handle: jest.fn().mockResolvedValue(undefined) };
+    const second = { handle: jest.fn().mockResolvedValue(undefined) };
+
+    registry.register('ORDER_CREATED', first, { name: 'first' });
+    registry.register('ORDER_CREATED', second, { name: 'second' });
+
+    const result = await registry.dispatch(orderCreated());
+
+    expect(first.handle).toHaveBeenCalled();
+    expect(second.handle).toHaveBeenCalled();
+    expect(result.succeeded).toEqual(['first', 'second']);
+    expect(result.failed).toEqual([]);
+  });
+
+  it('should isolate handler failures and report them', async () => {
+    const failing = { handle: jest.fn().mockRejectedValue(new Error('Handler error')) };
+    const healthy = { handle: jest.fn().mockResolvedValue(undefined) };
+
+    registry.register('ORDER_CREATED', failing, { name: 'failing' });
+    registry.register('ORDER_CREATED', healthy, { name: 'healthy' });
+
+    const result = await registry.dispatch(orderCreated());
+
+    expect(healthy.handle).toHaveBeenCalled();
+    expect(result.succeeded).toEqual(['healthy']);
+    expect(result.failed).toEqual([{ handler: 'failing', error: new Error('Handler error') }]);
+  });
+
+  it('should retry a handler according to its retry policy', async () => {
+    const flaky = {
+      handle: jest.fn().mockRejectedValueOnce(new Error('Transient')).mockResolvedValue(undefined),
     };
 
-    registry.register('ORDER_CREATED', mockHandler);
+    registry.register('ORDER_CREATED', flaky, {
+      name: 'flaky',
+      retry: { maxRetries: 1, initialDelayMs: 1 },
+    });
+
+    const result = await registry.dispatch(orderCreated());
+
+    expect(flaky.handle).toHaveBeenCalledTimes(2);
+    expect(result.succeeded).toEqual(['flaky']);
+  });
+
+  it('should run handlers concurrently in parallel mode', async () => {
+    registry = new EventHandlerRegistry({ mode: 'parallel' });
+    const started: string[] = [];
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => (release = resolve));
 
-    const event: ExtractEvent<'ORDER_CREATED'> = {
-      type: 'ORDER_CREATED',
-      payload: {
-        orderId: 'order-123' as never,
-        customerId: 'customer-123' as never,
-        items: [],
-        totalAmount: 100,
-        createdAt: new Date().toISOString(),
+    registry.register('ORDER_CREATED', {
+      handle: async () => {
+        started.push('slow');
+        await gate;
       },
-    };
+    }, { name: 'slow' });
+    registry.register('ORDER_CREATED', {
+      handle: async () => {
+        started.push('fast');
+        release();
+      },
+    }, { name: 'fast' });
+
+    const result = await registry.dispatch(orderCreated());
+
+    expect(started).toEqual(['slow', 'fast']);
+    expect(result.succeeded).toEqual(['slow', 'fast']);
+  });
+
+  it('should reject duplicate handler names for the same event type', () => {
+    const handler = { handle: jest.fn() };
+
+    registry.register('ORDER_CREATED', handler, { name: 'audit' });
 
-    await expect(registry.dispatch(event)).rejects.toThrow('Handler error');
+    expect(() => registry.register('ORDER_CREATED', handler, { name: 'audit' })).toThrow(
+      'Handler audit is already registered for ORDER_CREATED'
+    );
   });
 });
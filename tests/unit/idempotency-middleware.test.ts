@@ -0,0 +1,80 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { idempotencyMiddleware } from '../../src/middleware/idempotency-middleware';
+import { InMemoryIdempotencyStore } from '../../src/utils/idempotency-store';
+import { IdempotencyKeyReuseError } from '../../src/models/errors';
+
+describe('idempotencyMiddleware', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  let store: InMemoryIdempotencyStore;
+  let handler: jest.Mock<Promise<APIGatewayProxyResult>, []>;
+
+  const buildEvent = (body: unknown, key?: string, subject?: string): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'POST',
+      path: '/orders',
+      resource: '/orders',
+      headers: key !== undefined ? { 'idempotency-key': key } : {},
+      body: JSON.stringify(body),
+      ...(subject !== undefined && { principal: { subject, customerId: subject, roles: [] } }),
+    }) as unknown as APIGatewayProxyEvent;
+
+  beforeEach(() => {
+    store = new InMemoryIdempotencyStore();
+    handler = jest.fn().mockResolvedValue({ statusCode: 201, body: '{"orderId":"order-1"}' });
+  });
+
+  it('should pass through requests without an idempotency key', async () => {
+    const middleware = idempotencyMiddleware({ store });
+
+    await middleware(buildEvent({ a: 1 }), context, handler);
+    await middleware(buildEvent({ a: 1 }), context, handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replay the stored response for a repeated key', async () => {
+    const middleware = idempotencyMiddleware({ store });
+
+    const first = await middleware(buildEvent({ a: 1 }, 'key-1'), context, handler);
+    const second = await middleware(buildEvent({ a: 1 }, 'key-1'), context, handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(second.body).toBe(first.body);
+    expect(second.statusCode).toBe(201);
+    expect(second.headers?.['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('should keep the same key from different callers apart', async () => {
+    const middleware = idempotencyMiddleware({ store });
+
+    await middleware(buildEvent({ a: 1 }, 'key-1', 'customer-1'), context, handler);
+    const other = await middleware(buildEvent({ a: 2 }, 'key-1', 'customer-2'), context, handler);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(other.statusCode).toBe(201);
+    expect(other.headers?.['Idempotent-Replayed']).toBeUndefined();
+  });
+
+  it('should reject reuse of a key with a different body', async () => {
+    const middleware = idempotencyMiddleware({ store });
+
+    await middleware(buildEvent({ a: 1 }, 'key-1'), context, handler);
+
+    await expect(middleware(buildEvent({ a: 2 }, 'key-1'), context, handler)).rejects.toThrow(
+      IdempotencyKeyReuseError
+    );
+  });
+
+  it('should release the key when the handler fails so the client can retry', async () => {
+    const middleware = idempotencyMiddleware({ store });
+    handler.mockRejectedValueOnce(new Error('Downstream failure'));
+
+    await expect(middleware(buildEvent({ a: 1 }, 'key-1'), context, handler)).rejects.toThrow(
+      'Downstream failure'
+    );
+    const retried = await middleware(buildEvent({ a: 1 }, 'key-1'), context, handler);
+
+    expect(retried.statusCode).toBe(201);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,130 @@
+import { applyJsonPatch, applyMergePatch, diffJson } from '../../src/utils/json-patch';
+import { jsonPatchSchema } from '../../src/models/schemas';
+import { ConflictError, ValidationError } from '../../src/models/errors';
+
+describe('applyMergePatch', () => {
+  it('should merge objects recursively and remove members set to null', () => {
+    const target = { title: 'Goodbye!', author: { givenName: 'John', familyName: 'Doe' }, tags: ['a', 'b'] };
+
+    const result = applyMergePatch(target, {
+      title: 'Hello!',
+      author: { familyName: null },
+      tags: ['c'],
+      phoneNumber: '+01-123-456-7890',
+    });
+
+    expect(result).toEqual({
+      title: 'Hello!',
+      author: { givenName: 'John' },
+      tags: ['c'],
+      phoneNumber: '+01-123-456-7890',
+    });
+    expect(target.author.familyName).toBe('Doe');
+  });
+
+  it('should replace the target when the patch is not an object', () => {
+    expect(applyMergePatch({ a: 'b' }, ['c'])).toEqual(['c']);
+    expect(applyMergePatch({ a: 'b' }, null)).toBeNull();
+    expect(applyMergePatch({ a: 'foo' }, { a: { bb: { ccc: null } } })).toEqual({ a: { bb: {} } });
+  });
+
+  it('should reject members that would replace the prototype', () => {
+    expect(() => applyMergePatch({}, JSON.parse('{"__proto__": {"polluted": true}}'))).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe('applyJsonPatch', () => {
+  const document = { items: [{ name: 'a' }, { name: 'b' }], address: { city: 'Boston' } };
+
+  it('should apply operations in order without modifying the document', () => {
+    const result = applyJsonPatch(document, [
+      { op: 'replace', path: '/address/city', value: 'Denver' },
+      { op: 'add', path: '/items/-', value: { name: 'c' } },
+      { op: 'remove', path: '/items/0' },
+      { op: 'copy', from: '/items/0', path: '/items/1' },
+      { op: 'move', from: '/address/city', path: '/city' },
+      { op: 'test', path: '/items/1/name', value: 'b' },
+    ]);
+
+    expect(result).toEqual({
+      items: [{ name: 'b' }, { name: 'b' }, { name: 'c' }],
+      address: {},
+      city: 'Denver',
+    });
+    expect(document.address.city).toBe('Boston');
+  });
+
+  it('should unescape JSON Pointer tokens', () => {
+    expect(applyJsonPatch({ 'a/b': 1, 'm~n': 2 }, [
+      { op: 'replace', path: '/a~1b', value: 3 },
+      { op: 'remove', path: '/m~0n' },
+    ])).toEqual({ 'a/b': 3 });
+  });
+
+  it('should report the operation that cannot apply', () => {
+    const patch = (): unknown =>
+      applyJsonPatch(document, [
+        { op: 'replace', path: '/address/city', value: 'Denver' },
+        { op: 'remove', path: '/items/5' },
+      ]);
+
+    expect(patch).toThrow(ValidationError);
+    expect(patch).toThrow('JSON Patch operation 1 failed: array index 5 is out of range');
+  });
+
+  it('should reject replacing a member that does not exist', () => {
+    expect(() => applyJsonPatch(document, [{ op: 'replace', path: '/missing', value: 1 }])).toThrow(
+      'path /missing does not exist'
+    );
+  });
+
+  it('should raise a conflict when a test operation fails', () => {
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'test', path: '/address/city', value: 'Denver' }])
+    ).toThrow(ConflictError);
+  });
+
+  it('should not move a value into its own members', () => {
+    expect(() =>
+      applyJsonPatch(document, [{ op: 'move', from: '/address', path: '/address/old' }])
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('jsonPatchSchema', () => {
+  it('should accept operations with a null value', () => {
+    expect(jsonPatchSchema.parse([{ op: 'add', path: '/a', value: null }])).toEqual([
+      { op: 'add', path: '/a', value: null },
+    ]);
+  });
+
+  it('should reject unknown operations, missing values and invalid pointers', () => {
+    expect(jsonPatchSchema.safeParse([{ op: 'merge', path: '/a' }]).success).toBe(false);
+    expect(jsonPatchSchema.safeParse([{ op: 'add', path: '/a' }]).success).toBe(false);
+    expect(jsonPatchSchema.safeParse([{ op: 'remove', path: 'a' }]).success).toBe(false);
+    expect(jsonPatchSchema.safeParse([{ op: 'remove', path: '/a~2' }]).success).toBe(false);
+  });
+});
+
+describe('diffJson', () => {
+  it('should describe nested changes as operations on their paths', () => {
+    const before = { status: 'PENDING', items: [{ qty: 1 }, { qty: 2 }], address: { city: 'Boston', note: 'x' } };
+    const after = { status: 'PENDING', items: [{ qty: 3 }], address: { city: 'Boston' }, tag: 'new' };
+
+    const changes = diffJson(before, after);
+
+    expect(changes).toEqual([
+      { op: 'replace', path: '/items/0/qty', value: 3 },
+      { op: 'remove', path: '/items/1' },
+      { op: 'remove', path: '/address/note' },
+      { op: 'add', path: '/tag', value: 'new' },
+    ]);
+    expect(applyJsonPatch(before, changes)).toEqual(after);
+  });
+
+  it('should return no operations for equal documents', () => {
+    expect(diffJson({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+  });
+});
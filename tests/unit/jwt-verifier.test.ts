@@ -0,0 +1,142 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import {
+  JwksKeyResolver,
+  JwtClaims,
+  JwtVerifier,
+  StaticKeyResolver,
+} from '../../src/utils/jwt-verifier';
+import { ExternalServiceFailureError, UnauthorizedError } from '../../src/models/errors';
+
+const SECRET = 'test-secret';
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signHs256(claims: JwtClaims, secret = SECRET): string {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+}
+
+function signRs256(claims: JwtClaims, kid = 'key-1'): string {
+  const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+  return `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+}
+
+describe('JwtVerifier', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: JwtClaims = {
+    sub: 'customer-123',
+    iss: 'https://auth.example.com/',
+    aud: 'orders-api',
+    exp: now + 300,
+  };
+
+  const verifier = new JwtVerifier(
+    new StaticKeyResolver({ secret: SECRET, publicKeys: { 'key-1': publicKey } }),
+    { issuer: 'https://auth.example.com/', audience: 'orders-api' }
+  );
+
+  it('should verify HS256 tokens', async () => {
+    await expect(verifier.verify(signHs256(claims))).resolves.toMatchObject({ sub: 'customer-123' });
+  });
+
+  it('should verify RS256 tokens by key id', async () => {
+    await expect(verifier.verify(signRs256(claims))).resolves.toMatchObject({ sub: 'customer-123' });
+  });
+
+  it('should reject tokens signed with another key', async () => {
+    await expect(verifier.verify(signHs256(claims, 'other-secret'))).rejects.toThrow(
+      'Invalid token signature'
+    );
+    await expect(verifier.verify(signRs256(claims, 'key-2'))).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('should reject expired tokens', async () => {
+    await expect(verifier.verify(signHs256({ ...claims, exp: now - 120 }))).rejects.toThrow(
+      'Token has expired'
+    );
+  });
+
+  it('should reject tokens without an expiry', async () => {
+    const { exp: _exp, ...withoutExpiry } = claims;
+
+    await expect(verifier.verify(signHs256(withoutExpiry))).rejects.toThrow('Token has no expiry');
+  });
+
+  it('should reject tokens from another issuer or audience', async () => {
+    await expect(verifier.verify(signHs256({ ...claims, iss: 'https://evil.example.com/' }))).rejects.toThrow(
+      'Token issuer is not trusted'
+    );
+    await expect(verifier.verify(signHs256({ ...claims, aud: ['billing-api'] }))).rejects.toThrow(
+      'Token audience is not accepted'
+    );
+  });
+
+  it('should reject unsigned and malformed tokens', async () => {
+    const unsigned = `${encode({ alg: 'none' })}.${encode(claims)}.`;
+
+    await expect(verifier.verify(unsigned)).rejects.toThrow('Unsupported token algorithm: none');
+    await expect(verifier.verify('not-a-token')).rejects.toThrow('Malformed token');
+  });
+});
+
+describe('JwksKeyResolver', () => {
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] };
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should refetch for unknown key ids at most once per cooldown', async () => {
+    fetchSpy.mockResolvedValue(new Response(JSON.stringify(jwks)));
+    const resolver = new JwksKeyResolver('https://auth.example.com/jwks.json');
+
+    await expect(resolver.getKey('RS256', 'key-1')).resolves.toBeDefined();
+    await expect(resolver.getKey('RS256', 'unknown-1')).rejects.toThrow(UnauthorizedError);
+    await expect(resolver.getKey('RS256', 'unknown-2')).rejects.toThrow(UnauthorizedError);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an unreachable JWKS endpoint as an upstream failure', async () => {
+    fetchSpy.mockResolvedValueOnce(new Response('unavailable', { status: 503 }));
+    fetchSpy.mockRejectedValueOnce(new TypeError('fetch failed'));
+    const resolver = new JwksKeyResolver('https://auth.example.com/jwks.json');
+
+    await expect(resolver.getKey('RS256', 'key-1')).rejects.toThrow(ExternalServiceFailureError);
+    await expect(resolver.getKey('RS256', 'key-1')).rejects.toThrow(ExternalServiceFailureError);
+  });
+
+  it('should give up on a JWKS endpoint that does not answer in time', async () => {
+    fetchSpy.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+    const resolver = new JwksKeyResolver('https://auth.example.com/jwks.json', 0, 0, 10);
+
+    await expect(resolver.getKey('RS256', 'key-1')).rejects.toThrow(ExternalServiceFailureError);
+  });
+
+  it('should skip malformed keys and reject a JWKS document without keys', async () => {
+    fetchSpy.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({ keys: [null, { kty: 'RSA', kid: 'broken', n: 'AQAB' }, ...jwks.keys] })
+      )
+    );
+    fetchSpy.mockResolvedValueOnce(new Response(JSON.stringify({ keys: 'none' })));
+    const resolver = new JwksKeyResolver('https://auth.example.com/jwks.json');
+
+    await expect(resolver.getKey('RS256', 'key-1')).resolves.toBeDefined();
+    await expect(resolver.getKey('RS256', 'broken')).rejects.toThrow(UnauthorizedError);
+    await expect(
+      new JwksKeyResolver('https://auth.example.com/jwks.json').getKey('RS256', 'key-1')
+    ).rejects.toThrow(ExternalServiceFailureError);
+  });
+});
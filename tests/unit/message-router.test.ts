@@ -0,0 +1,95 @@
+import { SQSRecord } from 'aws-lambda';
+import { MessageHandler, MessageRouter } from '../../src/services/message-router';
+import { QueueService } from '../../src/services/messaging-service';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+
+describe('MessageRouter', () => {
+  let router: MessageRouter;
+  let handler: MessageHandler<'PROCESS_ORDER'>;
+
+  const buildRecord = (body: unknown): SQSRecord =>
+    ({
+      messageId: 'message-123',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+      attributes: {},
+    }) as unknown as SQSRecord;
+
+  beforeEach(() => {
+    router = new MessageRouter();
+    handler = { handle: jest.fn().mockResolvedValue(undefined) };
+    router.register('PROCESS_ORDER', handler);
+  });
+
+  it('should dispatch validated data to the registered handler', async () => {
+    const record = buildRecord({ type: 'PROCESS_ORDER', data: { orderId: 'order-123' } });
+
+    const result = await router.route(record);
+
+    expect(result).toEqual({ status: 'HANDLED', type: 'PROCESS_ORDER' });
+    expect(handler.handle).toHaveBeenCalledWith({ orderId: 'order-123' }, record);
+  });
+
+  it('should reject messages whose data violates the contract', async () => {
+    const result = await router.route(buildRecord({ type: 'PROCESS_ORDER', data: {} }));
+
+    expect(result).toMatchObject({ status: 'REJECTED', reason: 'INVALID_MESSAGE' });
+    expect(handler.handle).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown message types', async () => {
+    const result = await router.route(buildRecord({ type: 'LAUNCH_ROCKET', data: {} }));
+
+    expect(result).toMatchObject({ status: 'REJECTED', reason: 'UNKNOWN_MESSAGE_TYPE' });
+  });
+
+  it('should reject known types without a registered handler', async () => {
+    const result = await router.route(
+      buildRecord({
+        type: 'SEND_EMAIL',
+        data: { to: 'test@example.com', subject: 'Hello', body: 'World' },
+      })
+    );
+
+    expect(result).toMatchObject({ status: 'REJECTED', reason: 'UNKNOWN_MESSAGE_TYPE' });
+  });
+
+  it('should reject bodies that are not JSON', async () => {
+    const result = await router.route(buildRecord('not-json'));
+
+    expect(result).toMatchObject({ status: 'REJECTED', reason: 'MALFORMED_MESSAGE' });
+  });
+
+  it('should propagate handler errors so the message is retried', async () => {
+    (handler.handle as jest.Mock).mockRejectedValue(new Error('Downstream failure'));
+
+    await expect(
+      router.route(buildRecord({ type: 'PROCESS_ORDER', data: { orderId: 'order-123' } }))
+    ).rejects.toThrow('Downstream failure');
+  });
+});
+
+describe('QueueService.sendTypedMessage', () => {
+  it('should validate data against the shared contract before sending', async () => {
+    const send = jest.fn().mockResolvedValue({});
+    const queueService = new QueueService({ send } as unknown as SQSClient);
+
+    await queueService.sendTypedMessage('queue-url', 'PROCESS_ORDER', {
+      orderId: 'order-123' as never,
+    });
+
+    const command = send.mock.calls[0][0] as SendMessageCommand;
+    expect(JSON.parse(command.input.MessageBody ?? '{}')).toEqual({
+      type: 'PROCESS_ORDER',
+      data: { orderId: 'order-123' },
+    });
+
+    await expect(
+      queueService.sendTypedMessage('queue-url', 'SEND_EMAIL', {
+        to: 'not-an-email' as never,
+        subject: 'Hello',
+        body: 'World',
+      })
+    ).rejects.toThrow();
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { formatMoney, money, multiplyMoney, sumMoney } from '../../src/models/money';
+import { orderItemSchema } from '../../src/models/schemas';
+import { ValidationError } from '../../src/models/errors';
+
+describe('money', () => {
+  it('should only accept whole minor units of supported currencies', () => {
+    expect(money(1999, 'USD')).toEqual({ amount: 1999, currency: 'USD' });
+    expect(() => money(19.99, 'USD')).toThrow(ValidationError);
+    expect(() => money(1999, 'XYZ')).toThrow('Unsupported currency: XYZ');
+  });
+
+  it('should add amounts exactly', () => {
+    expect(sumMoney([money(10, 'USD'), money(20, 'USD')], 'USD')).toEqual(money(30, 'USD'));
+    expect(multiplyMoney(money(1999, 'USD'), 3)).toEqual(money(5997, 'USD'));
+    expect(sumMoney([], 'EUR')).toEqual(money(0, 'EUR'));
+  });
+
+  it('should not sum amounts of different currencies', () => {
+    expect(() => sumMoney([money(100, 'USD'), money(100, 'EUR')], 'USD')).toThrow(
+      'Amounts must share one currency, got USD, EUR'
+    );
+    expect(() => sumMoney([money(100, 'EUR')], 'USD')).toThrow(ValidationError);
+  });
+
+  it('should format with the currency minor units', () => {
+    expect(formatMoney(money(123450, 'USD'))).toBe('$1,234.50');
+    expect(formatMoney(money(1235, 'JPY'))).toBe('¥1,235');
+    expect(formatMoney(money(1500, 'KWD'))).toMatch(/^KWD\s1\.500$/);
+  });
+});
+
+describe('order item money', () => {
+  const item = (currency: string, amount = 2999) =>
+    orderItemSchema.safeParse({
+      productId: '123e4567-e89b-12d3-a456-426614174000',
+      name: 'Widget',
+      quantity: 1,
+      price: { amount, currency },
+    });
+
+  it('should accept items priced in minor units', () => {
+    expect(item('USD').success).toBe(true);
+  });
+
+  it('should reject fractional amounts and unknown currencies', () => {
+    expect(item('USD', 29.99).success).toBe(false);
+    expect(item('XYZ').success).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { OrderBuilder, OrderStatus } from '../../src/models/entities';
 import { OrderId, CustomerId } from '../../src/models/types';
+import { money } from '../../src/models/money';
 
 describe('OrderBuilder', () => {
   it('should build a valid order', () => {
@@ -12,7 +13,7 @@ describe('OrderBuilder', () => {
           productId: 'prod-1',
           name: 'Test Product',
           quantity: 2,
-          price: 29.99,
+          price: money(2999, 'USD'),
         },
       ])
       .withShippingAddress({
@@ -29,7 +30,7 @@ describe('OrderBuilder', () => {
       customerId: 'customer-123',
       customerEmail: 'test@example.com',
       status: OrderStatus.PENDING,
-      totalAmount: 59.98,
+      totalAmount: money(5998, 'USD'),
       version: 1,
     });
     expect(order.createdAt).toBeDefined();
@@ -42,8 +43,8 @@ describe('OrderBuilder', () => {
       .withCustomerId('customer-123' as CustomerId)
       .withCustomerEmail('test@example.com')
       .withItems([
-        { productId: 'prod-1', name: 'Product 1', quantity: 2, price: 10.00 },
-        { productId: 'prod-2', name: 'Product 2', quantity: 3, price: 15.00 },
+        { productId: 'prod-1', name: 'Product 1', quantity: 2, price: money(1000, 'USD') },
+        { productId: 'prod-2', name: 'Product 2', quantity: 3, price: money(1500, 'USD') },
       ])
       .withShippingAddress({
         street: '123 Main St',
@@ -54,7 +55,7 @@ describe('OrderBuilder', () => {
       })
       .build();
 
-    expect(order.totalAmount).toBe(65.00);
+    expect(order.totalAmount).toEqual(money(6500, 'USD'));
   });
 
   it('should throw error when required fields are missing', () => {
@@ -83,7 +84,7 @@ describe('OrderBuilder', () => {
       .withOrderId('order-123' as OrderId)
       .withCustomerId('customer-123' as CustomerId)
       .withCustomerEmail('test@example.com')
-      .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: 10 }])
+      .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
       .withShippingAddress({
         street: '123 Main St',
         city: 'Boston',
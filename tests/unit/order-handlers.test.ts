@@ -0,0 +1,127 @@
+import { createHmac } from 'crypto';
+import { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { OrderService } from '../../src/services/order-service';
+import { patchOrderHandler, updateOrderHandler } from '../../src/handlers/order-handlers';
+import { FULFILMENT_ROLE } from '../../src/middleware/auth-middleware';
+import { Order, OrderBuilder, OrderStatus } from '../../src/models/entities';
+import { CustomerId, OrderId } from '../../src/models/types';
+import { JwtClaims } from '../../src/utils/jwt-verifier';
+import { money } from '../../src/models/money';
+
+jest.mock('../../src/services/order-service');
+
+const SECRET = 'test-secret';
+const ISSUER = 'https://auth.example.com/';
+
+const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signToken = (claims: JwtClaims): string => {
+  const payload = { iss: ISSUER, exp: Math.floor(Date.now() / 1000) + 300, ...claims };
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  return `${input}.${createHmac('sha256', SECRET).update(input).digest('base64url')}`;
+};
+
+describe('order status changes', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  const orderId = 'order-123' as OrderId;
+  const customer = { sub: 'user-1', customerId: 'customer-123', role: 'customer' };
+  const fulfilment = { sub: 'ops-1', roles: [FULFILMENT_ROLE] };
+  let orderService: jest.Mocked<OrderService>;
+  let order: Order;
+
+  const buildEvent = (
+    claims: JwtClaims,
+    body: unknown,
+    contentType = 'application/json'
+  ): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'PUT',
+      path: `/orders/${orderId}`,
+      pathParameters: { orderId },
+      headers: {
+        authorization: `Bearer ${signToken(claims)}`,
+        'content-type': contentType,
+        'if-match': '"1"',
+      },
+      body: JSON.stringify(body),
+    }) as unknown as APIGatewayProxyEvent;
+
+  const originalEnv = process.env;
+
+  beforeAll(() => {
+    process.env = { ...originalEnv, JWT_SECRET: SECRET, JWT_ISSUER: ISSUER };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  beforeEach(() => {
+    orderService = jest.mocked(OrderService).mock.instances[0] as jest.Mocked<OrderService>;
+    order = new OrderBuilder()
+      .withOrderId(orderId)
+      .withCustomerId('customer-123' as CustomerId)
+      .withCustomerEmail('test@example.com')
+      .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+      .withShippingAddress({
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      })
+      .build();
+    orderService.getOrder.mockResolvedValue(order);
+    orderService.updateOrder.mockResolvedValue(order);
+    orderService.patchOrder.mockResolvedValue(order);
+  });
+
+  it('should not let customers change the status of their own orders', async () => {
+    const put = await updateOrderHandler(buildEvent(customer, { status: 'SHIPPED' }), context);
+    const mergePatch = await patchOrderHandler(
+      buildEvent(customer, { status: 'DELIVERED' }, 'application/merge-patch+json'),
+      context
+    );
+    const jsonPatch = await patchOrderHandler(
+      buildEvent(
+        customer,
+        [{ op: 'replace', path: '/status', value: 'PROCESSING' }],
+        'application/json-patch+json'
+      ),
+      context
+    );
+
+    expect([put.statusCode, mergePatch.statusCode, jsonPatch.statusCode]).toEqual([403, 403, 403]);
+    expect(orderService.updateOrder).not.toHaveBeenCalled();
+    expect(orderService.patchOrder).not.toHaveBeenCalled();
+  });
+
+  it('should let customers resend the current status and fulfilment staff move it', async () => {
+    const resend = await updateOrderHandler(
+      buildEvent(customer, { status: OrderStatus.PENDING }),
+      context
+    );
+    const moved = await patchOrderHandler(
+      buildEvent(fulfilment, { status: 'PROCESSING' }, 'application/merge-patch+json'),
+      context
+    );
+
+    expect([resend.statusCode, moved.statusCode]).toEqual([200, 200]);
+  });
+
+  it('should match If-Match lists by strong comparison only', async () => {
+    const withIfMatch = (ifMatch: string): APIGatewayProxyEvent => {
+      const event = buildEvent(customer, { status: OrderStatus.PENDING });
+      return { ...event, headers: { ...event.headers, 'if-match': ifMatch } };
+    };
+    orderService.updateOrder.mockClear();
+
+    const listed = await updateOrderHandler(withIfMatch('"3", "1"'), context);
+    const weak = await updateOrderHandler(withIfMatch('W/"1"'), context);
+    const unlisted = await updateOrderHandler(withIfMatch('"2", "3", W/"1"'), context);
+
+    expect([listed.statusCode, weak.statusCode, unlisted.statusCode]).toEqual([200, 412, 412]);
+    expect(orderService.updateOrder).toHaveBeenCalledTimes(1);
+    expect(orderService.updateOrder).toHaveBeenCalledWith(expect.anything(), 1);
+  });
+});
@@ -1,25 +1,79 @@
 import { OrderService } from '../../src/services/order-service';
-import { DynamoDBRepository } from '../../src/utils/dynamodb-repository';
-import { EventPublisher } from '../../src/services/event-publisher';
-import { Order, OrderStatus, OrderBuilder } from '../../src/models/entities';
+import { InMemoryRepository } from '../../src/utils/in-memory-repository';
+import { InMemoryOutbox } from '../../src/services/outbox';
+import { PricingEngine } from '../../src/services/pricing-engine';
+import { ProductCatalogService } from '../../src/services/product-catalog';
+import {
+  Order,
+  OrderStatus,
+  OrderBuilder,
+  Product,
+  ProductStatus,
+  Repository,
+} from '../../src/models/entities';
 import { OrderId, CustomerId } from '../../src/models/types';
-import { CreateOrderRequest } from '../../src/models/schemas';
+import { CreateOrderRequest, pricingConfigSchema } from '../../src/models/schemas';
+import { money } from '../../src/models/money';
+import {
+  ConcurrentModificationError,
+  ConflictError,
+  InvalidStatusTransitionError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/models/errors';
+import { ZodError } from 'zod';
 
-// Mock dependencies
-jest.mock('../../src/utils/dynamodb-repository');
-jest.mock('../../src/services/event-publisher');
+const catalogProduct = (
+  productId: string,
+  name: string,
+  amount: number,
+  status = ProductStatus.ACTIVE
+): Product => ({
+  productId,
+  name,
+  price: money(amount, 'USD'),
+  status,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  version: 1,
+});
+
+const products = new Map(
+  [
+    catalogProduct('prod-1', 'Product 1', 1000),
+    catalogProduct('prod-2', 'Product 2', 500),
+    catalogProduct('2e9b4c1d-6f7a-4b8c-9d0e-1f2a3b4c5d6e', 'Product 3', 500),
+    catalogProduct('prod-old', 'Old Product', 100, ProductStatus.DISCONTINUED),
+  ].map((product) => [product.productId, product])
+);
+
+const productCatalog = new ProductCatalogService({
+  findById: (productId: string) => Promise.resolve(products.get(productId) ?? null),
+  batchGet: (productIds: string[]) =>
+    Promise.resolve(productIds.flatMap((productId) => products.get(productId) ?? [])),
+} as Repository<Product, string>);
 
 describe('OrderService', () => {
   let orderService: OrderService;
-  let mockRepository: jest.Mocked<DynamoDBRepository<Order, OrderId>>;
-  let mockEventPublisher: jest.Mocked<EventPublisher>;
+  let repository: InMemoryRepository<Order, OrderId>;
+  let outbox: InMemoryOutbox<Order, OrderId>;
+  let commit: jest.SpyInstance;
 
   beforeEach(() => {
-    mockRepository = new DynamoDBRepository<Order, OrderId>('test-table', 'orderId') as jest.Mocked<DynamoDBRepository<Order, OrderId>>;
-    mockEventPublisher = new EventPublisher() as jest.Mocked<EventPublisher>;
-    orderService = new OrderService(mockRepository, mockEventPublisher);
-
-    jest.clearAllMocks();
+    repository = new InMemoryRepository<Order, OrderId>('orderId', {
+      indexes: {
+        CustomerCreatedAtIndex: { partitionKey: 'customerId', sortKey: 'createdAt' },
+        StatusCreatedAtIndex: { partitionKey: 'status', sortKey: 'createdAt' },
+      },
+    });
+    outbox = new InMemoryOutbox(repository);
+    commit = jest.spyOn(outbox, 'commit');
+    orderService = new OrderService(
+      repository,
+      outbox,
+      new PricingEngine(pricingConfigSchema.parse({})),
+      productCatalog
+    );
   });
 
   describe('createOrder', () => {
@@ -27,14 +81,7 @@ describe('OrderService', () => {
       const request: CreateOrderRequest = {
         customerId: 'customer-123' as CustomerId,
         customerEmail: 'test@example.com' as never,
-        items: [
-          {
-            productId: 'prod-1',
-            name: 'Test Product',
-            quantity: 2,
-            price: 29.99,
-          },
-        ],
+        items: [{ productId: 'prod-1', quantity: 2 }],
         shippingAddress: {
           street: '123 Main St',
           city: 'Boston',
@@ -44,31 +91,54 @@ describe('OrderService', () => {
         },
       };
 
-      const mockOrder: Order = new OrderBuilder()
-        .withOrderId('order-123' as OrderId)
-        .withCustomerId(request.customerId)
-        .withCustomerEmail(request.customerEmail)
-        .withItems(request.items)
-        .withShippingAddress(request.shippingAddress)
-        .build();
-
-      mockRepository.save.mockResolvedValue(mockOrder);
-      mockEventPublisher.publish.mockResolvedValue();
 
       const result = await orderService.createOrder(request);
 
-      expect(result).toEqual(mockOrder);
-      expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      expect(result).toMatchObject({
         customerId: request.customerId,
         customerEmail: request.customerEmail,
-      }));
-      expect(mockEventPublisher.publish).toHaveBeenCalledWith({
-        type: 'ORDER_CREATED',
-        payload: expect.objectContaining({
-          customerId: mockOrder.customerId,
-          totalAmount: mockOrder.totalAmount,
-        }),
+        status: OrderStatus.PENDING,
+        version: 1,
       });
+      expect(commit).toHaveBeenCalledWith(
+        {
+          type: 'put',
+          entity: expect.objectContaining({
+            customerId: request.customerId,
+            customerEmail: request.customerEmail,
+          }),
+        },
+        [
+          {
+            type: 'ORDER_CREATED',
+            payload: expect.objectContaining({
+              orderId: result.orderId,
+              customerId: result.customerId,
+              totalAmount: result.totalAmount,
+            }),
+          },
+        ]
+      );
+    });
+
+    it('should not return an order when the outbox commit fails', async () => {
+      const request: CreateOrderRequest = {
+        customerId: 'customer-123' as CustomerId,
+        customerEmail: 'test@example.com' as never,
+        items: [{ productId: 'prod-1', quantity: 1 }],
+        shippingAddress: {
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        },
+      };
+
+      commit.mockRejectedValue(new Error('Transaction cancelled'));
+
+      await expect(orderService.createOrder(request)).rejects.toThrow('Transaction cancelled');
+      expect((await repository.findAll()).items).toEqual([]);
     });
 
     it('should calculate total amount correctly', async () => {
@@ -76,8 +146,8 @@ describe('OrderService', () => {
         customerId: 'customer-123' as CustomerId,
         customerEmail: 'test@example.com' as never,
         items: [
-          { productId: 'prod-1', name: 'Product 1', quantity: 2, price: 10.00 },
-          { productId: 'prod-2', name: 'Product 2', quantity: 1, price: 15.00 },
+          { productId: 'prod-1', quantity: 2 },
+          { productId: 'prod-2', quantity: 3 },
         ],
         shippingAddress: {
           street: '123 Main St',
@@ -88,12 +158,57 @@ describe('OrderService', () => {
         },
       };
 
-      mockRepository.save.mockImplementation(async (order) => order);
-      mockEventPublisher.publish.mockResolvedValue();
 
       const result = await orderService.createOrder(request);
 
-      expect(result.totalAmount).toBe(35.00);
+      expect(result.totalAmount).toEqual(money(3500, 'USD'));
+    });
+
+    it('should price items from the catalog and record the product version', async () => {
+
+      const result = await orderService.createOrder({
+        customerId: 'customer-123' as CustomerId,
+        customerEmail: 'test@example.com' as never,
+        items: [{ productId: 'prod-2', quantity: 2 }],
+        shippingAddress: {
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        },
+      });
+
+      expect(result.items).toEqual([
+        {
+          productId: 'prod-2',
+          name: 'Product 2',
+          quantity: 2,
+          price: money(500, 'USD'),
+          catalogVersion: 1,
+        },
+      ]);
+    });
+
+    it('should reject unknown and discontinued products without writing', async () => {
+      const request = (productId: string): CreateOrderRequest => ({
+        customerId: 'customer-123' as CustomerId,
+        customerEmail: 'test@example.com' as never,
+        items: [{ productId, quantity: 1 }],
+        shippingAddress: {
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        },
+      });
+
+      await expect(orderService.createOrder(request('prod-missing'))).rejects.toThrow(
+        new ValidationError('Unknown products: prod-missing')
+      );
+      await expect(orderService.createOrder(request('prod-old'))).rejects.toThrow(ConflictError);
+      expect(commit).not.toHaveBeenCalled();
     });
   });
 
@@ -104,7 +219,7 @@ describe('OrderService', () => {
         .withOrderId(orderId)
         .withCustomerId('customer-123' as CustomerId)
         .withCustomerEmail('test@example.com')
-        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: 10 }])
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
         .withShippingAddress({
           street: '123 Main St',
           city: 'Boston',
@@ -114,17 +229,48 @@ describe('OrderService', () => {
         })
         .build();
 
-      mockRepository.findById.mockResolvedValue(mockOrder);
+      await repository.save(mockOrder);
 
       const result = await orderService.getOrder(orderId);
 
       expect(result).toEqual(mockOrder);
-      expect(mockRepository.findById).toHaveBeenCalledWith(orderId);
+    });
+
+    it('should read amounts of orders stored before Money as minor units', async () => {
+      const orderId = 'legacy-order' as OrderId;
+      const legacyOrder = {
+        orderId,
+        customerId: 'customer-123',
+        customerEmail: 'test@example.com',
+        items: [{ productId: 'prod-1', name: 'Product', quantity: 2, price: 29.99 }],
+        status: OrderStatus.PENDING,
+        totalAmount: 59.98,
+        shippingAddress: {
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        version: 1,
+      };
+      await repository.save(legacyOrder as unknown as Order);
+
+      const result = await orderService.getOrder(orderId);
+
+      expect(result).toMatchObject({
+        items: [{ price: money(2999, 'USD') }],
+        totalAmount: money(5998, 'USD'),
+      });
+      await expect(
+        orderService.updateOrder({ orderId, status: 'PROCESSING' })
+      ).resolves.toMatchObject({ status: OrderStatus.PROCESSING, totalAmount: money(5998, 'USD') });
     });
 
     it('should return null when order does not exist', async () => {
       const orderId = 'non-existent' as OrderId;
-      mockRepository.findById.mockResolvedValue(null);
 
       const result = await orderService.getOrder(orderId);
 
@@ -139,7 +285,7 @@ describe('OrderService', () => {
         .withOrderId(orderId)
         .withCustomerId('customer-123' as CustomerId)
         .withCustomerEmail('test@example.com')
-        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: 10 }])
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
         .withShippingAddress({
           street: '123 Main St',
           city: 'Boston',
@@ -149,11 +295,7 @@ describe('OrderService', () => {
         })
         .build();
 
-      const updatedOrder = { ...existingOrder, status: OrderStatus.PROCESSING, version: 2 };
-
-      mockRepository.findById.mockResolvedValue(existingOrder);
-      mockRepository.update.mockResolvedValue(updatedOrder);
-      mockEventPublisher.publish.mockResolvedValue();
+      await repository.save(existingOrder);
 
       const result = await orderService.updateOrder({
         orderId,
@@ -162,20 +304,463 @@ describe('OrderService', () => {
 
       expect(result.status).toBe(OrderStatus.PROCESSING);
       expect(result.version).toBe(2);
-      expect(mockEventPublisher.publish).toHaveBeenCalledWith({
-        type: 'ORDER_UPDATED',
-        payload: expect.any(Object),
-      });
+      expect(commit).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'update', id: orderId }),
+        expect.arrayContaining([{ type: 'ORDER_UPDATED', payload: expect.any(Object) }])
+      );
+    });
+
+    it('should publish a status changed event with from and to states', async () => {
+      const orderId = 'order-123' as OrderId;
+      const existingOrder: Order = new OrderBuilder()
+        .withOrderId(orderId)
+        .withCustomerId('customer-123' as CustomerId)
+        .withCustomerEmail('test@example.com')
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+        .withShippingAddress({
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        })
+        .build();
+
+      await repository.save(existingOrder);
+
+      await orderService.updateOrder({ orderId, status: 'PROCESSING' });
+
+      expect(commit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.arrayContaining([
+          {
+            type: 'ORDER_STATUS_CHANGED',
+            payload: expect.objectContaining({
+              orderId,
+              fromStatus: OrderStatus.PENDING,
+              toStatus: OrderStatus.PROCESSING,
+            }),
+          },
+        ])
+      );
+    });
+
+    it('should reject an illegal status transition without writing', async () => {
+      const orderId = 'order-123' as OrderId;
+      const deliveredOrder: Order = new OrderBuilder()
+        .withOrderId(orderId)
+        .withCustomerId('customer-123' as CustomerId)
+        .withCustomerEmail('test@example.com')
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+        .withStatus(OrderStatus.DELIVERED)
+        .withShippingAddress({
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        })
+        .build();
+
+      await repository.save(deliveredOrder);
+
+      await expect(orderService.updateOrder({ orderId, status: 'PENDING' }))
+        .rejects
+        .toThrow(InvalidStatusTransitionError);
+      expect(commit).not.toHaveBeenCalled();
+    });
+
+    it('should write conditionally on the version that was read', async () => {
+      const orderId = 'order-123' as OrderId;
+      const existingOrder: Order = new OrderBuilder()
+        .withOrderId(orderId)
+        .withCustomerId('customer-123' as CustomerId)
+        .withCustomerEmail('test@example.com')
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+        .withShippingAddress({
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        })
+        .build();
+
+      await repository.save(existingOrder);
+
+      await orderService.updateOrder({ orderId, status: 'PROCESSING' }, 1);
+
+      expect(commit).toHaveBeenCalledWith(
+        {
+          type: 'update',
+          id: orderId,
+          updates: expect.objectContaining({ version: 2 }),
+          options: { expectedVersion: 1 },
+        },
+        expect.any(Array)
+      );
+    });
+
+    it('should reject a stale If-Match version without writing', async () => {
+      const orderId = 'order-123' as OrderId;
+      const existingOrder: Order = {
+        ...new OrderBuilder()
+          .withOrderId(orderId)
+          .withCustomerId('customer-123' as CustomerId)
+          .withCustomerEmail('test@example.com')
+          .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+          .withShippingAddress({
+            street: '123 Main St',
+            city: 'Boston',
+            state: 'MA',
+            zipCode: '02101',
+            country: 'US',
+          })
+          .build(),
+        version: 3,
+      };
+
+      await repository.save(existingOrder);
+
+      await expect(orderService.updateOrder({ orderId, status: 'PROCESSING' }, 2))
+        .rejects
+        .toThrow(ConcurrentModificationError);
+      expect(commit).not.toHaveBeenCalled();
     });
 
     it('should throw error when order not found', async () => {
       const orderId = 'non-existent' as OrderId;
-      mockRepository.findById.mockResolvedValue(null);
 
       await expect(orderService.updateOrder({ orderId, status: 'PROCESSING' }))
         .rejects
         .toThrow('Order not found');
     });
+
+    it('should keep the price of items on the order and price new ones from the catalog', async () => {
+      const orderId = 'order-123' as OrderId;
+      const item = { productId: 'prod-1', name: 'Product', quantity: 1, price: money(800, 'USD') };
+      await repository.save(
+        new OrderBuilder()
+          .withOrderId(orderId)
+          .withCustomerId('customer-123' as CustomerId)
+          .withCustomerEmail('test@example.com')
+          .withItems([item])
+          .withShippingAddress({
+            street: '123 Main St',
+            city: 'Boston',
+            state: 'MA',
+            zipCode: '02101',
+            country: 'US',
+          })
+          .build()
+      );
+
+      const result = await orderService.updateOrder({
+        orderId,
+        items: [
+          { productId: 'prod-1', quantity: 2 },
+          { productId: 'prod-2', quantity: 1 },
+        ],
+      });
+
+      expect(result.items).toEqual([
+        { ...item, quantity: 2 },
+        { productId: 'prod-2', name: 'Product 2', quantity: 1, price: money(500, 'USD'), catalogVersion: 1 },
+      ]);
+      expect(result.totalAmount).toEqual(money(2100, 'USD'));
+      await expect(
+        orderService.updateOrder({ orderId, items: [{ productId: 'prod-old', quantity: 1 }] })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should not change items or the address once the order has shipped', async () => {
+      const orderId = 'order-123' as OrderId;
+      const shippingAddress = {
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      };
+      const item = { productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') };
+      await repository.save(
+        new OrderBuilder()
+          .withOrderId(orderId)
+          .withCustomerId('customer-123' as CustomerId)
+          .withCustomerEmail('test@example.com')
+          .withItems([item])
+          .withStatus(OrderStatus.SHIPPED)
+          .withShippingAddress(shippingAddress)
+          .build()
+      );
+
+      await expect(
+        orderService.updateOrder({ orderId, items: [{ productId: item.productId, quantity: 2 }] })
+      ).rejects.toThrow('Order is SHIPPED and its items can no longer change');
+      await expect(
+        orderService.updateOrder({ orderId, shippingAddress: { ...shippingAddress, city: 'Cambridge' } })
+      ).rejects.toThrow('Order is SHIPPED and its shipping address can no longer change');
+      expect(commit).not.toHaveBeenCalled();
+
+      // Resending the stored address alongside a status change is not a change
+      await expect(
+        orderService.updateOrder({ orderId, status: 'DELIVERED', shippingAddress })
+      ).resolves.toMatchObject({ status: OrderStatus.DELIVERED });
+    });
+  });
+
+  describe('patchOrder', () => {
+    const orderId = 'order-123' as OrderId;
+    const productId = '7d3f1c2e-4b5a-4c6d-8e9f-0a1b2c3d4e5f';
+    let existingOrder: Order;
+
+    beforeEach(async () => {
+      const items = [{ productId, name: 'Product', quantity: 1, price: money(1000, 'USD') }];
+      const shippingAddress = {
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      };
+
+      existingOrder = new OrderBuilder()
+        .withOrderId(orderId)
+        .withCustomerId('customer-123' as CustomerId)
+        .withCustomerEmail('test@example.com')
+        .withItems(items)
+        .withShippingAddress(shippingAddress)
+        .withPricing(new PricingEngine(pricingConfigSchema.parse({})).price({ items, shippingAddress }))
+        .build();
+
+      await repository.save(existingOrder);
+    });
+
+    it('should merge a partial shipping address and report the change', async () => {
+      const result = await orderService.patchOrder(orderId, {
+        type: 'merge',
+        document: { shippingAddress: { city: 'Cambridge', zipCode: '02139' } },
+      });
+
+      expect(result.shippingAddress).toEqual({ ...existingOrder.shippingAddress, city: 'Cambridge', zipCode: '02139' });
+      expect(commit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          updates: expect.not.objectContaining({ items: expect.anything() }),
+        }),
+        [
+          {
+            type: 'ORDER_UPDATED',
+            payload: expect.objectContaining({
+              changes: [
+                { op: 'replace', path: '/shippingAddress/city', value: 'Cambridge' },
+                { op: 'replace', path: '/shippingAddress/zipCode', value: '02139' },
+              ],
+            }),
+          },
+        ]
+      );
+    });
+
+    it('should change one line item and recompute the total', async () => {
+      const result = await orderService.patchOrder(orderId, {
+        type: 'json-patch',
+        operations: [
+          { op: 'test', path: '/items/0/quantity', value: 1 },
+          { op: 'replace', path: '/items/0/quantity', value: 3 },
+        ],
+      });
+
+      expect(result.totalAmount).toEqual(money(3000, 'USD'));
+      expect(commit).toHaveBeenCalledWith(expect.anything(), [
+        {
+          type: 'ORDER_UPDATED',
+          payload: expect.objectContaining({
+            changes: expect.arrayContaining([
+              { op: 'replace', path: '/items/0/quantity', value: 3 },
+              { op: 'replace', path: '/totalAmount/amount', value: 3000 },
+              { op: 'replace', path: '/pricing/subtotal/amount', value: 3000 },
+            ]),
+          }),
+        },
+      ]);
+    });
+
+    it('should take patched items as product and quantity and price new ones from the catalog', async () => {
+      const newProductId = '2e9b4c1d-6f7a-4b8c-9d0e-1f2a3b4c5d6e';
+      const result = await orderService.patchOrder(orderId, {
+        type: 'json-patch',
+        operations: [{ op: 'add', path: '/items/-', value: { productId: newProductId, quantity: 2 } }],
+      });
+
+      expect(result.items[1]).toMatchObject({ name: 'Product 3', price: money(500, 'USD') });
+      expect(result.totalAmount).toEqual(money(2000, 'USD'));
+      await expect(
+        orderService.patchOrder(orderId, {
+          type: 'json-patch',
+          operations: [{ op: 'add', path: '/items/0/price', value: money(1, 'USD') }],
+        })
+      ).rejects.toThrow(ZodError);
+    });
+
+    it('should reject a patched order that fails validation without writing', async () => {
+      await expect(
+        orderService.patchOrder(orderId, { type: 'merge', document: { items: [], orderId: 'other' } })
+      ).rejects.toThrow(ZodError);
+      await expect(
+        orderService.patchOrder(orderId, {
+          type: 'json-patch',
+          operations: [{ op: 'remove', path: '/shippingAddress/zipCode' }],
+        })
+      ).rejects.toThrow(ZodError);
+      expect(commit).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the order lifecycle on patched statuses', async () => {
+      await expect(
+        orderService.patchOrder(orderId, { type: 'merge', document: { status: 'DELIVERED' } })
+      ).rejects.toThrow(InvalidStatusTransitionError);
+    });
+
+    it('should not change items or the address once the order has shipped', async () => {
+      await repository.save({ ...existingOrder, status: OrderStatus.SHIPPED });
+
+      await expect(
+        orderService.patchOrder(orderId, {
+          type: 'json-patch',
+          operations: [{ op: 'replace', path: '/items/0/quantity', value: 3 }],
+        })
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        orderService.patchOrder(orderId, {
+          type: 'merge',
+          document: { shippingAddress: { city: 'Cambridge' } },
+        })
+      ).rejects.toThrow('Order is SHIPPED and its shipping address can no longer change');
+      expect(commit).not.toHaveBeenCalled();
+    });
+
+    it('should not write when the patch changes nothing', async () => {
+      const result = await orderService.patchOrder(orderId, {
+        type: 'merge',
+        document: { status: 'PENDING' },
+      });
+
+      expect(result).toEqual(existingOrder);
+      expect(commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('line items', () => {
+    const orderId = 'order-123' as OrderId;
+    const item = { productId: 'prod-1', name: 'Product 1', quantity: 2, price: money(1000, 'USD') };
+    const otherItem = {
+      productId: 'prod-2',
+      name: 'Product 2',
+      quantity: 1,
+      price: money(500, 'USD'),
+      catalogVersion: 1,
+    };
+
+    const orderWith = (items: Order['items'], status = OrderStatus.PENDING): Order =>
+      new OrderBuilder()
+        .withOrderId(orderId)
+        .withCustomerId('customer-123' as CustomerId)
+        .withCustomerEmail('test@example.com')
+        .withItems(items)
+        .withStatus(status)
+        .withShippingAddress({
+          street: '123 Main St',
+          city: 'Boston',
+          state: 'MA',
+          zipCode: '02101',
+          country: 'US',
+        })
+        .build();
+
+    beforeEach(() => {
+    });
+
+    it('should add an item, recompute the total and publish ORDER_ITEM_ADDED', async () => {
+      await repository.save(orderWith([item]));
+
+      const result = await orderService.addItem(orderId, { productId: 'prod-2', quantity: 1 }, 1);
+
+      expect(result.items).toEqual([item, otherItem]);
+      expect(result.totalAmount).toEqual(money(2500, 'USD'));
+      expect(commit).toHaveBeenCalledWith(
+        expect.objectContaining({ options: { expectedVersion: 1 } }),
+        [
+          expect.objectContaining({ type: 'ORDER_UPDATED' }),
+          {
+            type: 'ORDER_ITEM_ADDED',
+            payload: { orderId, item: otherItem, totalAmount: money(2500, 'USD'), addedAt: result.updatedAt },
+          },
+        ]
+      );
+    });
+
+    it('should reject adding a product that is already on the order', async () => {
+      await repository.save(orderWith([item]));
+
+      await expect(orderService.addItem(orderId, { productId: 'prod-1', quantity: 1 })).rejects.toThrow(
+        ConflictError
+      );
+      expect(commit).not.toHaveBeenCalled();
+    });
+
+    it('should change a quantity and publish both quantities', async () => {
+      await repository.save(orderWith([item, otherItem]));
+
+      const result = await orderService.changeItemQuantity(orderId, 'prod-1', 5);
+
+      expect(result.totalAmount).toEqual(money(5500, 'USD'));
+      expect(commit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.arrayContaining([
+          {
+            type: 'ORDER_ITEM_QUANTITY_CHANGED',
+            payload: expect.objectContaining({ productId: 'prod-1', fromQuantity: 2, toQuantity: 5, totalAmount: money(5500, 'USD') }),
+          },
+        ])
+      );
+    });
+
+    it('should remove an item and publish it as it was', async () => {
+      await repository.save(orderWith([item, otherItem]));
+
+      const result = await orderService.removeItem(orderId, 'prod-2');
+
+      expect(result.items).toEqual([item]);
+      expect(result.totalAmount).toEqual(money(2000, 'USD'));
+      expect(commit).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.arrayContaining([
+          {
+            type: 'ORDER_ITEM_REMOVED',
+            payload: expect.objectContaining({ item: otherItem, totalAmount: money(2000, 'USD') }),
+          },
+        ])
+      );
+    });
+
+    it('should not remove the last item or an item that is not on the order', async () => {
+      await repository.save(orderWith([item]));
+
+      await expect(orderService.removeItem(orderId, 'prod-1')).rejects.toThrow(ConflictError);
+      await expect(orderService.removeItem(orderId, 'prod-9')).rejects.toThrow(NotFoundError);
+      expect(commit).not.toHaveBeenCalled();
+    });
+
+    it('should not change items once the order is no longer pending', async () => {
+      await repository.save(orderWith([item, otherItem], OrderStatus.SHIPPED));
+
+      await expect(orderService.addItem(orderId, { productId: 'prod-3', quantity: 1 })).rejects.toThrow(
+        'Order is SHIPPED and its items can no longer change'
+      );
+      await expect(orderService.changeItemQuantity(orderId, 'prod-1', 1)).rejects.toThrow(ConflictError);
+      await expect(orderService.removeItem(orderId, 'prod-2')).rejects.toThrow(ConflictError);
+      expect(commit).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteOrder', () => {
@@ -185,7 +770,7 @@ describe('OrderService', () => {
         .withOrderId(orderId)
         .withCustomerId('customer-123' as CustomerId)
         .withCustomerEmail('test@example.com')
-        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: 10 }])
+        .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
         .withShippingAddress({
           street: '123 Main St',
           city: 'Boston',
@@ -195,20 +780,202 @@ describe('OrderService', () => {
         })
         .build();
 
-      mockRepository.findById.mockResolvedValue(mockOrder);
-      mockRepository.delete.mockResolvedValue();
-      mockEventPublisher.publish.mockResolvedValue();
+      await repository.save(mockOrder);
 
       await orderService.deleteOrder(orderId, 'Customer requested');
 
-      expect(mockRepository.delete).toHaveBeenCalledWith(orderId);
-      expect(mockEventPublisher.publish).toHaveBeenCalledWith({
-        type: 'ORDER_DELETED',
-        payload: expect.objectContaining({
-          orderId,
-          reason: 'Customer requested',
-        }),
+      expect(commit).toHaveBeenCalledWith(
+        { type: 'delete', id: orderId, options: { expectedVersion: 1 } },
+        [
+          {
+            type: 'ORDER_DELETED',
+            payload: expect.objectContaining({
+              orderId,
+              reason: 'Customer requested',
+            }),
+          },
+        ]
+      );
+    });
+  });
+
+  describe('listOrders', () => {
+    let queryByIndex: jest.SpyInstance;
+    let findAll: jest.SpyInstance;
+
+    beforeEach(() => {
+      queryByIndex = jest.spyOn(repository, 'queryByIndex');
+      findAll = jest.spyOn(repository, 'findAll');
+    });
+
+    it('should query the customer index with a createdAt range and sort order', async () => {
+      await orderService.listOrders({
+        customerId: 'customer-123' as CustomerId,
+        status: OrderStatus.SHIPPED,
+        createdFrom: '2024-01-01T00:00:00.000Z',
+        createdTo: '2024-02-01T00:00:00.000Z',
+        sortOrder: 'desc',
+        limit: 20,
+      });
+
+      expect(queryByIndex).toHaveBeenCalledWith(
+        'CustomerCreatedAtIndex',
+        {
+          partitionKey: 'customerId',
+          value: 'customer-123',
+          sortKey: {
+            kind: 'between',
+            path: 'createdAt',
+            from: '2024-01-01T00:00:00.000Z',
+            to: '2024-02-01T00:00:00.000Z',
+          },
+        },
+        {
+          limit: 20,
+          nextToken: undefined,
+          sortOrder: 'desc',
+          filter: { kind: 'compare', path: 'status', operator: '=', value: OrderStatus.SHIPPED },
+        }
+      );
+    });
+
+    it('should query the status index when no customer is given', async () => {
+      await orderService.listOrders({
+        status: OrderStatus.PENDING,
+        minAmount: 10,
+        metadata: { channel: 'web' },
+        limit: 20,
+      });
+
+      expect(queryByIndex).toHaveBeenCalledWith(
+        'StatusCreatedAtIndex',
+        expect.objectContaining({ partitionKey: 'status', value: OrderStatus.PENDING }),
+        expect.objectContaining({
+          filter: {
+            kind: 'and',
+            conditions: [
+              { kind: 'compare', path: 'totalAmount.amount', operator: '>=', value: 10 },
+              { kind: 'compare', path: 'metadata.channel', operator: '=', value: 'web' },
+            ],
+          },
+        })
+      );
+      expect(findAll).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a filtered scan without indexed keys', async () => {
+      await orderService.listOrders({ createdTo: '2024-02-01T00:00:00.000Z', limit: 20 });
+
+      expect(findAll).toHaveBeenCalledWith({
+        limit: 20,
+        nextToken: undefined,
+        filter: {
+          kind: 'compare',
+          path: 'createdAt',
+          operator: '<=',
+          value: '2024-02-01T00:00:00.000Z',
+        },
       });
     });
+
+    it('should reject sorting a scan', async () => {
+      await expect(orderService.listOrders({ sortOrder: 'asc', limit: 20 })).rejects.toThrow(
+        'Sorting requires a customerId or status filter'
+      );
+    });
+  });
+
+  describe('pricing', () => {
+    const pricingEngine = new PricingEngine(
+      pricingConfigSchema.parse({
+        coupons: { SAVE10: { type: 'percent', percentOff: 10 } },
+        shipping: { US: { baseFee: money(500, 'USD'), perKg: money(100, 'USD') } },
+        tax: { US: { rate: 0, states: { MA: 0.0625, NY: 0.04 } } },
+      })
+    );
+    const request: CreateOrderRequest = {
+      customerId: 'customer-123' as CustomerId,
+      customerEmail: 'test@example.com' as never,
+      items: [{ productId: 'prod-1', quantity: 4 }],
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      },
+      couponCode: 'save10',
+    };
+
+    beforeEach(() => {
+      orderService = new OrderService(repository, outbox, pricingEngine, productCatalog);
+    });
+
+    it('should store the breakdown and charge its total', async () => {
+      const order = await orderService.createOrder(request);
+
+      // 4000 - 400 coupon + 700 shipping for 2 kg + 225 tax on 3600
+      expect(order.couponCode).toBe('save10');
+      expect(order.pricing).toMatchObject({
+        subtotal: money(4000, 'USD'),
+        coupon: { code: 'SAVE10', discount: money(400, 'USD') },
+        shipping: money(700, 'USD'),
+        tax: money(225, 'USD'),
+        total: money(4525, 'USD'),
+      });
+      expect(order.totalAmount).toEqual(money(4525, 'USD'));
+    });
+
+    it('should reprice with the stored coupon when the address changes', async () => {
+      const existingOrder = await orderService.createOrder(request);
+
+      const result = await orderService.updateOrder({
+        orderId: existingOrder.orderId,
+        shippingAddress: { ...request.shippingAddress, state: 'NY', zipCode: '10001' },
+      });
+
+      expect(result.pricing).toMatchObject({ tax: money(144, 'USD'), total: money(4444, 'USD') });
+      expect(result.totalAmount).toEqual(money(4444, 'USD'));
+    });
+
+    it('should keep the applied discount when the coupon has since been withdrawn', async () => {
+      const existingOrder = await orderService.createOrder(request);
+      orderService = new OrderService(
+        repository,
+        outbox,
+        new PricingEngine(
+          pricingConfigSchema.parse({
+            shipping: { US: { baseFee: money(500, 'USD'), perKg: money(100, 'USD') } },
+            tax: { US: { rate: 0, states: { MA: 0.0625, NY: 0.04 } } },
+          })
+        ),
+        productCatalog
+      );
+
+      const result = await orderService.updateOrder({
+        orderId: existingOrder.orderId,
+        shippingAddress: { ...request.shippingAddress, state: 'NY', zipCode: '10001' },
+      });
+
+      expect(result.pricing).toMatchObject({
+        coupon: { code: 'SAVE10', discount: money(400, 'USD') },
+        total: money(4444, 'USD'),
+      });
+    });
+
+    it('should keep the breakdown when neither items nor address change', async () => {
+      const existingOrder = await orderService.createOrder(request);
+
+      const result = await orderService.updateOrder({
+        orderId: existingOrder.orderId,
+        status: 'PROCESSING',
+      });
+
+      expect(result.pricing).toEqual(existingOrder.pricing);
+      expect(commit).toHaveBeenLastCalledWith(
+        expect.objectContaining({ updates: expect.not.objectContaining({ pricing: expect.anything() }) }),
+        expect.anything()
+      );
+    });
   });
 });
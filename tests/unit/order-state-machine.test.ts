@@ -0,0 +1,88 @@
+import {
+  assertTransition,
+  canTransition,
+  isTerminalStatus,
+} from '../../src/models/order-state-machine';
+import { InvalidStatusTransitionError } from '../../src/models/errors';
+import { Order, OrderBuilder, OrderStatus } from '../../src/models/entities';
+import { OrderId, CustomerId } from '../../src/models/types';
+import { money } from '../../src/models/money';
+
+describe('Order state machine', () => {
+  const buildOrder = (): Order =>
+    new OrderBuilder()
+      .withOrderId('order-123' as OrderId)
+      .withCustomerId('customer-123' as CustomerId)
+      .withCustomerEmail('test@example.com')
+      .withItems([{ productId: 'prod-1', name: 'Product', quantity: 1, price: money(1000, 'USD') }])
+      .withShippingAddress({
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      })
+      .build();
+
+  describe('canTransition', () => {
+    it('should allow the forward lifecycle', () => {
+      expect(canTransition(OrderStatus.PENDING, OrderStatus.PROCESSING)).toBe(true);
+      expect(canTransition(OrderStatus.PROCESSING, OrderStatus.SHIPPED)).toBe(true);
+      expect(canTransition(OrderStatus.SHIPPED, OrderStatus.DELIVERED)).toBe(true);
+    });
+
+    it('should allow cancellation before shipment only', () => {
+      expect(canTransition(OrderStatus.PENDING, OrderStatus.CANCELLED)).toBe(true);
+      expect(canTransition(OrderStatus.PROCESSING, OrderStatus.CANCELLED)).toBe(true);
+      expect(canTransition(OrderStatus.SHIPPED, OrderStatus.CANCELLED)).toBe(false);
+    });
+
+    it('should reject moving backwards', () => {
+      expect(canTransition(OrderStatus.DELIVERED, OrderStatus.PENDING)).toBe(false);
+      expect(canTransition(OrderStatus.SHIPPED, OrderStatus.PROCESSING)).toBe(false);
+    });
+  });
+
+  describe('isTerminalStatus', () => {
+    it('should treat DELIVERED and CANCELLED as terminal', () => {
+      expect(isTerminalStatus(OrderStatus.DELIVERED)).toBe(true);
+      expect(isTerminalStatus(OrderStatus.CANCELLED)).toBe(true);
+      expect(isTerminalStatus(OrderStatus.PENDING)).toBe(false);
+    });
+  });
+
+  describe('assertTransition', () => {
+    it('should accept a legal transition', () => {
+      expect(() =>
+        assertTransition(OrderStatus.PENDING, OrderStatus.PROCESSING, buildOrder())
+      ).not.toThrow();
+    });
+
+    it('should reject shipping a cancelled order', () => {
+      expect(() =>
+        assertTransition(OrderStatus.CANCELLED, OrderStatus.SHIPPED, buildOrder())
+      ).toThrow(InvalidStatusTransitionError);
+    });
+
+    it('should reject shipping without a complete shipping address', () => {
+      const order = buildOrder();
+      order.shippingAddress = { ...order.shippingAddress, street: '' };
+
+      expect(() => assertTransition(OrderStatus.PROCESSING, OrderStatus.SHIPPED, order)).toThrow(
+        'Order cannot be shipped without a complete shipping address'
+      );
+    });
+
+    it('should expose from and to states on the error', () => {
+      try {
+        assertTransition(OrderStatus.DELIVERED, OrderStatus.PENDING, buildOrder());
+        fail('Expected transition to be rejected');
+      } catch (error) {
+        expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+        expect((error as InvalidStatusTransitionError).statusCode).toBe(409);
+        expect((error as InvalidStatusTransitionError).fromStatus).toBe(OrderStatus.DELIVERED);
+        expect((error as InvalidStatusTransitionError).toStatus).toBe(OrderStatus.PENDING);
+      }
+    });
+  });
+});
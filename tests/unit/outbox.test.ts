@@ -0,0 +1,240 @@
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBOutbox,
+  InMemoryOutbox,
+  OutboxEntry,
+  OutboxRelay,
+  createOutboxEntry,
+} from '../../src/services/outbox';
+import { EventPublisher } from '../../src/services/event-publisher';
+import { DynamoDBRepository } from '../../src/utils/dynamodb-repository';
+import { InMemoryRepository } from '../../src/utils/in-memory-repository';
+import { ConcurrentModificationError } from '../../src/models/errors';
+import { Order } from '../../src/models/entities';
+import { DomainEvent, OrderId } from '../../src/models/types';
+import { createEnvelope } from '../../src/models/event-envelope';
+
+jest.mock('../../src/services/event-publisher');
+
+describe('DynamoDBOutbox', () => {
+  const orderId = 'order-123' as OrderId;
+  const deletedEvent: DomainEvent = {
+    type: 'ORDER_DELETED',
+    payload: { orderId, deletedAt: new Date().toISOString() },
+  };
+  let send: jest.SpyInstance;
+  let outbox: DynamoDBOutbox<Order, OrderId>;
+
+  beforeEach(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+    outbox = new DynamoDBOutbox(
+      new DynamoDBRepository<Order, OrderId>('orders-table', 'orderId'),
+      'outbox-table',
+      'test-service'
+    );
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('should write the entity and outbox entries in one transaction', async () => {
+    send.mockResolvedValue({} as never);
+
+    await outbox.commit(
+      { type: 'delete', id: orderId, options: { expectedVersion: 2 } },
+      [deletedEvent]
+    );
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const command = send.mock.calls[0][0] as TransactWriteCommand;
+    const [orderItem, outboxItem] = command.input.TransactItems ?? [];
+
+    expect(orderItem?.Delete).toMatchObject({
+      TableName: 'orders-table',
+      Key: { orderId },
+      ConditionExpression: '#n0 = :v0',
+      ExpressionAttributeNames: { '#n0': 'version' },
+      ExpressionAttributeValues: { ':v0': 2 },
+    });
+    expect(outboxItem?.Put).toMatchObject({
+      TableName: 'outbox-table',
+      Item: {
+        aggregateId: orderId,
+        eventType: 'ORDER_DELETED',
+        status: 'PENDING',
+        event: { type: 'ORDER_DELETED', source: 'test-service', subject: orderId },
+      },
+    });
+    expect(outboxItem?.Put?.Item?.outboxId).toBe(outboxItem?.Put?.Item?.event.id);
+  });
+
+  it('should translate a failed version condition into a concurrency error', async () => {
+    const cancelled = Object.assign(new Error('Transaction cancelled'), {
+      name: 'TransactionCanceledException',
+      CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+    });
+    send.mockRejectedValue(cancelled as never);
+
+    await expect(
+      outbox.commit({ type: 'delete', id: orderId, options: { expectedVersion: 2 } }, [
+        deletedEvent,
+      ])
+    ).rejects.toThrow(ConcurrentModificationError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('InMemoryOutbox', () => {
+  const orderId = 'order-123' as OrderId;
+  const deletedEvent: DomainEvent = {
+    type: 'ORDER_DELETED',
+    payload: { orderId, deletedAt: new Date().toISOString() },
+  };
+
+  it('should apply the write and record its events', async () => {
+    const repository = new InMemoryRepository<Order, OrderId>('orderId');
+    const outbox = new InMemoryOutbox(repository, 'test-service');
+    await repository.save({ orderId, version: 2 } as unknown as Order);
+
+    await outbox.commit({ type: 'delete', id: orderId, options: { expectedVersion: 2 } }, [
+      deletedEvent,
+    ]);
+
+    expect(await repository.findById(orderId)).toBeNull();
+    expect(outbox.entries).toEqual([
+      expect.objectContaining({
+        aggregateId: orderId,
+        eventType: 'ORDER_DELETED',
+        status: 'PENDING',
+        event: expect.objectContaining({ source: 'test-service' }),
+      }),
+    ]);
+  });
+
+  it('should record nothing when the write condition fails', async () => {
+    const repository = new InMemoryRepository<Order, OrderId>('orderId');
+    const outbox = new InMemoryOutbox(repository);
+    await repository.save({ orderId, version: 3 } as unknown as Order);
+
+    await expect(
+      outbox.commit({ type: 'check', id: orderId, options: { expectedVersion: 2 } }, [
+        deletedEvent,
+      ])
+    ).rejects.toThrow(ConcurrentModificationError);
+    expect(outbox.entries).toEqual([]);
+  });
+});
+
+describe('OutboxRelay', () => {
+  let repository: jest.Mocked<DynamoDBRepository<OutboxEntry, string>>;
+  let publisher: jest.Mocked<EventPublisher>;
+  let relay: OutboxRelay;
+  let entry: OutboxEntry;
+
+  beforeEach(() => {
+    repository = {
+      save: jest.fn().mockResolvedValue({}),
+      queryByIndex: jest.fn(),
+    } as unknown as jest.Mocked<
+      DynamoDBRepository<OutboxEntry, string>
+    >;
+    publisher = new EventPublisher('test-bus', 'test-service') as jest.Mocked<EventPublisher>;
+    relay = new OutboxRelay(repository, publisher);
+    entry = createOutboxEntry(
+      createEnvelope(
+        {
+          type: 'ORDER_DELETED',
+          payload: { orderId: 'order-123' as OrderId, deletedAt: new Date().toISOString() },
+        },
+        'test-service'
+      )
+    );
+  });
+
+  it('should publish a pending entry and mark it sent', async () => {
+    publisher.publishEnvelope.mockResolvedValue();
+
+    await relay.relay(entry);
+
+    expect(publisher.publishEnvelope).toHaveBeenCalledWith(entry.event);
+    expect(repository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        outboxId: entry.outboxId,
+        status: 'SENT',
+        expiresAt: expect.any(Number),
+      })
+    );
+    expect(repository.save.mock.calls[0]?.[0]).not.toHaveProperty('pending');
+  });
+
+  it('should keep pending entries in the pending index and never expire them', () => {
+    expect(entry.status).toBe('PENDING');
+    expect(entry.pending).toBe('PENDING');
+    expect(entry.expiresAt).toBeUndefined();
+  });
+
+  it('should re-send old pending entries page by page and carry on past failures', async () => {
+    const failing = { ...entry, outboxId: 'failing' };
+    repository.queryByIndex
+      .mockResolvedValueOnce({ items: [failing], nextToken: 'page-2', count: 1 })
+      .mockResolvedValueOnce({ items: [entry], count: 1 });
+    publisher.publishEnvelope
+      .mockRejectedValueOnce(new Error('EventBridge unavailable'))
+      .mockResolvedValueOnce();
+
+    const result = await relay.relayPending('2024-01-01T00:00:00.000Z');
+
+    expect(result).toEqual({ sent: 1, failed: 1 });
+    expect(repository.queryByIndex).toHaveBeenLastCalledWith(
+      'PendingCreatedAtIndex',
+      {
+        partitionKey: 'pending',
+        value: 'PENDING',
+        sortKey: {
+          kind: 'compare',
+          path: 'createdAt',
+          operator: '<',
+          value: '2024-01-01T00:00:00.000Z',
+        },
+      },
+      { nextToken: 'page-2' }
+    );
+    expect(repository.save).toHaveBeenCalledTimes(1);
+    expect(repository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ outboxId: entry.outboxId })
+    );
+  });
+
+  it('should drop sent entries from the pending index', async () => {
+    const entries = new InMemoryRepository<OutboxEntry, string>('outboxId', {
+      indexes: { PendingCreatedAtIndex: { partitionKey: 'pending', sortKey: 'createdAt' } },
+    });
+    const sent = { ...entry, outboxId: 'sent', createdAt: '2023-12-31T00:00:00.000Z' };
+    const stuck = { ...entry, outboxId: 'stuck', createdAt: '2023-12-31T00:00:00.000Z' };
+    await entries.save(sent);
+    await entries.save(stuck);
+    publisher.publishEnvelope.mockResolvedValue();
+
+    await new OutboxRelay(entries, publisher).relay(sent);
+    const result = await new OutboxRelay(entries, publisher).relayPending(
+      '2024-01-01T00:00:00.000Z'
+    );
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    expect(await entries.findById('stuck')).toMatchObject({ status: 'SENT' });
+  });
+
+  it('should leave the entry pending when publishing fails', async () => {
+    publisher.publishEnvelope.mockRejectedValue(new Error('EventBridge unavailable'));
+
+    await expect(relay.relay(entry)).rejects.toThrow('EventBridge unavailable');
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should skip entries that were already sent', async () => {
+    await relay.relay({ ...entry, status: 'SENT' });
+
+    expect(publisher.publishEnvelope).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { PaginationTokenCodec, loadPaginationTokenCodec } from '../../src/utils/pagination-token';
+import { DynamoDBRepository } from '../../src/utils/dynamodb-repository';
+import { ValidationError } from '../../src/models/errors';
+import { Order, OrderStatus } from '../../src/models/entities';
+import { OrderId } from '../../src/models/types';
+import { conditions } from '../../src/models/conditions';
+
+describe('PaginationTokenCodec', () => {
+  const lastKey = { orderId: 'order-1', customerId: 'customer-1', createdAt: '2026-01-01T00:00:00.000Z' };
+  const scope = { indexName: 'CustomerCreatedAtIndex', values: { ':v0': 'customer-1' } };
+  const codec = new PaginationTokenCodec('test-secret');
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should round-trip the last evaluated key for the same query', () => {
+    const token = codec.encode(lastKey, scope);
+
+    expect(codec.decode(token, scope)).toEqual(lastKey);
+  });
+
+  it('should not expose the key in the token', () => {
+    const token = codec.encode(lastKey, scope);
+
+    expect(Buffer.from(token, 'base64url').toString('utf8')).not.toContain('customer-1');
+  });
+
+  it('should reject a token issued for a different query', () => {
+    const token = codec.encode(lastKey, scope);
+
+    expect(() => codec.decode(token, { ...scope, values: { ':v0': 'customer-2' } })).toThrow(
+      'Invalid pagination token'
+    );
+  });
+
+  it('should reject a tampered token', () => {
+    const bytes = Buffer.from(codec.encode(lastKey, scope), 'base64url');
+    bytes.writeUInt8(bytes.readUInt8(20) ^ 1, 20);
+
+    expect(() => codec.decode(bytes.toString('base64url'), scope)).toThrow(ValidationError);
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = new PaginationTokenCodec('other-secret').encode(lastKey, scope);
+
+    expect(() => codec.decode(token, scope)).toThrow('Invalid pagination token');
+  });
+
+  it('should reject malformed tokens', () => {
+    const legacyToken = Buffer.from(JSON.stringify(lastKey)).toString('base64');
+
+    expect(() => codec.decode('not-a-token', scope)).toThrow(ValidationError);
+    expect(() => codec.decode(legacyToken, scope)).toThrow(ValidationError);
+    expect(() => codec.decode('', scope)).toThrow(ValidationError);
+  });
+
+  it('should reject an expired token', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const token = new PaginationTokenCodec('test-secret', 60).encode(lastKey, scope);
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:01Z'));
+
+    expect(() => codec.decode(token, scope)).toThrow('Pagination token has expired');
+  });
+});
+
+describe('loadPaginationTokenCodec', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should fail clearly without a secret', () => {
+    process.env = { ...originalEnv, PAGINATION_TOKEN_SECRET: '' };
+
+    expect(() => loadPaginationTokenCodec()).toThrow('PAGINATION_TOKEN_SECRET is required');
+  });
+
+  it('should reject an invalid time to live', () => {
+    process.env = {
+      ...originalEnv,
+      PAGINATION_TOKEN_SECRET: 'test-secret',
+      PAGINATION_TOKEN_TTL_SECONDS: 'an hour',
+    };
+
+    expect(() => loadPaginationTokenCodec()).toThrow('PAGINATION_TOKEN_TTL_SECONDS');
+  });
+});
+
+describe('DynamoDBRepository pagination', () => {
+  const where = conditions<Order>();
+  const lastKey = { orderId: 'order-1', customerId: 'customer-1' };
+  let send: jest.SpyInstance;
+  let repository: DynamoDBRepository<Order, OrderId>;
+
+  beforeEach(() => {
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send');
+    repository = new DynamoDBRepository<Order, OrderId>(
+      'orders-table',
+      'orderId',
+      undefined,
+      new PaginationTokenCodec('test-secret')
+    );
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  it('should resume a query from the token it issued', async () => {
+    send.mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: lastKey } as never);
+    send.mockResolvedValueOnce({ Items: [], Count: 0 } as never);
+    const key = where.key('customerId', 'customer-1' as Order['customerId']);
+
+    const firstPage = await repository.queryByIndex('CustomerCreatedAtIndex', key);
+    const secondPage = await repository.queryByIndex('CustomerCreatedAtIndex', key, {
+      nextToken: firstPage.nextToken,
+    });
+
+    expect(firstPage.nextToken).toBeDefined();
+    expect(secondPage.nextToken).toBeUndefined();
+    expect((send.mock.calls[1][0] as QueryCommand).input.ExclusiveStartKey).toEqual(lastKey);
+  });
+
+  it("should reject a token replayed against another customer's partition", async () => {
+    send.mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: lastKey } as never);
+
+    const firstPage = await repository.queryByIndex(
+      'CustomerCreatedAtIndex',
+      where.key('customerId', 'customer-1' as Order['customerId'])
+    );
+
+    await expect(
+      repository.queryByIndex(
+        'CustomerCreatedAtIndex',
+        where.key('customerId', 'customer-2' as Order['customerId']),
+        { nextToken: firstPage.nextToken }
+      )
+    ).rejects.toThrow(ValidationError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a token replayed with different filters', async () => {
+    send.mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: lastKey } as never);
+
+    const firstPage = await repository.findAll({ filter: where.eq('status', OrderStatus.PENDING) });
+
+    await expect(
+      repository.findAll({ filter: where.eq('status', OrderStatus.SHIPPED), nextToken: firstPage.nextToken })
+    ).rejects.toThrow('Invalid pagination token');
+  });
+});
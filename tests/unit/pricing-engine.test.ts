@@ -0,0 +1,148 @@
+import { PricingEngine, loadPricingConfig } from '../../src/services/pricing-engine';
+import { pricingConfigSchema } from '../../src/models/schemas';
+import { ValidationError } from '../../src/models/errors';
+import { money } from '../../src/models/money';
+
+describe('PricingEngine', () => {
+  const shippingAddress = {
+    street: '1 Main St',
+    city: 'Boston',
+    state: 'MA',
+    zipCode: '02101',
+    country: 'US',
+  };
+
+  const engine = new PricingEngine(
+    pricingConfigSchema.parse({
+      lineDiscounts: [
+        { minQuantity: 10, percentOff: 5 },
+        { productId: 'prod-1', percentOff: 10 },
+      ],
+      coupons: {
+        TENOFF: { type: 'fixed', amountOff: money(1000, 'USD') },
+        BIG: { type: 'percent', percentOff: 20, minSubtotal: money(50000, 'USD') },
+      },
+      shipping: {
+        US: { baseFee: money(500, 'USD'), perKg: money(150, 'USD'), freeAbove: money(10000, 'USD') },
+        '*': { baseFee: money(2500, 'USD'), perKg: money(500, 'USD') },
+      },
+      defaultItemWeight: 400,
+      tax: {
+        US: { rate: 0, states: { MA: 0.0625 }, shippingTaxable: false },
+        GB: { rate: 0.2, shippingTaxable: true },
+      },
+    })
+  );
+
+  it('should apply the best line discount to each line', () => {
+    const pricing = engine.price({
+      items: [
+        { productId: 'prod-1', name: 'A', quantity: 10, price: money(199, 'USD') },
+        { productId: 'prod-2', name: 'B', quantity: 1, price: money(999, 'USD') },
+      ],
+      shippingAddress,
+    });
+
+    expect(pricing.lines).toEqual([
+      {
+        productId: 'prod-1',
+        quantity: 10,
+        unitPrice: money(199, 'USD'),
+        discount: money(199, 'USD'),
+        total: money(1791, 'USD'),
+      },
+      {
+        productId: 'prod-2',
+        quantity: 1,
+        unitPrice: money(999, 'USD'),
+        discount: money(0, 'USD'),
+        total: money(999, 'USD'),
+      },
+    ]);
+    expect(pricing.subtotal).toEqual(money(2989, 'USD'));
+    expect(pricing.lineDiscounts).toEqual(money(199, 'USD'));
+  });
+
+  it('should add shipping by started kilogram and tax by state', () => {
+    const pricing = engine.price({
+      items: [
+        { productId: 'prod-2', name: 'B', quantity: 3, price: money(1000, 'USD') },
+        { productId: 'prod-3', name: 'C', quantity: 1, price: money(500, 'USD'), weight: 1200 },
+      ],
+      shippingAddress,
+      couponCode: ' tenoff ',
+    });
+
+    // 3500 - 1000 coupon; 2400 g ships as 3 kg; 6.25% of 2500, shipping untaxed in the US
+    expect(pricing).toMatchObject({
+      subtotal: money(3500, 'USD'),
+      coupon: { code: 'TENOFF', discount: money(1000, 'USD') },
+      shipping: money(950, 'USD'),
+      taxRate: 0.0625,
+      tax: money(156, 'USD'),
+      total: money(3606, 'USD'),
+    });
+  });
+
+  it('should ship free above the threshold and tax shipping where it is taxable', () => {
+    const item = { productId: 'prod-2', name: 'B', quantity: 1, price: money(12000, 'USD') };
+
+    expect(engine.price({ items: [item], shippingAddress }).shipping).toEqual(money(0, 'USD'));
+
+    const abroad = engine.price({
+      items: [item],
+      shippingAddress: { ...shippingAddress, state: 'LN', country: 'GB' },
+    });
+    expect(abroad).toMatchObject({
+      shipping: money(3000, 'USD'),
+      tax: money(3000, 'USD'),
+      total: money(18000, 'USD'),
+    });
+  });
+
+  it('should skip a coupon below its minimum and cap fixed coupons', () => {
+    const items = [{ productId: 'prod-2', name: 'B', quantity: 1, price: money(600, 'USD') }];
+
+    expect(engine.price({ items, shippingAddress, couponCode: 'BIG' }).coupon).toBeUndefined();
+    expect(engine.price({ items, shippingAddress, couponCode: 'TENOFF' }).coupon).toEqual({
+      code: 'TENOFF',
+      discount: money(600, 'USD'),
+    });
+  });
+
+  it('should reject unknown coupons and rates in another currency', () => {
+    const items = [{ productId: 'prod-2', name: 'B', quantity: 1, price: money(600, 'EUR') }];
+
+    expect(() =>
+      engine.price({ items, shippingAddress: { ...shippingAddress, country: 'DE' }, couponCode: 'NOPE' })
+    ).toThrow('Unknown coupon code: NOPE');
+    expect(() =>
+      engine.price({ items, shippingAddress: { ...shippingAddress, country: 'DE' } })
+    ).toThrow(ValidationError);
+  });
+
+  it('should keep the last discount of a withdrawn coupon when repricing', () => {
+    const items = [{ productId: 'prod-2', name: 'B', quantity: 1, price: money(600, 'USD') }];
+    const previousPricing = engine.price({ items, shippingAddress, couponCode: 'TENOFF' });
+    const withdrawn = { ...previousPricing, coupon: { code: 'GONE', discount: money(100, 'USD') } };
+
+    expect(engine.price({ items, shippingAddress, couponCode: 'gone', previousPricing }).coupon)
+      .toBeUndefined();
+    expect(
+      engine.price({ items, shippingAddress, couponCode: 'gone', previousPricing: withdrawn }).coupon
+    ).toEqual({ code: 'GONE', discount: money(100, 'USD') });
+  });
+
+  it('should price with empty rate tables when PRICING_CONFIG is not set', () => {
+    const pricing = new PricingEngine(loadPricingConfig()).price({
+      items: [{ productId: 'prod-2', name: 'B', quantity: 2, price: money(600, 'USD') }],
+      shippingAddress,
+    });
+
+    expect(pricing).toMatchObject({
+      shipping: money(0, 'USD'),
+      tax: money(0, 'USD'),
+      total: money(1200, 'USD'),
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { ProductCatalogService } from '../../src/services/product-catalog';
+import { InMemoryRepository } from '../../src/utils/in-memory-repository';
+import { Product, ProductStatus } from '../../src/models/entities';
+import {
+  ConcurrentModificationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../src/models/errors';
+import { money } from '../../src/models/money';
+import { createOrderSchema } from '../../src/models/schemas';
+
+describe('ProductCatalogService', () => {
+  let repository: InMemoryRepository<Product, string>;
+  let catalog: ProductCatalogService;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository<Product, string>('productId');
+    catalog = new ProductCatalogService(repository);
+  });
+
+  it('should create active products with an assigned id', async () => {
+    const product = await catalog.createProduct({
+      name: 'Widget',
+      price: money(1999, 'USD'),
+      status: ProductStatus.ACTIVE,
+    });
+
+    expect(product).toMatchObject({ name: 'Widget', status: ProductStatus.ACTIVE, version: 1 });
+    expect(await catalog.getProduct(product.productId)).toEqual(product);
+  });
+
+  it('should create products that orders can reference', async () => {
+    const product = await catalog.createProduct({
+      name: 'Widget',
+      price: money(1999, 'USD'),
+      status: ProductStatus.ACTIVE,
+    });
+
+    const request = createOrderSchema.parse({
+      customerId: 'customer-123',
+      customerEmail: 'test@example.com',
+      items: [{ productId: product.productId, quantity: 1 }],
+      shippingAddress: { street: '123 Main St', city: 'Boston', state: 'MA', zipCode: '02101' },
+    });
+
+    expect(await catalog.resolveItems(request.items)).toMatchObject([
+      { productId: product.productId, name: 'Widget', price: money(1999, 'USD') },
+    ]);
+  });
+
+  it('should update a product and bump its version', async () => {
+    const product = await catalog.createProduct({
+      name: 'Widget',
+      price: money(1999, 'USD'),
+      status: ProductStatus.ACTIVE,
+    });
+
+    const updated = await catalog.updateProduct(product.productId, { price: money(2499, 'USD') }, 1);
+
+    expect(updated).toMatchObject({ price: money(2499, 'USD'), version: 2 });
+    await expect(
+      catalog.updateProduct(product.productId, { name: 'Gadget' }, 1)
+    ).rejects.toThrow(ConcurrentModificationError);
+    await expect(catalog.updateProduct('missing', { name: 'Gadget' })).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('should list products by status', async () => {
+    await catalog.createProduct({ name: 'A', price: money(100, 'USD'), status: ProductStatus.ACTIVE });
+    await catalog.createProduct({
+      name: 'B',
+      price: money(100, 'USD'),
+      status: ProductStatus.DISCONTINUED,
+    });
+
+    const result = await catalog.listProducts({ status: ProductStatus.DISCONTINUED, limit: 20 });
+
+    expect(result.products.map((product) => product.name)).toEqual(['B']);
+  });
+
+  describe('resolveItems', () => {
+    it('should take names, prices and weights from the catalog', async () => {
+      const product = await catalog.createProduct({
+        name: 'Widget',
+        price: money(1999, 'USD'),
+        weight: 250,
+        status: ProductStatus.ACTIVE,
+      });
+      await catalog.updateProduct(product.productId, { price: money(1499, 'USD') });
+
+      const items = await catalog.resolveItems([{ productId: product.productId, quantity: 3 }]);
+
+      expect(items).toEqual([
+        {
+          productId: product.productId,
+          name: 'Widget',
+          quantity: 3,
+          price: money(1499, 'USD'),
+          weight: 250,
+          catalogVersion: 2,
+        },
+      ]);
+    });
+
+    it('should read every product of the order in one batch', async () => {
+      const product = await catalog.createProduct({
+        name: 'Widget',
+        price: money(1999, 'USD'),
+        status: ProductStatus.ACTIVE,
+      });
+      const batchGet = jest.spyOn(repository, 'batchGet');
+      const findById = jest.spyOn(repository, 'findById');
+
+      await catalog.resolveItems([
+        { productId: product.productId, quantity: 1 },
+        { productId: product.productId, quantity: 2 },
+      ]);
+
+      expect(batchGet).toHaveBeenCalledTimes(1);
+      expect(batchGet).toHaveBeenCalledWith([product.productId]);
+      expect(findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown products', async () => {
+      await expect(catalog.resolveItems([{ productId: 'missing', quantity: 1 }])).rejects.toThrow(
+        new ValidationError('Unknown products: missing')
+      );
+    });
+
+    it('should reject discontinued products', async () => {
+      const product = await catalog.createProduct({
+        name: 'Old',
+        price: money(100, 'USD'),
+        status: ProductStatus.DISCONTINUED,
+      });
+
+      await expect(
+        catalog.resolveItems([{ productId: product.productId, quantity: 1 }])
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+});
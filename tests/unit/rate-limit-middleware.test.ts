@@ -0,0 +1,223 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import { rateLimitMiddleware } from '../../src/middleware/rate-limit-middleware';
+import {
+  DynamoDBRateLimitStore,
+  InMemoryRateLimitStore,
+  RateLimitStore,
+  takeToken,
+} from '../../src/utils/rate-limit-store';
+import { RateLimitExceededError } from '../../src/models/errors';
+import { Principal } from '../../src/middleware/auth-middleware';
+
+describe('takeToken', () => {
+  const limit = { capacity: 2, refillPerSecond: 1 };
+
+  it('should start with a full bucket and refill over time', () => {
+    const first = takeToken(undefined, limit, 0);
+    const second = takeToken(first.bucket, limit, 0);
+    const third = takeToken(second.bucket, limit, 0);
+
+    expect(first.decision).toMatchObject({ allowed: true, remaining: 1 });
+    expect(second.decision).toMatchObject({ allowed: true, remaining: 0 });
+    expect(third.decision).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+
+    const later = takeToken(third.bucket, limit, 1500);
+    expect(later.decision).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should never refill beyond capacity', () => {
+    const { bucket } = takeToken(undefined, limit, 0);
+
+    expect(takeToken(bucket, limit, 60_000).decision.remaining).toBe(1);
+  });
+});
+
+describe('rateLimitMiddleware', () => {
+  const context = { awsRequestId: 'request-123' } as Context;
+  const limits = {
+    default: { capacity: 2, refillPerSecond: 0.01 },
+    premium: { capacity: 5, refillPerSecond: 0.01 },
+  };
+  let store: InMemoryRateLimitStore;
+  let next: jest.Mock<Promise<APIGatewayProxyResult>, []>;
+
+  const buildEvent = (sourceIp: string, principal?: Partial<Principal>): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'GET',
+      path: '/orders',
+      headers: {},
+      requestContext: { identity: { sourceIp, apiKey: null } },
+      ...(principal && { principal: { roles: [], claims: {}, ...principal } }),
+    }) as unknown as APIGatewayProxyEvent;
+
+  beforeEach(() => {
+    store = new InMemoryRateLimitStore();
+    next = jest.fn().mockResolvedValue({ statusCode: 200, headers: {}, body: '{}' });
+  });
+
+  it('should add rate limit headers to allowed responses', async () => {
+    const middleware = rateLimitMiddleware({ route: 'GET /orders', limits, store });
+
+    const result = await middleware(buildEvent('10.0.0.1'), context, next);
+
+    expect(result.headers).toMatchObject({
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '1',
+    });
+  });
+
+  it('should reject requests over the limit with Retry-After', async () => {
+    const middleware = rateLimitMiddleware({ route: 'GET /orders', limits, store });
+    const event = buildEvent('10.0.0.1');
+
+    await middleware(event, context, next);
+    await middleware(event, context, next);
+    const rejection = middleware(event, context, next);
+
+    await expect(rejection).rejects.toThrow(RateLimitExceededError);
+    await rejection.catch((error: RateLimitExceededError) => {
+      expect(error.statusCode).toBe(429);
+      expect(error.headers['Retry-After']).toBe('100');
+      expect(error.headers['X-RateLimit-Remaining']).toBe('0');
+    });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep separate buckets per client and per route', async () => {
+    const orders = rateLimitMiddleware({ route: 'GET /orders', limits, store });
+    const create = rateLimitMiddleware({ route: 'POST /orders', limits, store });
+
+    await orders(buildEvent('10.0.0.1'), context, next);
+    await orders(buildEvent('10.0.0.1'), context, next);
+
+    await expect(orders(buildEvent('10.0.0.2'), context, next)).resolves.toBeDefined();
+    await expect(create(buildEvent('10.0.0.1'), context, next)).resolves.toBeDefined();
+  });
+
+  it('should apply the limit of the principal tier', async () => {
+    const middleware = rateLimitMiddleware({ route: 'GET /orders', limits, store });
+    const event = buildEvent('10.0.0.1', { subject: 'user-1', claims: { tier: 'premium' } });
+
+    const result = await middleware(event, context, next);
+
+    expect(result.headers?.['X-RateLimit-Limit']).toBe('5');
+  });
+
+  it('should allow requests when the store is unavailable', async () => {
+    const failingStore: RateLimitStore = {
+      consume: jest.fn().mockRejectedValue(new Error('Throttled')),
+    };
+    const middleware = rateLimitMiddleware({ route: 'GET /orders', limits, store: failingStore });
+
+    await expect(middleware(buildEvent('10.0.0.1'), context, next)).resolves.toMatchObject({
+      statusCode: 200,
+    });
+  });
+
+  it('should not allow requests when the store fails for another reason', async () => {
+    const missingTable = Object.assign(new Error('Requested resource not found'), {
+      name: 'ResourceNotFoundException',
+    });
+    const failingStore: RateLimitStore = { consume: jest.fn().mockRejectedValue(missingTable) };
+    const middleware = rateLimitMiddleware({ route: 'GET /orders', limits, store: failingStore });
+
+    await expect(middleware(buildEvent('10.0.0.1'), context, next)).rejects.toThrow(missingTable);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('DynamoDBRateLimitStore', () => {
+  const limit = { capacity: 2, refillPerSecond: 1 };
+  let items: Map<string, { fullAt: number }>;
+  let send: jest.SpyInstance;
+
+  // Evaluates the store's two conditional updates against an in-memory table
+  const update = ({ input }: UpdateCommand): Promise<unknown> => {
+    const key = input.Key?.bucketKey as string;
+    const values = input.ExpressionAttributeValues as {
+      ':now': number;
+      ':maxFullAt': number;
+      ':interval'?: number;
+      ':fullAt': number;
+    };
+    const fullAt = items.get(key)?.fullAt;
+    const interval = values[':interval'];
+    const condition =
+      interval !== undefined
+        ? fullAt !== undefined && fullAt > values[':now'] && fullAt <= values[':maxFullAt']
+        : fullAt === undefined || fullAt <= values[':now'];
+
+    if (!condition) {
+      return Promise.reject(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+          Item: fullAt !== undefined ? marshall({ fullAt }) : undefined,
+        })
+      );
+    }
+
+    const next = interval !== undefined ? (fullAt as number) + interval : values[':fullAt'];
+    items.set(key, { fullAt: next });
+    return Promise.resolve({ Attributes: { fullAt: next } });
+  };
+
+  beforeEach(() => {
+    items = new Map();
+    send = jest.spyOn(DynamoDBDocumentClient.prototype, 'send').mockImplementation(update as never);
+    jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should spend tokens with conditional updates and deny without writing', async () => {
+    const store = new DynamoDBRateLimitStore('rate-limits');
+
+    await expect(store.consume('key', limit)).resolves.toMatchObject({
+      allowed: true,
+      remaining: 1,
+      resetSeconds: 1,
+    });
+    await expect(store.consume('key', limit)).resolves.toMatchObject({
+      allowed: true,
+      remaining: 0,
+      resetSeconds: 2,
+    });
+    await expect(store.consume('key', limit)).resolves.toMatchObject({
+      allowed: false,
+      retryAfterSeconds: 1,
+    });
+
+    // A new bucket takes both updates, a refilling one the first, a denial no write at all
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(items.get('key')).toEqual({ fullAt: 1_002_000 });
+  });
+
+  it('should never spend more tokens than the bucket holds under concurrency', async () => {
+    const store = new DynamoDBRateLimitStore('rate-limits');
+
+    const decisions = await Promise.all(
+      Array.from({ length: 5 }, () => store.consume('key', limit))
+    );
+
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(2);
+  });
+
+  it('should refill the bucket over time', async () => {
+    const store = new DynamoDBRateLimitStore('rate-limits');
+
+    await store.consume('key', limit);
+    await store.consume('key', limit);
+    jest.spyOn(Date, 'now').mockReturnValue(1_001_500);
+
+    await expect(store.consume('key', limit)).resolves.toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+  });
+});
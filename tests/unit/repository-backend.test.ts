@@ -0,0 +1,78 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { OrderService } from '../../src/services/order-service';
+import { ProductCatalogService } from '../../src/services/product-catalog';
+import { ProductStatus } from '../../src/models/entities';
+import { CustomerId } from '../../src/models/types';
+import { money } from '../../src/models/money';
+import { DynamoDBRepository } from '../../src/utils/dynamodb-repository';
+import { FileRepository } from '../../src/utils/file-repository';
+import { InMemoryRepository } from '../../src/utils/in-memory-repository';
+import { createRepository, loadRepositoryBackend } from '../../src/utils/repository-backend';
+
+describe('repository backends', () => {
+  const originalEnv = process.env;
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(join(tmpdir(), 'repository-backend-'));
+    process.env = { ...originalEnv, REPOSITORY_DATA_DIR: dataDir };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should default to DynamoDB and reject unknown backends', () => {
+    delete process.env.REPOSITORY_BACKEND;
+    expect(loadRepositoryBackend()).toBe('dynamodb');
+
+    process.env.REPOSITORY_BACKEND = 'postgres';
+    expect(() => loadRepositoryBackend()).toThrow(
+      'REPOSITORY_BACKEND must be one of dynamodb, memory, file, got postgres'
+    );
+  });
+
+  it('should build the repository for each backend', () => {
+    process.env.PAGINATION_TOKEN_SECRET = 'x'.repeat(32);
+    const table = { tableName: 'Widgets', primaryKey: 'widgetId' };
+
+    expect(createRepository(table, 'dynamodb')).toBeInstanceOf(DynamoDBRepository);
+    expect(createRepository(table, 'file')).toBeInstanceOf(FileRepository);
+    expect(createRepository(table, 'memory')).toBeInstanceOf(InMemoryRepository);
+    expect(createRepository(table, 'memory')).toBe(createRepository(table, 'memory'));
+  });
+
+  it('should let services order catalog products without DynamoDB', async () => {
+    process.env.REPOSITORY_BACKEND = 'file';
+    process.env.PRODUCTS_TABLE_NAME = 'LocalProducts';
+    process.env.ORDERS_TABLE_NAME = 'LocalOrders';
+
+    const product = await new ProductCatalogService().createProduct({
+      name: 'Widget',
+      price: money(1999, 'USD'),
+      status: ProductStatus.ACTIVE,
+    });
+    const orderService = new OrderService();
+    const order = await orderService.createOrder({
+      customerId: 'customer-123' as CustomerId,
+      customerEmail: 'test@example.com' as never,
+      items: [{ productId: product.productId, quantity: 2 }],
+      shippingAddress: {
+        street: '123 Main St',
+        city: 'Boston',
+        state: 'MA',
+        zipCode: '02101',
+        country: 'US',
+      },
+    });
+
+    expect(await orderService.getOrder(order.orderId)).toEqual(order);
+    expect(
+      (await orderService.listOrders({ customerId: 'customer-123' as CustomerId, limit: 20 })).orders
+    ).toEqual([order]);
+    expect(existsSync(join(dataDir, 'LocalOrders.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,383 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { IndexedRepository, PaginatedResult } from '../../src/models/entities';
+import { conditions } from '../../src/models/conditions';
+import { ConcurrentModificationError, ConflictError, ValidationError } from '../../src/models/errors';
+import { DynamoDBRepository } from '../../src/utils/dynamodb-repository';
+import { FileRepository } from '../../src/utils/file-repository';
+import { InMemoryRepository } from '../../src/utils/in-memory-repository';
+import { PaginationTokenCodec } from '../../src/utils/pagination-token';
+
+/**
+ * Behaviour every Repository backend must share. The DynamoDB backend runs against
+ * DynamoDB Local when DYNAMODB_ENDPOINT is set, e.g. http://localhost:8000
+ */
+
+interface Widget {
+  widgetId: string;
+  ownerId: string;
+  createdAt: string;
+  price: number;
+  tags: string[];
+  metadata?: Record<string, string>;
+  version: number;
+  [key: string]: unknown;
+}
+
+const OWNER_INDEX = 'OwnerCreatedAtIndex';
+const where = conditions<Widget>();
+
+interface Backend {
+  repository: IndexedRepository<Widget, string>;
+  dispose(): Promise<void>;
+}
+
+const backends: Array<[string, () => Promise<Backend>]> = [
+  [
+    'InMemoryRepository',
+    () =>
+      Promise.resolve({
+        repository: new InMemoryRepository<Widget, string>('widgetId', {
+          indexes: { [OWNER_INDEX]: { partitionKey: 'ownerId', sortKey: 'createdAt' } },
+        }),
+        dispose: () => Promise.resolve(),
+      }),
+  ],
+  [
+    'FileRepository',
+    () => {
+      const directory = mkdtempSync(join(tmpdir(), 'repository-'));
+      return Promise.resolve({
+        repository: new FileRepository<Widget, string>(join(directory, 'widgets.json'), 'widgetId', {
+          indexes: { [OWNER_INDEX]: { partitionKey: 'ownerId', sortKey: 'createdAt' } },
+        }),
+        dispose: () => Promise.resolve(rmSync(directory, { recursive: true, force: true })),
+      });
+    },
+  ],
+];
+
+const dynamoDBEndpoint = process.env.DYNAMODB_ENDPOINT;
+
+if (dynamoDBEndpoint !== undefined && dynamoDBEndpoint !== '') {
+  backends.push([
+    'DynamoDBRepository',
+    async () => {
+      const client = new DynamoDBClient({
+        endpoint: dynamoDBEndpoint,
+        region: 'local',
+        credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+      });
+      const tableName = `widgets-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
+      await client.send(
+        new CreateTableCommand({
+          TableName: tableName,
+          BillingMode: 'PAY_PER_REQUEST',
+          AttributeDefinitions: [
+            { AttributeName: 'widgetId', AttributeType: 'S' },
+            { AttributeName: 'ownerId', AttributeType: 'S' },
+            { AttributeName: 'createdAt', AttributeType: 'S' },
+          ],
+          KeySchema: [{ AttributeName: 'widgetId', KeyType: 'HASH' }],
+          GlobalSecondaryIndexes: [
+            {
+              IndexName: OWNER_INDEX,
+              KeySchema: [
+                { AttributeName: 'ownerId', KeyType: 'HASH' },
+                { AttributeName: 'createdAt', KeyType: 'RANGE' },
+              ],
+              Projection: { ProjectionType: 'ALL' },
+            },
+          ],
+        })
+      );
+
+      return {
+        repository: new DynamoDBRepository<Widget, string>(
+          tableName,
+          'widgetId',
+          client,
+          new PaginationTokenCodec('conformance-secret')
+        ),
+        dispose: async () => {
+          await client.send(new DeleteTableCommand({ TableName: tableName }));
+        },
+      };
+    },
+  ]);
+}
+
+function widget(widgetId: string, overrides: Partial<Widget> = {}): Widget {
+  return {
+    widgetId,
+    ownerId: 'owner-1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    price: 10,
+    tags: ['blue'],
+    version: 1,
+    ...overrides,
+  };
+}
+
+// Follows nextToken until exhausted; scans and filtered queries may return empty pages
+async function allPages(
+  read: (nextToken?: string) => Promise<PaginatedResult<Widget>>
+): Promise<Widget[]> {
+  const items: Widget[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await read(nextToken);
+    items.push(...page.items);
+    nextToken = page.nextToken;
+  } while (nextToken !== undefined);
+
+  return items;
+}
+
+describe.each(backends)('%s conformance', (_name, createBackend) => {
+  let backend: Backend;
+  let repository: IndexedRepository<Widget, string>;
+
+  beforeEach(async () => {
+    backend = await createBackend();
+    repository = backend.repository;
+  });
+
+  afterEach(async () => {
+    await backend.dispose();
+  });
+
+  describe('reads and writes', () => {
+    it('should save and find an entity by id', async () => {
+      const saved = widget('w-1', { metadata: { color: 'blue' } });
+
+      await repository.save(saved);
+
+      await expect(repository.findById('w-1')).resolves.toEqual(saved);
+      await expect(repository.findById('missing')).resolves.toBeNull();
+    });
+
+    it('should get many entities by id in the order requested', async () => {
+      await repository.save(widget('w-1'));
+      await repository.save(widget('w-2'));
+
+      const items = await repository.batchGet(['w-2', 'missing', 'w-1', 'w-2']);
+
+      expect(items.map((item) => item.widgetId)).toEqual(['w-2', 'w-1']);
+    });
+
+    it('should replace the whole entity on save', async () => {
+      await repository.save(widget('w-1', { metadata: { color: 'blue' } }));
+      await repository.save(widget('w-1', { price: 20 }));
+
+      const found = await repository.findById('w-1');
+
+      expect(found?.price).toBe(20);
+      expect(found?.metadata).toBeUndefined();
+    });
+
+    it('should not let callers mutate stored entities', async () => {
+      await repository.save(widget('w-1'));
+
+      const found = await repository.findById('w-1');
+      found?.tags.push('red');
+
+      await expect(repository.findById('w-1')).resolves.toMatchObject({ tags: ['blue'] });
+    });
+
+    it('should merge updates into the stored entity and return it', async () => {
+      await repository.save(widget('w-1'));
+
+      const updated = await repository.update('w-1', { price: 25, version: 2 });
+
+      expect(updated).toEqual(widget('w-1', { price: 25, version: 2 }));
+      await expect(repository.findById('w-1')).resolves.toEqual(updated);
+    });
+
+    it('should delete an entity', async () => {
+      await repository.save(widget('w-1'));
+
+      await repository.delete('w-1');
+
+      await expect(repository.findById('w-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('conditional writes', () => {
+    beforeEach(async () => {
+      await repository.save(widget('w-1', { version: 3 }));
+    });
+
+    it('should update while the expected version matches', async () => {
+      await expect(
+        repository.update('w-1', { price: 30, version: 4 }, { expectedVersion: 3 })
+      ).resolves.toMatchObject({ price: 30, version: 4 });
+    });
+
+    it('should reject an update on a stale version', async () => {
+      await expect(
+        repository.update('w-1', { price: 30 }, { expectedVersion: 2 })
+      ).rejects.toThrow(ConcurrentModificationError);
+      await expect(repository.findById('w-1')).resolves.toMatchObject({ price: 10 });
+    });
+
+    it('should reject a versioned update of a missing entity', async () => {
+      await expect(
+        repository.update('missing', { price: 30 }, { expectedVersion: 1 })
+      ).rejects.toThrow(ConcurrentModificationError);
+      await expect(repository.findById('missing')).resolves.toBeNull();
+    });
+
+    it('should reject a write whose condition is not met', async () => {
+      await expect(
+        repository.update('w-1', { price: 30 }, { condition: where.gt('price', 50) })
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        repository.delete('w-1', { condition: where.contains('tags', 'red') })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should write when every condition is met', async () => {
+      await repository.update(
+        'w-1',
+        { price: 30 },
+        {
+          expectedVersion: 3,
+          condition: where.and(where.contains('tags', 'blue'), where.notExists('metadata')),
+        }
+      );
+
+      await expect(repository.findById('w-1')).resolves.toMatchObject({ price: 30 });
+    });
+
+    it('should only delete while the expected version matches', async () => {
+      await expect(repository.delete('w-1', { expectedVersion: 2 })).rejects.toThrow(
+        ConcurrentModificationError
+      );
+      await expect(repository.findById('w-1')).resolves.not.toBeNull();
+
+      await repository.delete('w-1', { expectedVersion: 3 });
+
+      await expect(repository.findById('w-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('pagination', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 7; i++) {
+        await repository.save(
+          widget(`w-${i}`, {
+            ownerId: i <= 5 ? 'owner-1' : 'owner-2',
+            createdAt: `2026-01-0${i}T00:00:00.000Z`,
+            price: i * 10,
+          })
+        );
+      }
+    });
+
+    it('should page through every entity exactly once', async () => {
+      const items = await allPages((nextToken) => repository.findAll({ limit: 2, nextToken }));
+
+      expect(items.map((item) => item.widgetId).sort()).toEqual([
+        'w-1',
+        'w-2',
+        'w-3',
+        'w-4',
+        'w-5',
+        'w-6',
+        'w-7',
+      ]);
+    });
+
+    it('should apply filters across pages', async () => {
+      const items = await allPages((nextToken) =>
+        repository.findAll({ limit: 3, nextToken, filter: where.gte('price', 40) })
+      );
+
+      expect(items.map((item) => item.widgetId).sort()).toEqual(['w-4', 'w-5', 'w-6', 'w-7']);
+    });
+
+    it('should query an index in sort key order', async () => {
+      const key = where.key('ownerId', 'owner-1');
+
+      const ascending = await allPages((nextToken) =>
+        repository.queryByIndex(OWNER_INDEX, key, { limit: 2, nextToken })
+      );
+      const descending = await allPages((nextToken) =>
+        repository.queryByIndex(OWNER_INDEX, key, { limit: 2, nextToken, sortOrder: 'desc' })
+      );
+
+      expect(ascending.map((item) => item.widgetId)).toEqual(['w-1', 'w-2', 'w-3', 'w-4', 'w-5']);
+      expect(descending.map((item) => item.widgetId)).toEqual(['w-5', 'w-4', 'w-3', 'w-2', 'w-1']);
+    });
+
+    it('should narrow an index query on the sort key and filter the results', async () => {
+      const key = where.key(
+        'ownerId',
+        'owner-1',
+        where.between('createdAt', '2026-01-02T00:00:00.000Z', '2026-01-04T00:00:00.000Z')
+      );
+
+      const items = await allPages((nextToken) =>
+        repository.queryByIndex(OWNER_INDEX, key, {
+          limit: 1,
+          nextToken,
+          filter: where.ne('price', 30),
+        })
+      );
+
+      expect(items.map((item) => item.widgetId)).toEqual(['w-2', 'w-4']);
+    });
+
+    it('should reject a token from a different query', async () => {
+      const page = await repository.queryByIndex(OWNER_INDEX, where.key('ownerId', 'owner-1'), {
+        limit: 2,
+      });
+
+      expect(page.nextToken).toBeDefined();
+      await expect(
+        repository.queryByIndex(OWNER_INDEX, where.key('ownerId', 'owner-2'), {
+          limit: 2,
+          nextToken: page.nextToken,
+        })
+      ).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a forged token', async () => {
+      const forged = Buffer.from(JSON.stringify({ widgetId: 'w-3' })).toString('base64');
+
+      await expect(repository.findAll({ nextToken: forged })).rejects.toThrow(ValidationError);
+    });
+  });
+});
+
+describe('FileRepository persistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'repository-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entities across instances', async () => {
+    const filePath = join(directory, 'nested', 'widgets.json');
+    const writer = new FileRepository<Widget, string>(filePath, 'widgetId');
+
+    await writer.save(widget('w-1'));
+    await writer.update('w-1', { price: 15 });
+    await writer.save(widget('w-2'));
+    await writer.delete('w-2');
+
+    const reader = new FileRepository<Widget, string>(filePath, 'widgetId');
+
+    await expect(reader.findById('w-1')).resolves.toEqual(widget('w-1', { price: 15 }));
+    await expect(reader.findById('w-2')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+import { RetryPolicy, classifyError, setInvocationDeadline } from '../../src/utils/retry-policy';
+import { ValidationError } from '../../src/models/errors';
+
+const awsError = (name: string, metadata: Record<string, unknown> = {}): Error =>
+  Object.assign(new Error(name), { name, ...metadata });
+
+describe('classifyError', () => {
+  it('should treat throttling errors as throttled', () => {
+    expect(classifyError(awsError('ThrottlingException'))).toBe('throttled');
+    expect(classifyError(awsError('ProvisionedThroughputExceededException'))).toBe('throttled');
+    expect(classifyError(awsError('Unknown', { $metadata: { httpStatusCode: 429 } }))).toBe('throttled');
+  });
+
+  it('should follow the SDK $retryable metadata', () => {
+    expect(classifyError(awsError('Custom', { $retryable: { throttling: true } }))).toBe('throttled');
+    expect(classifyError(awsError('Custom', { $retryable: {} }))).toBe('retryable');
+  });
+
+  it('should treat server faults and network errors as retryable', () => {
+    expect(classifyError(awsError('InternalServerError'))).toBe('retryable');
+    expect(classifyError(awsError('Unknown', { $fault: 'server' }))).toBe('retryable');
+    expect(classifyError(awsError('Unknown', { $metadata: { httpStatusCode: 503 } }))).toBe('retryable');
+    expect(classifyError(awsError('Error', { code: 'ECONNRESET' }))).toBe('retryable');
+  });
+
+  it('should treat client faults, condition failures and domain errors as fatal', () => {
+    expect(classifyError(awsError('ConditionalCheckFailedException'))).toBe('fatal');
+    expect(classifyError(awsError('Unknown', { $fault: 'client', $metadata: { httpStatusCode: 400 } }))).toBe('fatal');
+    expect(classifyError(new ValidationError('Invalid input'))).toBe('fatal');
+    expect(classifyError(new TypeError('undefined is not a function'))).toBe('fatal');
+    expect(classifyError(awsError('ItemCollectionSizeLimitExceededException'))).toBe('fatal');
+  });
+
+  it('should classify cancelled transactions by their cancellation reasons', () => {
+    const cancelled = (...codes: string[]): Error =>
+      awsError('TransactionCanceledException', { CancellationReasons: codes.map((Code) => ({ Code })) });
+
+    expect(classifyError(cancelled('None', 'ConditionalCheckFailed'))).toBe('fatal');
+    expect(classifyError(cancelled('TransactionConflict', 'None'))).toBe('retryable');
+    expect(classifyError(cancelled('ThrottlingError'))).toBe('throttled');
+  });
+
+  it('should retry errors raised without AWS metadata', () => {
+    expect(classifyError(new Error('Failed to publish event'))).toBe('retryable');
+  });
+});
+
+describe('RetryPolicy', () => {
+  afterEach(() => {
+    setInvocationDeadline(undefined);
+  });
+
+  it('should retry transient errors until the call succeeds', async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(awsError('ServiceUnavailable'))
+      .mockRejectedValueOnce(awsError('ThrottlingException'))
+      .mockResolvedValue('success');
+    const policy = new RetryPolicy({ initialDelayMs: 1, throttledInitialDelayMs: 1 });
+
+    await expect(policy.execute(fn)).resolves.toBe('success');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry fatal errors', async () => {
+    const fn = jest.fn().mockRejectedValue(awsError('ConditionalCheckFailedException'));
+
+    await expect(new RetryPolicy({ initialDelayMs: 1 }).execute(fn)).rejects.toThrow(
+      'ConditionalCheckFailedException'
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('Still failing'));
+
+    await expect(new RetryPolicy({ maxRetries: 2, initialDelayMs: 1 }).execute(fn)).rejects.toThrow(
+      'Still failing'
+    );
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  describe('delays', () => {
+    it('should back off exponentially without jitter', () => {
+      const policy = new RetryPolicy({ jitter: 'none', initialDelayMs: 100, maxDelayMs: 1000 });
+
+      expect([0, 1, 2, 3, 4].map((attempt) => policy.delayFor(attempt, 'retryable'))).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    it('should start from a longer delay after throttling', () => {
+      const policy = new RetryPolicy({ jitter: 'none', initialDelayMs: 100, throttledInitialDelayMs: 500 });
+
+      expect(policy.delayFor(1, 'throttled')).toBe(1000);
+    });
+
+    it('should spread full jitter over the whole exponential delay', () => {
+      const low = new RetryPolicy({ initialDelayMs: 100, random: () => 0 });
+      const high = new RetryPolicy({ initialDelayMs: 100, random: () => 0.999 });
+
+      expect(low.delayFor(2, 'retryable')).toBe(0);
+      expect(high.delayFor(2, 'retryable')).toBe(399);
+    });
+
+    it('should grow decorrelated jitter from the previous delay', () => {
+      const policy = new RetryPolicy({ jitter: 'decorrelated', initialDelayMs: 100, maxDelayMs: 1000, random: () => 0.5 });
+
+      expect(policy.delayFor(0, 'retryable', 0)).toBe(100);
+      expect(policy.delayFor(1, 'retryable', 300)).toBe(500);
+      expect(policy.delayFor(2, 'retryable', 900)).toBe(1000);
+    });
+  });
+
+  describe('time budget', () => {
+    it('should stop retrying when the next delay would exceed the budget', async () => {
+      const fn = jest.fn().mockRejectedValue(new Error('Slow failure'));
+      const policy = new RetryPolicy({ jitter: 'none', initialDelayMs: 200, maxElapsedMs: 100 });
+
+      await expect(policy.execute(fn)).rejects.toThrow('Slow failure');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying before the Lambda invocation times out', async () => {
+      const fn = jest.fn().mockRejectedValue(new Error('Slow failure'));
+      const policy = new RetryPolicy({ jitter: 'none', initialDelayMs: 200 });
+      setInvocationDeadline({ getRemainingTimeInMillis: () => 600 });
+
+      await expect(policy.execute(fn)).rejects.toThrow('Slow failure');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should not call the function once the signal is aborted', async () => {
+      const fn = jest.fn().mockResolvedValue('success');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(new RetryPolicy().execute(fn, { signal: controller.signal })).rejects.toThrow();
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for a retry when the signal is aborted', async () => {
+      const fn = jest.fn().mockRejectedValue(new Error('Failed'));
+      const controller = new AbortController();
+      const policy = new RetryPolicy({ jitter: 'none', initialDelayMs: 10000 });
+
+      const execution = policy.execute(fn, { signal: controller.signal });
+      setTimeout(() => controller.abort(new Error('Request cancelled')), 10);
+
+      await expect(execution).rejects.toThrow('Request cancelled');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { createOrderSchema, updateOrderSchema } from '../../src/models/schemas';
+import { createOrderSchema, queryOrdersSchema, updateOrderSchema } from '../../src/models/schemas';
 import { ZodError } from 'zod';
 
 describe('Schema Validation', () => {
@@ -10,9 +10,7 @@ describe('Schema Validation', () => {
         items: [
           {
             productId: '123e4567-e89b-12d3-a456-426614174000',
-            name: 'Test Product',
             quantity: 2,
-            price: 29.99,
           },
         ],
         shippingAddress: {
@@ -34,6 +32,37 @@ describe('Schema Validation', () => {
       });
     });
 
+    it('should drop client-supplied names and prices, which come from the catalog', () => {
+      const result = createOrderSchema.parse({
+        customerId: 'customer-123',
+        customerEmail: 'test@example.com',
+        items: [
+          {
+            productId: '123e4567-e89b-12d3-a456-426614174000',
+            name: 'Anything',
+            quantity: 1,
+            price: { amount: 1, currency: 'USD' },
+          },
+        ],
+        shippingAddress: { street: '123 Main St', city: 'Boston', state: 'MA', zipCode: '02101' },
+      });
+
+      expect(result.items).toEqual([{ productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 1 }]);
+    });
+
+    it('should reject a product listed twice', () => {
+      const item = { productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 1 };
+
+      expect(
+        createOrderSchema.safeParse({
+          customerId: 'customer-123',
+          customerEmail: 'test@example.com',
+          items: [item, item],
+          shippingAddress: { street: '123 Main St', city: 'Boston', state: 'MA', zipCode: '02101' },
+        }).success
+      ).toBe(false);
+    });
+
     it('should reject invalid email', () => {
       const invalidRequest = {
         customerId: 'customer-123',
@@ -41,9 +70,7 @@ describe('Schema Validation', () => {
         items: [
           {
             productId: '123e4567-e89b-12d3-a456-426614174000',
-            name: 'Test Product',
             quantity: 2,
-            price: 29.99,
           },
         ],
         shippingAddress: {
@@ -64,9 +91,7 @@ describe('Schema Validation', () => {
         items: [
           {
             productId: 'invalid-uuid',
-            name: 'Test Product',
             quantity: 2,
-            price: 29.99,
           },
         ],
         shippingAddress: {
@@ -87,9 +112,7 @@ describe('Schema Validation', () => {
         items: [
           {
             productId: '123e4567-e89b-12d3-a456-426614174000',
-            name: 'Test Product',
             quantity: -1,
-            price: 29.99,
           },
         ],
         shippingAddress: {
@@ -110,9 +133,7 @@ describe('Schema Validation', () => {
         items: [
           {
             productId: '123e4567-e89b-12d3-a456-426614174000',
-            name: 'Test Product',
             quantity: 1,
-            price: 29.99,
           },
         ],
         shippingAddress: {
@@ -156,6 +177,24 @@ describe('Schema Validation', () => {
       expect(result.items).toBeUndefined();
     });
 
+    it('should take items as product and quantity only', () => {
+      const result = updateOrderSchema.parse({
+        orderId: 'order-123',
+        items: [
+          {
+            productId: '123e4567-e89b-12d3-a456-426614174000',
+            name: 'Widget',
+            quantity: 2,
+            price: { amount: 1, currency: 'USD' },
+          },
+        ],
+      });
+
+      expect(result.items).toEqual([
+        { productId: '123e4567-e89b-12d3-a456-426614174000', quantity: 2 },
+      ]);
+    });
+
     it('should reject invalid status', () => {
       const invalidRequest = {
         orderId: 'order-123',
@@ -165,4 +204,39 @@ describe('Schema Validation', () => {
       expect(() => updateOrderSchema.parse(invalidRequest)).toThrow(ZodError);
     });
   });
+
+  describe('queryOrdersSchema', () => {
+    it('should coerce and normalise query string values', () => {
+      const result = queryOrdersSchema.parse({
+        status: 'SHIPPED',
+        createdFrom: '2024-01-01T00:00:00Z',
+        minAmount: '10',
+        metadata: { channel: 'web' },
+        sortOrder: 'desc',
+      });
+
+      expect(result).toMatchObject({
+        status: 'SHIPPED',
+        createdFrom: '2024-01-01T00:00:00.000Z',
+        minAmount: 10,
+        metadata: { channel: 'web' },
+        sortOrder: 'desc',
+        limit: 20,
+      });
+    });
+
+    it('should reject inverted ranges', () => {
+      expect(() =>
+        queryOrdersSchema.parse({
+          createdFrom: '2024-02-01T00:00:00Z',
+          createdTo: '2024-01-01T00:00:00Z',
+        })
+      ).toThrow(ZodError);
+      expect(() => queryOrdersSchema.parse({ minAmount: '50', maxAmount: '10' })).toThrow(ZodError);
+    });
+
+    it('should reject unsafe metadata keys', () => {
+      expect(() => queryOrdersSchema.parse({ metadata: { 'a.b': 'x' } })).toThrow(ZodError);
+    });
+  });
 });
@@ -0,0 +1,62 @@
+import { SQSRecord } from 'aws-lambda';
+import { parseBatchProcessingMode, processSqsBatch } from '../../src/utils/sqs-batch-processor';
+
+describe('processSqsBatch', () => {
+  const buildRecord = (messageId: string, messageGroupId?: string): SQSRecord =>
+    ({
+      messageId,
+      body: JSON.stringify({ messageId }),
+      attributes: { ApproximateReceiveCount: '1', MessageGroupId: messageGroupId },
+    }) as unknown as SQSRecord;
+
+  it('should report only the failed messages', async () => {
+    const records = [buildRecord('m1'), buildRecord('m2'), buildRecord('m3')];
+    const processRecord = jest.fn(async (record: SQSRecord) => {
+      if (record.messageId === 'm2') {
+        throw new Error('Processing failed');
+      }
+    });
+
+    const result = await processSqsBatch(records, processRecord);
+
+    expect(processRecord).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: 'm2' }] });
+  });
+
+  it('should return no failures when every message succeeds', async () => {
+    const result = await processSqsBatch([buildRecord('m1')], jest.fn().mockResolvedValue(undefined));
+
+    expect(result.batchItemFailures).toEqual([]);
+  });
+
+  it('should process a message group in order and hold back messages after a failure', async () => {
+    const records = [
+      buildRecord('a1', 'group-a'),
+      buildRecord('b1', 'group-b'),
+      buildRecord('a2', 'group-a'),
+      buildRecord('a3', 'group-a'),
+      buildRecord('b2', 'group-b'),
+    ];
+    const processed: string[] = [];
+    const processRecord = jest.fn(async (record: SQSRecord) => {
+      processed.push(record.messageId);
+      if (record.messageId === 'a2') {
+        throw new Error('Processing failed');
+      }
+    });
+
+    const result = await processSqsBatch(records, processRecord, { mode: 'ordered' });
+
+    expect(processed).not.toContain('a3');
+    expect(processed.indexOf('a1')).toBeLessThan(processed.indexOf('a2'));
+    expect(processed).toEqual(expect.arrayContaining(['b1', 'b2']));
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'a2' }, { itemIdentifier: 'a3' }]);
+  });
+
+  it('should default to parallel mode for unknown configuration', () => {
+    expect(parseBatchProcessingMode('ordered')).toBe('ordered');
+    expect(parseBatchProcessingMode('parallel')).toBe('parallel');
+    expect(parseBatchProcessingMode(undefined)).toBe('parallel');
+    expect(parseBatchProcessingMode('random')).toBe('parallel');
+  });
+});